@@ -0,0 +1,117 @@
+import { parseGwei, type Transaction } from 'viem';
+import { type ChainContext } from '../context';
+import { getNetworkPrices } from '../tools/price-api/price';
+import { FeeLimitExceededError } from '../utils/errors';
+import { feesForCall, replacementFees, type FeePolicy } from './fees';
+
+jest.mock('../tools/price-api/price', () => ({ getNetworkPrices: jest.fn() }));
+
+const GAS = 21000n;
+const TO = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+function setup(feePolicy: FeePolicy, network = { baseFeeGwei: '25', priorityFeeGwei: '1', gasPriceGwei: '70' }) {
+    const publicClient = {
+        getBlock: jest.fn(async () => ({ baseFeePerGas: parseGwei(network.baseFeeGwei) })),
+        estimateMaxPriorityFeePerGas: jest.fn(async () => parseGwei(network.priorityFeeGwei)),
+        getGasPrice: jest.fn(async () => parseGwei(network.gasPriceGwei)),
+        estimateGas: jest.fn(async () => GAS)
+    };
+    const chain = {
+        network: 'kaia',
+        networkInfo: { nativeCurrency: 'KAIA' },
+        account: { address: TO },
+        api: {},
+        publicClient,
+        feePolicy
+    } as unknown as ChainContext;
+    return { chain, publicClient };
+}
+
+const eip1559 = { maxFeePerGas: parseGwei('100'), maxPriorityFeePerGas: parseGwei('2') } as Transaction;
+const legacy = { gasPrice: parseGwei('50') } as Transaction;
+
+function mockKaiaPrice(price: number | null) {
+    (getNetworkPrices as jest.Mock).mockResolvedValue({ success: true, prices: price === null ? [] : [{ symbol: 'KAIA', price }] });
+}
+
+describe('replacementFees', () => {
+    it('raises the original EIP-1559 fees by the multiplier', async () => {
+        const { chain } = setup({});
+
+        await expect(replacementFees(chain, eip1559, GAS, 1.1)).resolves.toEqual({
+            gas: GAS,
+            maxFeePerGas: parseGwei('110'),
+            maxPriorityFeePerGas: parseGwei('2.2')
+        });
+    });
+
+    it('pays at least the network fees when they rose past the raised ones', async () => {
+        const { chain } = setup({}, { baseFeeGwei: '100', priorityFeeGwei: '5', gasPriceGwei: '70' });
+
+        // 1.2 × the base fee plus the suggested priority fee
+        await expect(replacementFees(chain, eip1559, GAS, 1.1)).resolves.toEqual({
+            gas: GAS,
+            maxFeePerGas: parseGwei('125'),
+            maxPriorityFeePerGas: parseGwei('5')
+        });
+        // The network's gas price for a legacy transaction
+        await expect(replacementFees(chain, legacy, GAS, 1.2)).resolves.toEqual({ gas: GAS, gasPrice: parseGwei('70') });
+        await expect(replacementFees(chain, legacy, GAS, 1.5)).resolves.toEqual({ gas: GAS, gasPrice: parseGwei('75') });
+    });
+
+    it('refuses a replacement over the fee cap instead of capping it', async () => {
+        const { chain } = setup({ maxFeePerGasGwei: 100 });
+
+        await expect(replacementFees(chain, eip1559, GAS, 1.1)).rejects.toThrow('the replacement needs 110 gwei per gas, over the 100 gwei maximum');
+        await expect(replacementFees(chain, legacy, GAS, 1.1)).resolves.toEqual({ gas: GAS, gasPrice: parseGwei('70') });
+    });
+});
+
+describe('maximum cost', () => {
+    afterEach(() => {
+        (getNetworkPrices as jest.Mock).mockReset();
+    });
+
+    it('refuses a transaction that could cost more than the native cap', async () => {
+        // 21000 gas × 110 gwei = 0.00231 KAIA
+        await expect(replacementFees(setup({ maxCostNative: 0.00231 }).chain, eip1559, GAS, 1.1)).resolves.toHaveProperty('maxFeePerGas');
+        await expect(replacementFees(setup({ maxCostNative: 0.002 }).chain, eip1559, GAS, 1.1))
+            .rejects.toThrow('the transaction could cost up to 0.00231 KAIA in fees, over the 0.002 KAIA limit');
+        expect(getNetworkPrices).not.toHaveBeenCalled();
+    });
+
+    it('prices the maximum cost against the USD cap', async () => {
+        mockKaiaPrice(0.2);
+
+        // 0.00231 KAIA at $0.20 = $0.000462
+        await expect(replacementFees(setup({ maxCostUSD: 0.0005 }).chain, eip1559, GAS, 1.1)).resolves.toHaveProperty('maxFeePerGas');
+        await expect(replacementFees(setup({ maxCostUSD: 0.0004 }).chain, eip1559, GAS, 1.1))
+            .rejects.toThrow('the transaction could cost up to $0.0005 in fees (0.00231 KAIA), over the $0.0004 limit');
+    });
+
+    it('refuses the transaction when the native currency has no price', async () => {
+        mockKaiaPrice(null);
+
+        await expect(replacementFees(setup({ maxCostUSD: 1 }).chain, eip1559, GAS, 1.1)).rejects.toBeInstanceOf(FeeLimitExceededError);
+    });
+});
+
+describe('feesForCall', () => {
+    it('leaves gas and fees to viem without a policy', async () => {
+        const { chain, publicClient } = setup({});
+
+        await expect(feesForCall(chain, { to: TO })).resolves.toEqual({});
+        expect(publicClient.estimateGas).not.toHaveBeenCalled();
+    });
+
+    it('pads the gas limit and holds the maximum fee to the cap', async () => {
+        const { chain } = setup({ gasLimitBufferPercent: 20, maxFeePerGasGwei: 28 });
+
+        // 1.2 × 25 gwei + 1 gwei is over the cap, which still leaves the full priority fee
+        await expect(feesForCall(chain, { to: TO })).resolves.toEqual({
+            gas: 25200n,
+            maxFeePerGas: parseGwei('28'),
+            maxPriorityFeePerGas: parseGwei('1')
+        });
+    });
+});
@@ -0,0 +1,162 @@
+import { formatEther, formatGwei, parseGwei, type Abi, type Address, type EstimateContractGasParameters, type Hex, type Transaction } from 'viem';
+import { type ChainContext } from '../context';
+import { getNetworkPrices } from '../tools/price-api/price';
+import { FeeLimitExceededError } from '../utils/errors';
+
+/**
+ * Gas fee policy of a network, applied to every transaction the server sends. Without settings
+ * viem estimates gas and fees itself. With a policy, the gas limit is estimated here and padded
+ * by the buffer, the fees follow the configured mode and multiplier, and a transaction whose
+ * maximum cost (gas limit × fee per gas) is over a cap is refused before it is signed
+ */
+
+export interface FeePolicy {
+    // Transaction type; EIP-1559 when the latest block has a base fee, unless set
+    mode?: 'legacy' | 'eip1559';
+    // Applied to the node's suggested priority fee, or to the gas price in legacy mode
+    priorityFeeMultiplier?: number;
+    // Highest fee per gas to offer; sends are refused while the base fee (or gas price) is higher
+    maxFeePerGasGwei?: number;
+    // Added to the estimated gas limit, in percent
+    gasLimitBufferPercent?: number;
+    // Highest maximum cost of one transaction, in the native currency and in USD
+    maxCostNative?: number;
+    maxCostUSD?: number;
+}
+
+// Gas and fee fields to send a transaction with; empty to let viem estimate them
+export type FeeOverrides =
+    | Record<string, never>
+    | { gas: bigint; gasPrice: bigint }
+    | { gas: bigint; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint };
+
+export interface ContractCall {
+    address: Address;
+    abi: Abi | readonly unknown[];
+    functionName: string;
+    args?: readonly unknown[];
+    value?: bigint;
+    // Explicit gas limit, used without the buffer
+    gas?: bigint;
+}
+
+// Headroom over the current base fee, as viem uses by default
+const BASE_FEE_MULTIPLIER = 1.2;
+
+function scale(value: bigint, factor: number): bigint {
+    return value * BigInt(Math.round(factor * 10000)) / 10000n;
+}
+
+function maxOf(a: bigint, b: bigint): bigint {
+    return a > b ? a : b;
+}
+
+export function isFeePolicyEnabled(policy: FeePolicy): boolean {
+    return Object.values(policy).some(value => value !== undefined);
+}
+
+// Gas and fees for a call from the chain's account
+export async function feesForCall(chain: ChainContext, call: { to: Address; data?: Hex; value?: bigint; gas?: bigint }): Promise<FeeOverrides> {
+    if (!isFeePolicyEnabled(chain.feePolicy)) {
+        return {};
+    }
+    return quoteFees(chain, call.gas, () => chain.publicClient.estimateGas({ account: chain.account!, to: call.to, data: call.data, value: call.value }));
+}
+
+// Gas and fees for a contract write from the chain's account
+export async function feesForContract(chain: ChainContext, call: ContractCall): Promise<FeeOverrides> {
+    if (!isFeePolicyEnabled(chain.feePolicy)) {
+        return {};
+    }
+    const { gas, ...request } = call;
+    return quoteFees(chain, gas, () => chain.publicClient.estimateContractGas({ ...request, account: chain.account! } as EstimateContractGasParameters));
+}
+
+async function quoteFees(chain: ChainContext, gasLimit: bigint | undefined, estimateGas: () => Promise<bigint>): Promise<FeeOverrides> {
+    const { priorityFeeMultiplier = 1, maxFeePerGasGwei, gasLimitBufferPercent = 0 } = chain.feePolicy;
+    const { publicClient } = chain;
+
+    const [gas, block] = await Promise.all([
+        gasLimit ?? estimateGas().then(estimate => scale(estimate, 1 + gasLimitBufferPercent / 100)),
+        publicClient.getBlock()
+    ]);
+    const maxFeePerGasCap = maxFeePerGasGwei === undefined ? undefined : parseGwei(maxFeePerGasGwei.toFixed(9));
+    const mode = chain.feePolicy.mode ?? (block.baseFeePerGas != null ? 'eip1559' : 'legacy');
+
+    if (mode === 'legacy') {
+        const gasPrice = scale(await publicClient.getGasPrice(), priorityFeeMultiplier);
+        if (maxFeePerGasCap !== undefined && gasPrice > maxFeePerGasCap) {
+            throw new FeeLimitExceededError(`the gas price of ${formatGwei(gasPrice)} gwei is over the ${maxFeePerGasGwei} gwei maximum`);
+        }
+        await checkMaxCost(chain, gas * gasPrice);
+        return { gas, gasPrice };
+    }
+
+    const baseFee = block.baseFeePerGas ?? 0n;
+    if (maxFeePerGasCap !== undefined && baseFee > maxFeePerGasCap) {
+        throw new FeeLimitExceededError(`the base fee of ${formatGwei(baseFee)} gwei is over the ${maxFeePerGasGwei} gwei maximum fee per gas`);
+    }
+    let maxPriorityFeePerGas = scale(await publicClient.estimateMaxPriorityFeePerGas(), priorityFeeMultiplier);
+    let maxFeePerGas = scale(baseFee, BASE_FEE_MULTIPLIER) + maxPriorityFeePerGas;
+    if (maxFeePerGasCap !== undefined && maxFeePerGas > maxFeePerGasCap) {
+        // Still above the current base fee, so the transaction can be included while fees stay there
+        maxFeePerGas = maxFeePerGasCap;
+        if (maxPriorityFeePerGas > maxFeePerGasCap - baseFee) {
+            maxPriorityFeePerGas = maxFeePerGasCap - baseFee;
+        }
+    }
+    await checkMaxCost(chain, gas * maxFeePerGas);
+    return { gas, maxFeePerGas, maxPriorityFeePerGas };
+}
+
+/**
+ * Fees to resend a pending transaction at its nonce: its own fees raised by `multiplier`, and at
+ * least the network's current fees. Nodes only accept a replacement that pays more than the
+ * original, so a replacement over the policy's fee cap is refused rather than capped
+ */
+export async function replacementFees(chain: ChainContext, original: Transaction, gas: bigint, multiplier: number): Promise<FeeOverrides> {
+    const { maxFeePerGasGwei } = chain.feePolicy;
+    const { publicClient } = chain;
+    const checkFeePerGas = (feePerGas: bigint) => {
+        if (maxFeePerGasGwei !== undefined && feePerGas > parseGwei(maxFeePerGasGwei.toFixed(9))) {
+            throw new FeeLimitExceededError(`the replacement needs ${formatGwei(feePerGas)} gwei per gas, over the ${maxFeePerGasGwei} gwei maximum`);
+        }
+    };
+
+    if (original.maxFeePerGas !== undefined && original.maxPriorityFeePerGas !== undefined) {
+        const [block, suggestedPriorityFee] = await Promise.all([publicClient.getBlock(), publicClient.estimateMaxPriorityFeePerGas()]);
+        const maxPriorityFeePerGas = maxOf(scale(original.maxPriorityFeePerGas, multiplier), suggestedPriorityFee);
+        const maxFeePerGas = maxOf(scale(original.maxFeePerGas, multiplier), scale(block.baseFeePerGas ?? 0n, BASE_FEE_MULTIPLIER) + maxPriorityFeePerGas);
+        checkFeePerGas(maxFeePerGas);
+        await checkMaxCost(chain, gas * maxFeePerGas);
+        return { gas, maxFeePerGas, maxPriorityFeePerGas };
+    }
+
+    const gasPrice = maxOf(scale(original.gasPrice ?? 0n, multiplier), await publicClient.getGasPrice());
+    checkFeePerGas(gasPrice);
+    await checkMaxCost(chain, gas * gasPrice);
+    return { gas, gasPrice };
+}
+
+// Refuse a transaction whose maximum cost, in wei, is over the native or USD cap
+async function checkMaxCost(chain: ChainContext, maxCost: bigint) {
+    const { maxCostNative, maxCostUSD } = chain.feePolicy;
+    const currency = chain.networkInfo.nativeCurrency;
+    const cost = Number(formatEther(maxCost));
+
+    if (maxCostNative !== undefined && cost > maxCostNative) {
+        throw new FeeLimitExceededError(`the transaction could cost up to ${formatEther(maxCost)} ${currency} in fees, over the ${maxCostNative} ${currency} limit`);
+    }
+    if (maxCostUSD === undefined) {
+        return;
+    }
+
+    const prices = await getNetworkPrices(chain.api, chain.network);
+    const price: number = (prices.success && prices.prices?.find((entry: any) => entry.symbol === currency)?.price) || 0;
+    if (!(price > 0)) {
+        throw new FeeLimitExceededError(`no USD price is available for ${currency}, so the fee cannot be checked against the $${maxCostUSD} limit`);
+    }
+    if (cost * price > maxCostUSD) {
+        throw new FeeLimitExceededError(`the transaction could cost up to $${(cost * price).toFixed(4)} in fees (${formatEther(maxCost)} ${currency}), over the $${maxCostUSD} limit`);
+    }
+}
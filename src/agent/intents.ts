@@ -0,0 +1,115 @@
+import { randomUUID } from 'node:crypto';
+import { Address, Hex } from 'viem';
+import { NetworkType } from '../config';
+import { IntentExpiredError, ValidationError } from '../utils/errors';
+
+/**
+ * Two-phase transactions: the agent builds and simulates an action into an intent,
+ * and the intent is broadcast later exactly as prepared, at most once
+ */
+
+// A transaction built by the agent, ready to be simulated or broadcast
+export interface TransactionCall {
+    description: string;
+    to: Address;
+    data?: Hex;
+    value?: bigint;
+    // Approval or market entry sent ahead of the call that performs the action; it moves no funds
+    setup?: boolean;
+}
+
+export interface PreparedTransaction extends TransactionCall {
+    simulation: {
+        // depends_on_previous: the call only succeeds once the earlier transactions of the intent are mined
+        status: 'success' | 'depends_on_previous';
+        gasEstimate?: bigint;
+        error?: string;
+    };
+}
+
+// Expected change of a balance or position once every transaction of the intent is mined
+export interface ExpectedEffect {
+    asset: string;
+    position: 'wallet' | 'supplied' | 'borrowed' | 'allowance' | 'collateral';
+    // Signed amount, e.g. "-100" or "+0.5"; "max" for unlimited allowances
+    change: string;
+    note?: string;
+}
+
+export type IntentAction =
+    | 'supply'
+    | 'borrow'
+    | 'repay'
+    | 'redeem'
+    | 'approve'
+    | 'enter_market'
+    | 'swap'
+    | 'wrap'
+    | 'unwrap'
+    | 'send_native'
+    | 'send_erc20';
+
+export interface TransactionIntent {
+    id: string;
+    action: IntentAction;
+    summary: string;
+    network: NetworkType;
+    chainId: number;
+    from: Address;
+    // Managed account that must execute the intent
+    account: string | null;
+    transactions: PreparedTransaction[];
+    effects: ExpectedEffect[];
+    // Total fee of the simulated transactions at the current gas price
+    estimatedFee: string | null;
+    createdAt: string;
+    expiresAt: string;
+}
+
+export class IntentStore {
+    private intents = new Map<string, TransactionIntent>();
+
+    // How long an intent can be executed after it was prepared (intentTtlSeconds)
+    constructor(private ttlMs: number) {}
+
+    create(fields: Omit<TransactionIntent, 'id' | 'createdAt' | 'expiresAt'>): TransactionIntent {
+        this.prune();
+        const now = Date.now();
+        const intent: TransactionIntent = {
+            id: randomUUID(),
+            ...fields,
+            createdAt: new Date(now).toISOString(),
+            expiresAt: new Date(now + this.ttlMs).toISOString()
+        };
+        this.intents.set(intent.id, intent);
+        return intent;
+    }
+
+    get(id: string): TransactionIntent {
+        const intent = this.intents.get(id);
+        if (!intent) {
+            throw new ValidationError(`Unknown or already executed intent: ${id}`, 'intent_id');
+        }
+        if (Date.parse(intent.expiresAt) <= Date.now()) {
+            this.intents.delete(id);
+            throw new IntentExpiredError(id, intent.expiresAt);
+        }
+        return intent;
+    }
+
+    // Remove the intent before broadcasting so it can only be executed once
+    take(id: string): TransactionIntent {
+        const intent = this.get(id);
+        this.intents.delete(id);
+        return intent;
+    }
+
+    private prune() {
+        const now = Date.now();
+        for (const [id, intent] of this.intents) {
+            if (Date.parse(intent.expiresAt) <= now) {
+                this.intents.delete(id);
+            }
+        }
+    }
+}
@@ -0,0 +1,207 @@
+import { appendFileSync, existsSync, readFileSync } from 'node:fs';
+import { formatEther, type Hex, type PublicClient, type TransactionReceipt } from 'viem';
+import { NetworkType } from '../config';
+import { logger } from '../utils/logger';
+
+/**
+ * Append-only record of every transaction the server broadcasts. A line is written when a
+ * transaction is sent and another once its receipt arrives; reading the journal merges them.
+ * Without a file the journal only lasts for the life of the process
+ */
+
+// Receipts are awaited in the background for this long; later outcomes stay 'pending'
+const RECEIPT_TIMEOUT_MS = 10 * 60 * 1000;
+
+// 'replaced': another transaction with the same nonce was mined instead, e.g. a speed-up or cancellation
+export type JournalStatus = 'pending' | 'success' | 'failed' | 'replaced';
+
+// Known when the transaction is sent
+export interface JournalBroadcast {
+    hash: Hex;
+    timestamp: string;
+    tool: string;
+    description: string;
+    // Tool arguments, as decoded by the tool's input schema
+    params: Record<string, unknown>;
+    network: NetworkType;
+    chainId: number;
+    account: string | null;
+    from: string;
+    token: string | null;
+    // Amount and value of the tool call, recorded on the transaction that moves the funds;
+    // null for setup transactions
+    amount: string | null;
+    // Value of the tool call at the time it was sent
+    valueUSD: number | null;
+    // Approval or market entry sent ahead of the transaction that moves the funds
+    setup: boolean;
+}
+
+// Known once the transaction is mined
+export interface JournalReceipt {
+    hash: Hex;
+    status: 'success' | 'failed';
+    gasUsed: string;
+    // Native currency paid for gas
+    fee: string;
+    blockNumber: number;
+    confirmedAt: string;
+}
+
+// Known once another transaction with the same nonce is mined
+export interface JournalReplacement {
+    hash: Hex;
+    replacedBy: Hex;
+    // As reported by viem: 'repriced' (same call, higher fees), 'cancelled' (zero-value self-transfer) or 'replaced'
+    reason: 'repriced' | 'cancelled' | 'replaced';
+}
+
+export interface JournalEntry extends JournalBroadcast {
+    status: JournalStatus;
+    replacedBy: Hex | null;
+    gasUsed: string | null;
+    fee: string | null;
+    blockNumber: number | null;
+    confirmedAt: string | null;
+}
+
+export interface JournalQuery {
+    since?: Date;
+    until?: Date;
+    tool?: string;
+    token?: string;
+    status?: JournalStatus;
+    network?: NetworkType;
+    account?: string;
+    limit?: number;
+}
+
+type JournalLine =
+    | ({ type: 'broadcast' } & JournalBroadcast)
+    | ({ type: 'receipt' } & JournalReceipt)
+    | ({ type: 'replaced' } & JournalReplacement);
+
+export class TransactionJournal {
+    private entries = new Map<Hex, JournalEntry>();
+
+    constructor(private file?: string) {
+        if (file && existsSync(file)) {
+            for (const [index, line] of readFileSync(file, 'utf8').split('\n').entries()) {
+                if (!line.trim()) {
+                    continue;
+                }
+                try {
+                    this.apply(JSON.parse(line));
+                } catch (error) {
+                    // A partially written last line must not prevent the server from starting
+                    logger.warn(`Skipping unreadable line ${index + 1} of transaction journal ${file}`);
+                }
+            }
+        }
+    }
+
+    get persistent(): boolean {
+        return this.file !== undefined;
+    }
+
+    // Record a sent transaction and append its outcome once it, or a replacement, is mined
+    record(broadcast: JournalBroadcast, publicClient: PublicClient) {
+        this.append({ type: 'broadcast', ...broadcast });
+
+        publicClient.waitForTransactionReceipt({
+            hash: broadcast.hash,
+            timeout: RECEIPT_TIMEOUT_MS,
+            onReplaced: replacement => this.recordReplacement(broadcast.hash, replacement.transaction.hash, replacement.reason)
+        })
+            .then(receipt => this.recordReceipt(receipt))
+            .catch(error => logger.debug(`No receipt for journal entry ${broadcast.hash}`, { network: broadcast.network, error }));
+    }
+
+    recordReceipt(receipt: TransactionReceipt) {
+        const entry = this.entries.get(receipt.transactionHash);
+        if (!entry || entry.status !== 'pending') {
+            return;
+        }
+        this.append({
+            type: 'receipt',
+            hash: receipt.transactionHash,
+            status: receipt.status === 'success' ? 'success' : 'failed',
+            gasUsed: receipt.gasUsed.toString(),
+            fee: formatEther(receipt.gasUsed * receipt.effectiveGasPrice),
+            blockNumber: Number(receipt.blockNumber),
+            confirmedAt: new Date().toISOString()
+        });
+    }
+
+    recordReplacement(hash: Hex, replacedBy: Hex, reason: JournalReplacement['reason']) {
+        const entry = this.entries.get(hash);
+        if (!entry || entry.status !== 'pending') {
+            return;
+        }
+        this.append({ type: 'replaced', hash, replacedBy, reason });
+    }
+
+    get(hash: Hex): JournalEntry | undefined {
+        return this.entries.get(hash);
+    }
+
+    // Matching entries, most recent first
+    query(filter: JournalQuery = {}): JournalEntry[] {
+        const token = filter.token?.toUpperCase();
+        const tool = filter.tool?.toLowerCase();
+
+        const matches = [...this.entries.values()].filter(entry => {
+            const sentAt = new Date(entry.timestamp);
+            return (!filter.since || sentAt >= filter.since)
+                && (!filter.until || sentAt <= filter.until)
+                && (!tool || entry.tool.toLowerCase() === tool)
+                && (!token || entry.token?.toUpperCase() === token)
+                && (!filter.status || entry.status === filter.status)
+                && (!filter.network || entry.network === filter.network)
+                && (!filter.account || entry.account === filter.account);
+        });
+
+        return matches.reverse().slice(0, filter.limit);
+    }
+
+    private append(line: JournalLine) {
+        this.apply(line);
+        if (this.file) {
+            try {
+                appendFileSync(this.file, `${JSON.stringify(line)}\n`);
+            } catch (error) {
+                logger.error(`Failed to write transaction journal ${this.file}`, { error });
+            }
+        }
+    }
+
+    private apply(line: JournalLine) {
+        if (line.type === 'broadcast') {
+            const { type, ...broadcast } = line;
+            this.entries.set(broadcast.hash, {
+                ...broadcast,
+                // Absent from lines written before setup transactions were marked
+                setup: broadcast.setup ?? false,
+                status: 'pending',
+                replacedBy: null,
+                gasUsed: null,
+                fee: null,
+                blockNumber: null,
+                confirmedAt: null
+            });
+            return;
+        }
+
+        const entry = this.entries.get(line.hash);
+        if (!entry) {
+            return;
+        }
+        if (line.type === 'replaced') {
+            entry.status = 'replaced';
+            entry.replacedBy = line.replacedBy;
+            return;
+        }
+        const { type, hash, ...receipt } = line;
+        Object.assign(entry, receipt);
+    }
+}
@@ -0,0 +1,79 @@
+import { networkConfigs, type KiloLendMCPEnvironment, type NetworkType } from '../config';
+import { createChainContext, type ChainContextOverrides } from '../context';
+import { type ManagedAccount } from '../signers';
+import { ValidationError } from '../utils/errors';
+import { IntentStore } from './intents';
+import { WalletAgent } from './wallet';
+
+/**
+ * One WalletAgent per supported network and managed account, created on first use from the
+ * startup environment, so a single server can manage several wallets on KAIA, KUB and Etherlink
+ */
+
+export const SUPPORTED_NETWORKS: readonly NetworkType[] = ['kaia', 'kub', 'etherlink'];
+
+export function parseNetwork(value: unknown): NetworkType {
+    const network = String(value).toLowerCase() as NetworkType;
+    if (!SUPPORTED_NETWORKS.includes(network)) {
+        throw new ValidationError(`Unsupported network: ${value}. Supported networks: ${SUPPORTED_NETWORKS.join(', ')}`, 'network');
+    }
+    return network;
+}
+
+// The startup environment retargeted at another network; RPC_URL only applies to the startup network
+function environmentForNetwork(environment: KiloLendMCPEnvironment, network: NetworkType): KiloLendMCPEnvironment {
+    if (network === environment.network) {
+        return environment;
+    }
+    return {
+        ...environment,
+        network,
+        chainId: networkConfigs[network].chainId,
+        rpcUrl: networkConfigs[network].rpcProviderUrl
+    };
+}
+
+export class NetworkManager {
+    private agents = new Map<string, WalletAgent>();
+
+    // The first account is the default; without accounts the agents are read-only. The intent
+    // store is shared by every network's agent, so an intent is found whichever network executes it
+    constructor(
+        private environment: KiloLendMCPEnvironment,
+        public readonly accounts: readonly ManagedAccount[],
+        private intents: IntentStore
+    ) {}
+
+    // Network selected at startup with CHAIN_ID
+    get defaultNetwork(): NetworkType {
+        return this.environment.network;
+    }
+
+    get defaultAccount(): string | null {
+        return this.accounts[0]?.name ?? null;
+    }
+
+    getAgent(network: NetworkType = this.defaultNetwork, accountName: string | null = this.defaultAccount): WalletAgent {
+        const key = `${network}:${accountName ?? ''}`;
+        let agent = this.agents.get(key);
+        if (!agent) {
+            const overrides: ChainContextOverrides = { account: null };
+            if (accountName !== null) {
+                const managed = this.accounts.find(entry => entry.name === accountName);
+                if (!managed) {
+                    const names = this.accounts.map(entry => entry.name);
+                    throw new ValidationError(`Unknown account: ${accountName}. Accounts: ${names.length > 0 ? names.join(', ') : 'none (read-only)'}`, 'account');
+                }
+                overrides.account = managed.account;
+                overrides.accountName = managed.name;
+                // Accounts of a network share its RPC client
+                if (accountName !== this.defaultAccount) {
+                    overrides.publicClient = this.getAgent(network).chain.publicClient;
+                }
+            }
+            agent = new WalletAgent(createChainContext(environmentForNetwork(this.environment, network), overrides), this.intents);
+            this.agents.set(key, agent);
+        }
+        return agent;
+    }
+}
@@ -0,0 +1,112 @@
+import { keccak256, toHex, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { type KiloLendPublicClient, type KiloLendWalletClient } from '../context';
+import { TransactionError } from '../utils/errors';
+import { NonceManager } from './nonces';
+
+const account = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const to = '0x000000000000000000000000000000000000dEaD';
+
+// Signed transactions are stood in for by their nonce, so tests can see which nonce was broadcast
+function signed(nonce: number): Hex {
+    return toHex(`signed:${nonce}`);
+}
+
+function nonceOf(serializedTransaction: Hex): number {
+    return Number(Buffer.from(serializedTransaction.slice(2), 'hex').toString().split(':')[1]);
+}
+
+// Broadcasts record their nonce and fail with the queued node errors, in order
+function setup(pendingCounts: number[], nodeErrors: string[] = []) {
+    const counts = [...pendingCounts];
+    const errors = [...nodeErrors];
+    const broadcast: number[] = [];
+    const publicClient = {
+        getTransactionCount: jest.fn(async () => counts.length > 1 ? counts.shift()! : counts[0])
+    };
+    const walletClient = {
+        account,
+        prepareTransactionRequest: jest.fn(async (request: any) => request),
+        signTransaction: jest.fn(async (request: any) => signed(request.nonce)),
+        sendRawTransaction: jest.fn(async ({ serializedTransaction }: { serializedTransaction: Hex }) => {
+            broadcast.push(nonceOf(serializedTransaction));
+            const error = errors.shift();
+            if (error) {
+                throw Object.assign(new Error('Transaction failed'), { details: error });
+            }
+            return keccak256(serializedTransaction);
+        })
+    };
+    const nonces = new NonceManager(publicClient as unknown as KiloLendPublicClient, walletClient as unknown as KiloLendWalletClient);
+    return { nonces, broadcast };
+}
+
+describe('NonceManager', () => {
+    it('numbers concurrent sends from the pending count', async () => {
+        const { nonces, broadcast } = setup([7]);
+
+        await Promise.all([nonces.send({ to }), nonces.send({ to }), nonces.send({ to })]);
+
+        expect(broadcast).toEqual([7, 8, 9]);
+        expect(nonces.pendingNonce).toBe(10);
+    });
+
+    it('continues from the node when it counts more pending transactions', async () => {
+        const { nonces, broadcast } = setup([3, 3, 5]);
+
+        await nonces.send({ to });
+        await nonces.send({ to });
+        await nonces.send({ to });
+
+        expect(broadcast).toEqual([3, 4, 5]);
+    });
+
+    it('retries a stale nonce once with the pending count', async () => {
+        const { nonces, broadcast } = setup([2, 4], ['nonce too low']);
+
+        const hash = await nonces.send({ to });
+
+        expect(broadcast).toEqual([2, 4]);
+        expect(hash).toBe(keccak256(signed(4)));
+        expect(nonces.pendingNonce).toBe(5);
+    });
+
+    it('gives up when the retry conflicts again', async () => {
+        const { nonces, broadcast } = setup([2, 3, 4], ['nonce too low', 'nonce too low']);
+
+        await expect(nonces.send({ to })).rejects.toThrow('Transaction failed');
+        expect(broadcast).toEqual([2, 3]);
+        expect(nonces.pendingNonce).toBeNull();
+    });
+
+    it('treats a transaction the node already knows as sent', async () => {
+        const { nonces, broadcast } = setup([6], ['already known']);
+
+        const hash = await nonces.send({ to });
+
+        expect(hash).toBe(keccak256(signed(6)));
+        expect(broadcast).toEqual([6]);
+        expect(nonces.pendingNonce).toBe(7);
+    });
+
+    it('does not retry over a pending transaction at the same nonce', async () => {
+        const { nonces, broadcast } = setup([6], ['replacement transaction underpriced']);
+
+        const sent = nonces.send({ to });
+
+        await expect(sent).rejects.toBeInstanceOf(TransactionError);
+        await expect(sent).rejects.toThrow('already uses nonce 6');
+        expect(broadcast).toEqual([6]);
+        expect(nonces.pendingNonce).toBeNull();
+    });
+
+    it('resends at the given nonce without changing the count', async () => {
+        const { nonces, broadcast } = setup([4]);
+        await nonces.send({ to });
+
+        await nonces.resend(1, { to, gas: 21000n, gasPrice: 2n });
+
+        expect(broadcast).toEqual([4, 1]);
+        expect(nonces.pendingNonce).toBe(5);
+    });
+});
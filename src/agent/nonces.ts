@@ -0,0 +1,119 @@
+import { keccak256, type Address, type Hex, type PrepareTransactionRequestParameters } from 'viem';
+import { type KiloLendPublicClient, type KiloLendWalletClient } from '../context';
+import { TransactionError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+/**
+ * Per-account transaction queue. Sends of one account on one network run one at a time and
+ * are numbered locally, so concurrent tool calls never pick the same nonce. Before every send
+ * the local count is reconciled with the node's pending count (getTransactionCount 'pending');
+ * a failed send does not use up its nonce, and the count is re-read from the node afterwards,
+ * so an error cannot leave a gap that blocks later transactions. Transactions are signed here
+ * and broadcast raw, so the hash of a transaction the node already holds is still known
+ */
+
+// The nonce was taken in the meantime, e.g. by a transaction sent outside this server
+const NONCE_CONFLICT = /nonce too low|lower than the current nonce|nonce has already been used/i;
+
+// The node already holds this exact signed transaction, e.g. from a broadcast that timed out
+const ALREADY_KNOWN = /already known|already imported|known transaction/i;
+
+// Another transaction with this nonce is still pending, and this one does not pay enough to replace it
+const REPLACEMENT_UNDERPRICED = /replacement transaction underpriced|replacement fee too low/i;
+
+// A transaction to sign; the nonce is added by the manager, missing gas and fees are estimated
+export interface OutgoingTransaction {
+    to: Address;
+    data?: Hex;
+    value?: bigint;
+    gas?: bigint;
+    gasPrice?: bigint;
+    maxFeePerGas?: bigint;
+    maxPriorityFeePerGas?: bigint;
+}
+
+function errorText(error: any): string {
+    return `${error?.message} ${error?.details ?? ''}`;
+}
+
+export class NonceManager {
+    private nextNonce: number | null = null;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(private publicClient: KiloLendPublicClient, private walletClient: KiloLendWalletClient) {}
+
+    get address(): Address {
+        return this.walletClient.account.address;
+    }
+
+    // Next nonce this account will use, once known; null until the first send or after an error
+    get pendingNonce(): number | null {
+        return this.nextNonce;
+    }
+
+    // Sign and broadcast `transaction` with the next nonce, after every earlier send of this account has finished
+    send(transaction: OutgoingTransaction): Promise<Hex> {
+        return this.enqueue(() => this.sendNext(transaction));
+    }
+
+    // Sign and broadcast `transaction` with the nonce of a pending transaction it replaces; the local count is unchanged
+    resend(nonce: number, transaction: OutgoingTransaction): Promise<Hex> {
+        return this.enqueue(async () => this.broadcast(await this.sign(transaction, nonce)));
+    }
+
+    // Forget the local count; the next send continues from the node's pending count
+    resync() {
+        this.nextNonce = null;
+    }
+
+    private enqueue<T>(run: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(run);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    // Highest of the local count and the node's pending count: the node may not count a
+    // transaction it only just accepted, and other wallets may have sent from this account
+    private async takeNonce(): Promise<number> {
+        const pending = await this.publicClient.getTransactionCount({ address: this.address, blockTag: 'pending' });
+        return this.nextNonce === null ? pending : Math.max(this.nextNonce, pending);
+    }
+
+    private async sendNext(transaction: OutgoingTransaction, retried: boolean = false): Promise<Hex> {
+        const nonce = await this.takeNonce();
+        try {
+            const hash = await this.broadcast(await this.sign(transaction, nonce));
+            this.nextNonce = nonce + 1;
+            return hash;
+        } catch (error: any) {
+            this.resync();
+            if (REPLACEMENT_UNDERPRICED.test(errorText(error))) {
+                // Not a stale count: retrying would only hit the same pending transaction
+                throw new TransactionError(`A pending transaction of ${this.address} already uses nonce ${nonce}; speed it up or cancel it before sending more`);
+            }
+            if (!retried && NONCE_CONFLICT.test(errorText(error))) {
+                logger.warn(`Nonce ${nonce} of ${this.address} is already used; retrying with the pending count`);
+                return this.sendNext(transaction, true);
+            }
+            throw error;
+        }
+    }
+
+    // Fill in gas and fees the caller left out and sign with the account
+    private async sign(transaction: OutgoingTransaction, nonce: number): Promise<Hex> {
+        const request = await this.walletClient.prepareTransactionRequest({ ...transaction, nonce } as PrepareTransactionRequestParameters);
+        return this.walletClient.signTransaction(request);
+    }
+
+    private async broadcast(serializedTransaction: Hex): Promise<Hex> {
+        try {
+            return await this.walletClient.sendRawTransaction({ serializedTransaction });
+        } catch (error) {
+            if (ALREADY_KNOWN.test(errorText(error))) {
+                // Accepted earlier; its hash is the hash of the signed transaction
+                return keccak256(serializedTransaction);
+            }
+            throw error;
+        }
+    }
+}
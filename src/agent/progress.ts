@@ -0,0 +1,112 @@
+import { Hex, TransactionReceipt } from 'viem';
+import { OperationCancelledError } from '../utils/errors';
+
+/**
+ * Progress reporting and cancellation for operations that sign and broadcast transactions
+ * Stages: building -> (signing -> broadcast -> confirmed) per transaction
+ */
+
+export type TransactionStage = 'building' | 'signing' | 'broadcast' | 'confirmed';
+
+export interface TransactionProgress {
+    stage: TransactionStage;
+    message: string;
+    // Increases with every report; totalSteps is known once the transactions are built
+    step: number;
+    totalSteps?: number;
+    txHash?: Hex;
+}
+
+export interface BroadcastTransaction {
+    hash: Hex;
+    description: string;
+    // Approval or market entry ahead of the transaction that moves the funds
+    setup: boolean;
+}
+
+export interface TransactionOptions {
+    onProgress?: (progress: TransactionProgress) => void | Promise<void>;
+    // Called once for every transaction sent, e.g. to record it in the transaction journal
+    onBroadcast?: (transaction: BroadcastTransaction) => void;
+    // Called with the receipt of every transaction the operation waited for, by the hash it waited
+    // for; the receipt is another transaction's when one with the same nonce was mined instead
+    onReceipt?: (txHash: Hex, receipt: TransactionReceipt) => void;
+    // Stops the operation before the next transaction is signed or while waiting for a receipt.
+    // Transactions that were already broadcast cannot be recalled
+    signal?: AbortSignal;
+}
+
+export class ProgressTracker {
+    private step = 0;
+    private totalSteps?: number;
+    private broadcastHashes: Hex[] = [];
+
+    constructor(private options: TransactionOptions = {}) {}
+
+    // Expect `transactions` signatures, of which `confirmations` are waited for
+    expect(transactions: number, confirmations: number) {
+        this.totalSteps = this.step + transactions * 2 + confirmations;
+    }
+
+    async report(stage: TransactionStage, message: string, txHash?: Hex) {
+        this.step++;
+        if (stage === 'broadcast' && txHash) {
+            this.broadcastHashes.push(txHash);
+        }
+
+        try {
+            await this.options.onProgress?.({
+                stage,
+                message,
+                step: this.step,
+                totalSteps: this.totalSteps,
+                txHash
+            });
+        } catch (error) {
+            // Progress is informational; a client that stopped listening must not fail the transaction
+        }
+    }
+
+    // Report a sent transaction, and pass it to onBroadcast
+    async broadcast(txHash: Hex, description: string, setup: boolean = false) {
+        try {
+            this.options.onBroadcast?.({ hash: txHash, description, setup });
+        } catch (error) {
+            // Like progress, recording must not fail a transaction that is already sent
+        }
+        await this.report('broadcast', `Broadcast ${description}: ${txHash}`, txHash);
+    }
+
+    // Report a mined transaction, and pass its receipt to onReceipt
+    async confirmed(txHash: Hex, receipt: TransactionReceipt, message: string) {
+        try {
+            this.options.onReceipt?.(txHash, receipt);
+        } catch (error) {
+            // Like onBroadcast, reporting must not fail a transaction that is already mined
+        }
+        await this.report('confirmed', message, receipt.transactionHash);
+    }
+
+    throwIfCancelled() {
+        if (this.options.signal?.aborted) {
+            throw new OperationCancelledError(this.broadcastHashes);
+        }
+    }
+
+    // Resolves with the promise, or rejects as soon as the operation is cancelled
+    async untilCancelled<T>(promise: Promise<T>): Promise<T> {
+        const signal = this.options.signal;
+        if (!signal) {
+            return promise;
+        }
+        this.throwIfCancelled();
+
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => reject(new OperationCancelledError(this.broadcastHashes));
+            signal.addEventListener('abort', onAbort, { once: true });
+            promise
+                .then(resolve, reject)
+                .finally(() => signal.removeEventListener('abort', onAbort));
+        });
+    }
+}
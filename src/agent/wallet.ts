@@ -1,8 +1,8 @@
-import { createPublicClient, createWalletClient, http, WalletClient, Address, parseUnits, formatUnits, maxUint256 } from 'viem';
-import { privateKeyToAccount, type Account } from 'viem/accounts';
-import { publicClient, networkInfo, apiConfig, getEnvironmentConfig, networkConfigs, CHAIN_CONTRACTS, TOKEN_CONFIGS, NetworkType, CHAIN_CONFIGS } from '../config';
+import { Address, Hex, parseUnits, formatUnits, maxUint256, encodeFunctionData, Transaction, TransactionReceipt } from 'viem';
+import { NetworkType, CHAIN_CONFIGS, DEFAULT_INTENT_TTL_SECONDS } from '../config';
+import { type ChainContext } from '../context';
 import { formatTokenAmount } from '../utils/formatting';
-import { getAddress } from 'viem'
+import { getAddress, isAddress } from 'viem'
 import {
     COMPTROLLER_ABI
 } from '../contracts/comptroller';
@@ -10,75 +10,88 @@ import {
     CTOKEN_ABI,
 } from '../contracts/ctoken';
 import { ERC20_ABI } from '../contracts/erc20';
+import { WKAIA_ABI } from '../contracts/wkaia';
+import { SWAP_ROUTER_ABI } from '../contracts/router';
 import {
     TransactionError,
     InsufficientBalanceError,
     ValidationError,
+    OperationCancelledError,
+    FeeLimitExceededError,
     handleContractError
 } from '../utils/errors';
 import { validateTransactionParams } from '../utils/validation';
+import { logger } from '../utils/logger';
 import { getNetworkPrices } from '../tools/price-api/price';
+import { type TransactionResult } from '../types';
+import {
+    IntentStore,
+    type ExpectedEffect,
+    type IntentAction,
+    type PreparedTransaction,
+    type TransactionCall,
+    type TransactionIntent
+} from './intents';
+import { ProgressTracker, type TransactionOptions } from './progress';
+import { feesForCall, replacementFees, type FeeOverrides } from './fees';
+
+
+// Fund-moving actions whose network fee can be estimated before they are confirmed
+export type FeeEstimateAction =
+    | { type: 'supply' | 'borrow' | 'redeem'; tokenSymbol: string; amount: string }
+    | { type: 'send_native'; to: Address; amount: string }
+    | { type: 'send_erc20'; tokenSymbol: string; to: Address; amount: string }
+    | { type: 'approve'; tokenSymbol: string; spender: Address; amount?: string }
+    | { type: 'swap'; tokenIn: string; tokenOut: string; amountIn: string; minimumAmountOut: string; deadlineMinutes: number };
+
+// cToken function performing each lending action
+const CTOKEN_FUNCTIONS = {
+    supply: 'mint',
+    borrow: 'borrow',
+    redeem: 'redeemUnderlying'
+} as const;
+
+// Native-token markets take the amount as value instead of an argument
+const NATIVE_CTOKEN_ABI = [
+    { inputs: [], name: 'mint', outputs: [], stateMutability: 'payable', type: 'function' },
+    { inputs: [], name: 'repayBorrow', outputs: [], stateMutability: 'payable', type: 'function' }
+] as const;
+
+// Wrapped native token of each network (all share the WKAIA deposit/withdraw interface)
+const WRAPPED_NATIVE_SYMBOLS: Record<NetworkType, string> = {
+    kaia: 'WKAIA',
+    kub: 'KKUB',
+    etherlink: 'WXTZ'
+};
+
+// A broadcast transaction, with its receipt once it was waited for
+export interface SentTransaction {
+    hash: Hex;
+    receipt?: TransactionReceipt;
+}
 
+// Speed-up resends the same call with higher fees; cancel sends nothing to the wallet itself
+export type ReplacementKind = 'speed_up' | 'cancel';
 
-export class WalletAgent {
-    private account: Account | null = null;
-    private walletClient: WalletClient | null = null;
-    private isReadonly: boolean = true;
-    private currentNetwork: NetworkType;
-    public currentNetworkInfo: any;
-
-    constructor(config?: { privateKey?: string; mode?: 'readonly' | 'transaction' } | string) {
-        // Get network configuration from environment
-        const envConfig = getEnvironmentConfig();
-        this.currentNetwork = envConfig.network;
-        this.currentNetworkInfo = networkConfigs[this.currentNetwork];
-
-        // Handle different constructor signatures
-        let privateKey: string | undefined;
-
-        if (typeof config === 'string') {
-            // Backward compatibility: constructor(privateKey: string)
-            privateKey = config;
-        } else if (config && typeof config === 'object') {
-            // New signature: constructor({ privateKey?, mode? })
-            if (config.mode === 'readonly') {
-                privateKey = undefined;
-            } else {
-                privateKey = config.privateKey;
-            }
-        }
-
-        if (privateKey) {
-            // Initialize wallet for transaction capabilities
-            // Ensure private key is properly formatted as hex string
-            const formattedPrivateKey = privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`;
-
-            // Validate private key format
-            if (!/^0x[0-9a-fA-F]{64}$/.test(formattedPrivateKey)) {
-                throw new Error(`Invalid private key format. Expected 64 hex characters (32 bytes), got: ${formattedPrivateKey.length - 2} characters`);
-            }
+export interface ReplacedTransaction {
+    original: Transaction;
+    replacementHash: Hex;
+    fees: FeeOverrides;
+    // Receipt of the transaction that was mined at the nonce: the replacement, the original or another replacement
+    receipt: TransactionReceipt;
+}
 
-            this.account = privateKeyToAccount(formattedPrivateKey as `0x${string}`);
-            this.walletClient = createWalletClient({
-                account: this.account,
-                chain: this.currentNetworkInfo.chain,
-                transport: http(envConfig.rpcUrl)
-            });
-            this.isReadonly = false;
-        } else {
-            // Read-only mode - no private key
-            this.isReadonly = true;
-        }
-    }
+export class WalletAgent {
+    constructor(public readonly chain: ChainContext, private intents: IntentStore = new IntentStore(DEFAULT_INTENT_TTL_SECONDS * 1000)) {}
 
     // Get contract addresses for current network
     private getContractAddresses() {
-        return CHAIN_CONTRACTS[this.currentNetwork];
+        return this.chain.contracts;
     }
 
     // Get token configurations for current network
     private getTokenConfigs() {
-        return TOKEN_CONFIGS[this.currentNetwork];
+        return this.chain.tokens;
     }
 
     // Create token addresses mapping for current network
@@ -191,11 +204,60 @@ export class WalletAgent {
     // ===== WALLET INFO METHODS =====
 
     getAddress(): Address | null {
-        return this.account?.address || null;
+        return this.chain.account?.address || null;
+    }
+
+    /**
+     * Address a read call is about: an explicit address, the label of a watched address, or by
+     * default the signing account, then the first watched address
+     */
+    resolveAddress(addressOrLabel?: string): Address {
+        if (addressOrLabel) {
+            if (isAddress(addressOrLabel)) {
+                return getAddress(addressOrLabel);
+            }
+            const watched = this.chain.watchAddresses.find(entry => entry.label.toLowerCase() === addressOrLabel.toLowerCase());
+            if (!watched) {
+                const labels = this.chain.watchAddresses.map(entry => entry.label);
+                throw new ValidationError(
+                    `Unknown address or label: ${addressOrLabel}${labels.length > 0 ? `. Watched labels: ${labels.join(', ')}` : ''}`,
+                    'address'
+                );
+            }
+            return getAddress(watched.address);
+        }
+
+        const address = this.getAddress() || this.chain.watchAddresses[0]?.address;
+        if (!address) {
+            throw new ValidationError('No address provided. Configure a private key or WATCH_ADDRESSES, or pass an address', 'address');
+        }
+        return getAddress(address);
+    }
+
+    // Label of a watched address, if any
+    getAddressLabel(address: Address): string | null {
+        return this.chain.watchAddresses.find(entry => entry.address.toLowerCase() === address.toLowerCase())?.label || null;
     }
 
     isTransactionMode(): boolean {
-        return !this.isReadonly;
+        return this.chain.account !== null;
+    }
+
+    getNetwork(): NetworkType {
+        return this.chain.network;
+    }
+
+    // Wrapped token of the network's native currency, used by wrapping and native swap legs
+    getWrappedNativeToken(): { symbol: string; address: Address } {
+        const wrapped = this.resolveToken(WRAPPED_NATIVE_SYMBOLS[this.chain.network]);
+        return { symbol: wrapped.canonicalSymbol, address: wrapped.tokenAddress };
+    }
+
+    // KiloLend markets and the DEX router of the network: approving them is part of supplying,
+    // repaying and swapping, while any other spender can move the approved tokens anywhere
+    isProtocolSpender(spenderAddress: Address): boolean {
+        const spenders = [...Object.values(this.getCTokenAddresses()), this.getContractAddresses().Router];
+        return spenders.some(spender => spender?.toLowerCase() === spenderAddress.toLowerCase());
     }
 
     // ===== WALLET INFO METHODS =====
@@ -203,7 +265,7 @@ export class WalletAgent {
     // Fetch prices using the price API tool for the current network
     private async fetchPrices(): Promise<Record<string, number>> {
         try {
-            const pricesResult = await getNetworkPrices(this.currentNetwork);
+            const pricesResult = await getNetworkPrices(this.chain.api, this.chain.network);
             if (pricesResult.success && pricesResult.prices) {
                 return pricesResult.prices.reduce((acc, price) => ({
                     ...acc,
@@ -212,20 +274,17 @@ export class WalletAgent {
             }
             return {};
         } catch (error) {
-            console.warn('Failed to fetch prices:', error);
+            logger.warn('Failed to fetch prices', { network: this.chain.network, error });
             return {};
         }
     }
 
-    async getWalletInfo() {
-        if (!this.account) {
-            throw new Error('Wallet not initialized. Provide private key for wallet operations.');
-        }
+    // Balances of an address (by default the wallet, or the first watched address without a key)
+    async getWalletInfo(accountAddress?: Address) {
+        const address = accountAddress || this.resolveAddress();
 
         try {
-            const balance = await publicClient.getBalance({
-                address: this.account.address
-            });
+            const balance = await this.chain.publicClient.getBalance({ address });
 
             const prices = await this.fetchPrices();
             const tokens = [];
@@ -246,7 +305,7 @@ export class WalletAgent {
                         tokenBalance = balance;
                         decimals = 18;
                     } else {
-                        tokenBalance = await this.getTokenBalance(tokenConfig.address as Address, this.account.address);
+                        tokenBalance = await this.getTokenBalance(tokenConfig.address as Address, address);
                     }
 
                     const balanceFormatted = Number(tokenBalance) / Math.pow(10, decimals);
@@ -265,7 +324,7 @@ export class WalletAgent {
                     }
                 } catch (error) {
                     // Skip tokens that fail to load but log for debugging
-                    console.warn(`Failed to load balance for ${tokenConfig.symbol}:`, error);
+                    logger.warn(`Failed to load balance for ${tokenConfig.symbol}`, { network: this.chain.network, error });
                 }
             }
 
@@ -276,17 +335,18 @@ export class WalletAgent {
             const totalPortfolioUSD = tokens.reduce((sum: number, token: any) => sum + parseFloat(token.balanceUSD), 0);
 
             return {
-                address: this.account.address,
-                nativeBalance: formatTokenAmount(balance, this.currentNetworkInfo.nativeCurrency),
-                nativeBalanceUSD: (Number(balance) / 1e18 * (prices[this.currentNetworkInfo.nativeCurrency] || 0)).toFixed(2),
+                address,
+                label: this.getAddressLabel(address),
+                nativeBalance: formatTokenAmount(balance, this.chain.networkInfo.nativeCurrency),
+                nativeBalanceUSD: (Number(balance) / 1e18 * (prices[this.chain.networkInfo.nativeCurrency] || 0)).toFixed(2),
                 tokens,
                 totalPortfolioUSD: totalPortfolioUSD.toFixed(2),
                 network: {
-                    chainId: this.currentNetworkInfo.chainId,
-                    name: this.currentNetwork,
-                    rpcUrl: this.currentNetworkInfo.rpcProviderUrl
+                    chainId: this.chain.networkInfo.chainId,
+                    name: this.chain.network,
+                    rpcUrl: this.chain.networkInfo.rpcProviderUrl
                 },
-                mode: this.isReadonly ? 'read-only' : 'transaction'
+                mode: this.isTransactionMode() ? 'transaction' : 'read-only'
             };
         } catch (error: any) {
             throw new Error(`Failed to get wallet info: ${error.message}`);
@@ -298,32 +358,32 @@ export class WalletAgent {
     async getMarketData(cTokenAddress: Address) {
         try {
             const [exchangeRate, supplyRate, borrowRate, totalSupply, totalBorrows, cash] = await Promise.all([
-                publicClient.readContract({
+                this.chain.publicClient.readContract({
                     address: cTokenAddress,
                     abi: CTOKEN_ABI,
                     functionName: 'exchangeRateStored'
                 }),
-                publicClient.readContract({
+                this.chain.publicClient.readContract({
                     address: cTokenAddress,
                     abi: CTOKEN_ABI,
                     functionName: 'supplyRatePerBlock'
                 }),
-                publicClient.readContract({
+                this.chain.publicClient.readContract({
                     address: cTokenAddress,
                     abi: CTOKEN_ABI,
                     functionName: 'borrowRatePerBlock'
                 }),
-                publicClient.readContract({
+                this.chain.publicClient.readContract({
                     address: cTokenAddress,
                     abi: CTOKEN_ABI,
                     functionName: 'totalSupply'
                 }),
-                publicClient.readContract({
+                this.chain.publicClient.readContract({
                     address: cTokenAddress,
                     abi: CTOKEN_ABI,
                     functionName: 'totalBorrows'
                 }),
-                publicClient.readContract({
+                this.chain.publicClient.readContract({
                     address: cTokenAddress,
                     abi: CTOKEN_ABI,
                     functionName: 'getCash'
@@ -365,7 +425,7 @@ export class WalletAgent {
                     const cash = parseFloat(marketData.cash) / decimalDivisor;
 
                     // Blocks per year based on network
-                    const blocksPerYear = BigInt(CHAIN_CONFIGS[this.currentNetwork].blocksPerYear);
+                    const blocksPerYear = BigInt(CHAIN_CONFIGS[this.chain.network].blocksPerYear);
 
                     // APY calculations
                     const scale = BigInt(10) ** BigInt(18);
@@ -399,7 +459,7 @@ export class WalletAgent {
                         isListed: true
                     });
                 } catch (error) {
-                    console.warn(`Failed to load data for ${symbol}:`, error);
+                    logger.warn(`Failed to load data for ${symbol}`, { network: this.chain.network, error });
                 }
             }
 
@@ -412,14 +472,11 @@ export class WalletAgent {
     // ===== ACCOUNT LIQUIDITY METHODS =====
 
     async getAccountLiquidity(accountAddress?: Address) {
-        const address = accountAddress || this.getAddress();
-        if (!address) {
-            throw new Error('No address provided and wallet not initialized');
-        }
+        const address = accountAddress || this.resolveAddress();
 
         try {
             const comptrollerAddress = this.getContractAddresses().Comptroller;
-            const [error, liquidity, shortfall] = await publicClient.readContract({
+            const [error, liquidity, shortfall] = await this.chain.publicClient.readContract({
                 address: comptrollerAddress,
                 abi: COMPTROLLER_ABI,
                 functionName: 'getAccountLiquidity',
@@ -430,7 +487,7 @@ export class WalletAgent {
                 throw new Error(`Comptroller error: ${error}`);
             }
             // Get user's positions
-            const assetsIn = await publicClient.readContract({
+            const assetsIn = await this.chain.publicClient.readContract({
                 address: comptrollerAddress,
                 abi: COMPTROLLER_ABI,
                 functionName: 'getAssetsIn',
@@ -450,7 +507,7 @@ export class WalletAgent {
                         totalBorrowUSD += position.borrowValueUSD;
                     }
                 } catch (error) {
-                    console.error(`Failed to get position for ${cTokenAddress}:`, error);
+                    logger.error(`Failed to get position for ${cTokenAddress}`, { network: this.chain.network, error });
                 }
             }
 
@@ -472,13 +529,13 @@ export class WalletAgent {
     private async getUserPosition(cTokenAddress: Address, userAddress: Address) {
         try {
             const [accountSnapshot, cTokenBalance] = await Promise.all([
-                publicClient.readContract({
+                this.chain.publicClient.readContract({
                     address: cTokenAddress,
                     abi: CTOKEN_ABI,
                     functionName: 'getAccountSnapshot',
                     args: [getAddress(userAddress)]
                 }),
-                publicClient.readContract({
+                this.chain.publicClient.readContract({
                     address: cTokenAddress,
                     abi: CTOKEN_ABI,
                     functionName: 'balanceOf',
@@ -561,7 +618,8 @@ export class WalletAgent {
 
     // ===== ALLOWANCE AND MARKET ENTRY METHODS =====
 
-    async checkAllowance(tokenSymbol: string, spenderAddress: Address): Promise<string> {
+    // Allowance `owner` (by default the wallet, or the first watched address without a key) gave `spenderAddress`
+    async checkAllowance(tokenSymbol: string, spenderAddress: Address, owner?: Address): Promise<string> {
         // Resolve token symbol case-insensitively
         const canonicalSymbol = this.resolveTokenSymbol(tokenSymbol);
 
@@ -573,16 +631,17 @@ export class WalletAgent {
             throw new ValidationError(`Token ${tokenSymbol} not supported`);
         }
 
-        if (canonicalSymbol === this.currentNetworkInfo.nativeCurrency) {
+        if (canonicalSymbol === this.chain.networkInfo.nativeCurrency) {
             return "115792089237316195423570985008687907853269984665640564039457584007913129639935"; // Max uint256 for native token
         }
 
+        const ownerAddress = owner || this.resolveAddress();
         try {
-            const allowance = await publicClient.readContract({
+            const allowance = await this.chain.publicClient.readContract({
                 address: tokenAddress,
                 abi: ERC20_ABI,
                 functionName: 'allowance',
-                args: [this.getAddress()!, spenderAddress]
+                args: [ownerAddress, spenderAddress]
             }) as bigint;
 
             return allowance.toString();
@@ -591,40 +650,11 @@ export class WalletAgent {
         }
     }
 
-    async approveToken(tokenSymbol: string, spenderAddress: Address, amount?: string): Promise<string> {
+    async approveToken(tokenSymbol: string, spenderAddress: Address, amount?: string, options: TransactionOptions = {}): Promise<string> {
         this.requireTransactionMode();
 
-        // Resolve token symbol case-insensitively
-        const canonicalSymbol = this.resolveTokenSymbol(tokenSymbol);
-        const tokenAddresses = this.getTokenAddresses();
-        const tokenAddress = tokenAddresses[canonicalSymbol];
-
-        if (!tokenAddress) {
-            throw new ValidationError(`Token ${tokenSymbol} not supported`);
-        }
-
-        if (canonicalSymbol === this.currentNetworkInfo.nativeCurrency) {
-            throw new ValidationError(`${this.currentNetworkInfo.nativeCurrency} is native token and does not require approval`);
-        }
-
-        try {
-            const decimals = this.getTokenDecimals(canonicalSymbol);
-            const amountWei = amount ? parseUnits(amount, decimals) :
-                BigInt('115792089237316195423570985008687907853269984665640564039457584007913129639935'); // Max uint256
-
-            const txHash = await this.walletClient!.writeContract({
-                address: tokenAddress,
-                abi: ERC20_ABI,
-                functionName: 'approve',
-                args: [spenderAddress, amountWei],
-                account: this.account!,
-                chain: this.currentNetworkInfo.chain
-            });
-
-            return txHash;
-        } catch (error) {
-            throw handleContractError(error);
-        }
+        const sent = await this.sendOperation(`approval of ${tokenSymbol} for ${spenderAddress}`, () => this.buildApproveCalls(tokenSymbol, spenderAddress, amount), options);
+        return sent[sent.length - 1].hash;
     }
 
 
@@ -636,7 +666,7 @@ export class WalletAgent {
 
         try {
             const comptrollerAddress = this.getContractAddresses().Comptroller;
-            const assetsIn = await publicClient.readContract({
+            const assetsIn = await this.chain.publicClient.readContract({
                 address: comptrollerAddress,
                 abi: COMPTROLLER_ABI,
                 functionName: 'getAssetsIn',
@@ -649,335 +679,800 @@ export class WalletAgent {
         }
     }
 
-    async enterMarkets(cTokenAddresses: Address[]): Promise<string> {
+    async enterMarkets(cTokenAddresses: Address[], options: TransactionOptions = {}): Promise<string> {
         this.requireTransactionMode();
 
-        try {
-            const comptrollerAddress = this.getContractAddresses().Comptroller;
-            const txHash = await this.walletClient!.writeContract({
-                address: comptrollerAddress,
-                abi: COMPTROLLER_ABI,
-                functionName: 'enterMarkets',
-                args: [cTokenAddresses],
-                account: this.account!,
-                chain: this.currentNetworkInfo.chain
-            });
-
-            return txHash;
-        } catch (error) {
-            throw handleContractError(error);
-        }
+        const sent = await this.sendOperation('market entry', () => this.buildEnterMarketsCalls(cTokenAddresses), options);
+        return sent[sent.length - 1].hash;
     }
 
     // ===== TRANSACTION METHODS =====
+    // Each method broadcasts the calls of its builder and returns the hash of the final transaction;
+    // options carry progress reporting and cancellation
 
-    async sendNativeToken(to: Address, amount: string): Promise<string> {
+    async sendNativeToken(to: Address, amount: string, options: TransactionOptions = {}): Promise<string> {
         this.requireTransactionMode();
 
-        const validation = validateTransactionParams({ to, amount });
-        if (!validation.isValid) {
-            throw new ValidationError(validation.errors.join(', '));
-        }
+        const sent = await this.sendOperation(`transfer of ${amount} ${this.chain.networkInfo.nativeCurrency} to ${to}`, () => this.buildSendNativeCalls(to, amount), options);
+        return sent[sent.length - 1].hash;
+    }
 
-        try {
-            const balance = await publicClient.getBalance({
-                address: this.getAddress()!
-            });
+    async sendERC20Token(tokenSymbol: string, to: Address, amount: string, options: TransactionOptions = {}): Promise<string> {
+        this.requireTransactionMode();
 
-            const amountWei = parseUnits(amount, 18);
+        const sent = await this.sendOperation(`transfer of ${amount} ${tokenSymbol} to ${to}`, () => this.buildSendERC20Calls(tokenSymbol, to, amount), options);
+        return sent[sent.length - 1].hash;
+    }
 
-            if (balance < amountWei) {
-                throw new InsufficientBalanceError(this.currentNetworkInfo.nativeCurrency, amount, balance.toString());
-            }
+    async supplyToMarket(tokenSymbol: string, amount: string, options: TransactionOptions = {}): Promise<string> {
+        this.requireTransactionMode();
 
-            const txHash = await this.walletClient!.sendTransaction({
-                to,
-                value: amountWei,
-                account: this.account!,
-                chain: this.currentNetworkInfo.chain
-            });
+        const sent = await this.sendOperation(`supply of ${amount} ${tokenSymbol}`, () => this.buildSupplyCalls(tokenSymbol, amount), options);
+        return sent[sent.length - 1].hash;
+    }
 
-            return txHash;
-        } catch (error) {
-            throw handleContractError(error);
-        }
+    async borrowFromMarket(tokenSymbol: string, amount: string, options: TransactionOptions = {}): Promise<string> {
+        this.requireTransactionMode();
+
+        const sent = await this.sendOperation(`borrow of ${amount} ${tokenSymbol}`, () => this.buildBorrowCalls(tokenSymbol, amount), options);
+        return sent[sent.length - 1].hash;
     }
 
-    async sendERC20Token(tokenSymbol: string, to: Address, amount: string): Promise<string> {
+    async repayBorrow(tokenSymbol: string, amount?: string, options: TransactionOptions = {}): Promise<string> {
         this.requireTransactionMode();
 
-        const validation = validateTransactionParams({ to, amount, symbol: tokenSymbol });
-        if (!validation.isValid) {
-            throw new ValidationError(validation.errors.join(', '));
+        const sent = await this.sendOperation(`repayment of ${amount || 'the full'} ${tokenSymbol} borrow`, () => this.buildRepayCalls(tokenSymbol, amount), options);
+        return sent[sent.length - 1].hash;
+    }
+
+    async redeemTokens(tokenSymbol: string, cTokenAmount: string, options: TransactionOptions = {}): Promise<string> {
+        this.requireTransactionMode();
+
+        const sent = await this.sendOperation(`redemption of ${cTokenAmount} c${tokenSymbol}`, () => this.buildRedeemTokensCalls(tokenSymbol, cTokenAmount), options);
+        return sent[sent.length - 1].hash;
+    }
+
+    async redeemUnderlying(tokenSymbol: string, underlyingAmount: string, options: TransactionOptions = {}): Promise<string> {
+        this.requireTransactionMode();
+
+        const sent = await this.sendOperation(`withdrawal of ${underlyingAmount} ${tokenSymbol}`, () => this.buildRedeemUnderlyingCalls(tokenSymbol, underlyingAmount), options);
+        return sent[sent.length - 1].hash;
+    }
+
+    // Swaps and wrapping wait for their last transaction and return every transaction with its receipt
+
+    async swapTokens(tokenIn: string, tokenOut: string, amountIn: string, minimumAmountOut: string, deadlineMinutes: number = 20, options: TransactionOptions = {}): Promise<SentTransaction[]> {
+        this.requireTransactionMode();
+
+        return this.sendOperation(`swap of ${amountIn} ${tokenIn} for ${tokenOut}`, () => this.buildSwapCalls(tokenIn, tokenOut, amountIn, minimumAmountOut, deadlineMinutes), options, true);
+    }
+
+    async wrapNativeToken(amount: string, options: TransactionOptions = {}): Promise<SentTransaction[]> {
+        this.requireTransactionMode();
+
+        return this.sendOperation(`wrap of ${amount} ${this.chain.networkInfo.nativeCurrency}`, () => this.buildWrapCalls(amount, false), options, true);
+    }
+
+    async unwrapNativeToken(amount: string, options: TransactionOptions = {}): Promise<SentTransaction[]> {
+        this.requireTransactionMode();
+
+        return this.sendOperation(`unwrap of ${amount} ${WRAPPED_NATIVE_SYMBOLS[this.chain.network]}`, () => this.buildWrapCalls(amount, true), options, true);
+    }
+
+    // ===== TRANSACTION BUILDERS =====
+    // Write paths are built as plain calls first, so direct methods and prepared intents
+    // broadcast exactly the same transactions
+
+    private resolveMarket(tokenSymbol: string) {
+        // Resolve token symbol case-insensitively for cToken lookup
+        const canonicalSymbol = this.getCanonicalSymbolForCToken(tokenSymbol);
+        const cTokenAddress = this.getCTokenAddresses()[canonicalSymbol];
+        if (!cTokenAddress) {
+            throw new ValidationError(`Market ${tokenSymbol} not available`);
         }
 
+        return {
+            canonicalSymbol,
+            cTokenAddress,
+            decimals: this.getTokenDecimals(canonicalSymbol),
+            isNative: canonicalSymbol === this.chain.networkInfo.nativeCurrency
+        };
+    }
+
+    private resolveToken(tokenSymbol: string) {
         const canonicalSymbol = this.resolveTokenSymbol(tokenSymbol);
-        const tokenAddresses = this.getTokenAddresses();
-        const tokenAddress = tokenAddresses[canonicalSymbol];
+        const tokenAddress = this.getTokenAddresses()[canonicalSymbol];
         if (!tokenAddress) {
             throw new ValidationError(`Token ${tokenSymbol} not supported`);
         }
 
-        try {
-            const decimals = this.getTokenDecimals(canonicalSymbol);
+        return {
+            canonicalSymbol,
+            tokenAddress,
+            decimals: this.getTokenDecimals(canonicalSymbol),
+            isNative: canonicalSymbol === this.chain.networkInfo.nativeCurrency
+        };
+    }
 
-            const txHash = await this.walletClient!.writeContract({
-                address: tokenAddress,
-                abi: ERC20_ABI,
-                functionName: 'transfer',
-                args: [to, parseUnits(amount, decimals)],
-                account: this.account!,
-                chain: this.currentNetworkInfo.chain
-            });
+    private buildApproveCall(tokenSymbol: string, tokenAddress: Address, spenderAddress: Address, amountWei: bigint): TransactionCall {
+        return {
+            description: `Approve ${spenderAddress} to spend ${tokenSymbol}`,
+            to: tokenAddress,
+            data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'approve', args: [spenderAddress, amountWei] })
+        };
+    }
 
-            return txHash;
-        } catch (error) {
-            throw handleContractError(error);
+    // Unlimited approval of the spender, or nothing when the current allowance already covers the amount
+    private async buildAllowanceCalls(tokenSymbol: string, spenderAddress: Address, amountWei: bigint): Promise<TransactionCall[]> {
+        const token = this.resolveToken(tokenSymbol);
+        const currentAllowance = await this.checkAllowance(token.canonicalSymbol, spenderAddress);
+
+        return BigInt(currentAllowance) < amountWei
+            ? [{ ...this.buildApproveCall(token.canonicalSymbol, token.tokenAddress, spenderAddress, maxUint256), setup: true }]
+            : [];
+    }
+
+    private buildApproveCalls(tokenSymbol: string, spenderAddress: Address, amount?: string): TransactionCall[] {
+        const token = this.resolveToken(tokenSymbol);
+        if (token.isNative) {
+            throw new ValidationError(`${this.chain.networkInfo.nativeCurrency} is native token and does not require approval`);
         }
+
+        const amountWei = amount ? parseUnits(amount, token.decimals) : maxUint256;
+        return [this.buildApproveCall(token.canonicalSymbol, token.tokenAddress, spenderAddress, amountWei)];
     }
 
-    async supplyToMarket(tokenSymbol: string, amount: string): Promise<string> {
-        this.requireTransactionMode();
+    private buildEnterMarketsCalls(cTokenAddresses: Address[]): TransactionCall[] {
+        return [{
+            description: `Enter ${cTokenAddresses.length === 1 ? 'market' : 'markets'} ${cTokenAddresses.join(', ')}`,
+            to: this.getContractAddresses().Comptroller as Address,
+            data: encodeFunctionData({ abi: COMPTROLLER_ABI, functionName: 'enterMarkets', args: [cTokenAddresses] }),
+            setup: true
+        }];
+    }
 
-        // Resolve token symbol case-insensitively for cToken lookup
-        const canonicalSymbol = this.getCanonicalSymbolForCToken(tokenSymbol);
-        const cTokenAddresses = this.getCTokenAddresses();
-        const cTokenAddress = cTokenAddresses[canonicalSymbol];
-        if (!cTokenAddress) {
-            throw new ValidationError(`Market ${tokenSymbol} not available`);
+    private async buildSendNativeCalls(to: Address, amount: string): Promise<TransactionCall[]> {
+        const validation = validateTransactionParams({ to, amount });
+        if (!validation.isValid) {
+            throw new ValidationError(validation.errors.join(', '));
         }
 
-        try {
-            // Check if user is in the market, if not, enter market
-            const isInMarket = await this.checkMarketMembership(cTokenAddress);
-            if (!isInMarket) {
-                await this.enterMarkets([cTokenAddress]);
-            }
+        const balance = await this.chain.publicClient.getBalance({
+            address: this.getAddress()!
+        });
 
-            const decimals = this.getTokenDecimals(canonicalSymbol);
-            const amountWei = parseUnits(amount, decimals);
+        const amountWei = parseUnits(amount, 18);
 
-            // For ERC20 tokens, check and handle allowance
-            if (canonicalSymbol !== this.currentNetworkInfo.nativeCurrency) {
-                const currentAllowance = await this.checkAllowance(canonicalSymbol, cTokenAddress);
+        if (balance < amountWei) {
+            throw new InsufficientBalanceError(this.chain.networkInfo.nativeCurrency, amount, formatUnits(balance, 18));
+        }
 
-                if (BigInt(currentAllowance) < amountWei) {
-                    await this.approveToken(canonicalSymbol, cTokenAddress);
-                }
-            }
+        return [{
+            description: `Send ${amount} ${this.chain.networkInfo.nativeCurrency} to ${to}`,
+            to,
+            value: amountWei
+        }];
+    }
 
-            // Handle native token differently - send value with transaction, no parameters
-            if (canonicalSymbol === this.currentNetworkInfo.nativeCurrency) {
-                const txHash = await this.walletClient!.writeContract({
-                    address: cTokenAddress,
-                    abi: [{
-                        "inputs": [],
-                        "name": "mint",
-                        "outputs": [{ "internalType": "uint256", "name": "", "type": "uint256" }],
-                        "stateMutability": "payable",
-                        "type": "function"
-                    }],
-                    functionName: 'mint',
-                    args: [], // No parameters for native token
-                    account: this.account!,
-                    chain: this.currentNetworkInfo.chain,
-                    value: amountWei // Send native token as transaction value
-                });
-                return txHash;
-            } else {
-                // For ERC20 tokens, call mint with amount parameter
-                const txHash = await this.walletClient!.writeContract({
-                    address: cTokenAddress,
-                    abi: CTOKEN_ABI,
-                    functionName: 'mint',
-                    args: [amountWei],
-                    account: this.account!,
-                    chain: this.currentNetworkInfo.chain
-                });
-                return txHash;
-            }
-        } catch (error) {
-            throw handleContractError(error);
+    private buildSendERC20Calls(tokenSymbol: string, to: Address, amount: string): TransactionCall[] {
+        const validation = validateTransactionParams({ to, amount, symbol: tokenSymbol });
+        if (!validation.isValid) {
+            throw new ValidationError(validation.errors.join(', '));
         }
+
+        const token = this.resolveToken(tokenSymbol);
+
+        return [{
+            description: `Send ${amount} ${token.canonicalSymbol} to ${to}`,
+            to: token.tokenAddress,
+            data: encodeFunctionData({
+                abi: ERC20_ABI,
+                functionName: 'transfer',
+                args: [to, parseUnits(amount, token.decimals)]
+            })
+        }];
     }
 
-    async borrowFromMarket(tokenSymbol: string, amount: string): Promise<string> {
-        this.requireTransactionMode();
+    private async buildSupplyCalls(tokenSymbol: string, amount: string): Promise<TransactionCall[]> {
+        const market = this.resolveMarket(tokenSymbol);
+        const amountWei = parseUnits(amount, market.decimals);
+        const calls: TransactionCall[] = [];
 
-        // Resolve token symbol case-insensitively
-        const canonicalSymbol = this.getCanonicalSymbolForCToken(tokenSymbol);
-        const cTokenAddresses = this.getCTokenAddresses();
-        const cTokenAddress = cTokenAddresses[canonicalSymbol];
+        // Enter the market first so the supply counts as collateral
+        if (!(await this.checkMarketMembership(market.cTokenAddress))) {
+            calls.push(...this.buildEnterMarketsCalls([market.cTokenAddress]));
+        }
 
-        if (!cTokenAddress) {
-            throw new ValidationError(`Market ${tokenSymbol} not available`);
+        // Native token supplies send the amount as value to the payable mint()
+        if (market.isNative) {
+            calls.push({
+                description: `Supply ${amount} ${market.canonicalSymbol}`,
+                to: market.cTokenAddress,
+                data: encodeFunctionData({ abi: NATIVE_CTOKEN_ABI, functionName: 'mint' }),
+                value: amountWei
+            });
+            return calls;
         }
 
-        try {
-            const decimals = this.getTokenDecimals(canonicalSymbol);
-            const amountWei = parseUnits(amount, decimals);
+        calls.push(...await this.buildAllowanceCalls(market.canonicalSymbol, market.cTokenAddress, amountWei));
+        calls.push({
+            description: `Supply ${amount} ${market.canonicalSymbol}`,
+            to: market.cTokenAddress,
+            data: encodeFunctionData({ abi: CTOKEN_ABI, functionName: 'mint', args: [amountWei] })
+        });
+        return calls;
+    }
+
+    private buildBorrowCalls(tokenSymbol: string, amount: string): TransactionCall[] {
+        const market = this.resolveMarket(tokenSymbol);
 
-            const txHash = await this.walletClient!.writeContract({
-                address: cTokenAddress,
+        return [{
+            description: `Borrow ${amount} ${market.canonicalSymbol}`,
+            to: market.cTokenAddress,
+            data: encodeFunctionData({
                 abi: CTOKEN_ABI,
                 functionName: 'borrow',
-                args: [amountWei],
-                account: this.account!,
-                chain: this.currentNetworkInfo.chain
-            });
+                args: [parseUnits(amount, market.decimals)]
+            })
+        }];
+    }
 
-            return txHash;
-        } catch (error) {
-            throw handleContractError(error);
+    // Without an amount the whole borrow is repaid (max uint256), which only ERC-20 markets support
+    private async buildRepayCalls(tokenSymbol: string, amount?: string): Promise<TransactionCall[]> {
+        const market = this.resolveMarket(tokenSymbol);
+        const description = `Repay ${amount || 'full'} ${market.canonicalSymbol} borrow`;
+
+        // Native token repayments send the amount as value to the payable repayBorrow()
+        if (market.isNative) {
+            if (!amount) {
+                throw new ValidationError(`An amount is required to repay ${market.canonicalSymbol}`, 'amount');
+            }
+            return [{
+                description,
+                to: market.cTokenAddress,
+                data: encodeFunctionData({ abi: NATIVE_CTOKEN_ABI, functionName: 'repayBorrow' }),
+                value: parseUnits(amount, market.decimals)
+            }];
         }
+
+        const amountWei = amount ? parseUnits(amount, market.decimals) : maxUint256;
+        return [
+            ...await this.buildAllowanceCalls(market.canonicalSymbol, market.cTokenAddress, amountWei),
+            {
+                description,
+                to: market.cTokenAddress,
+                data: encodeFunctionData({ abi: CTOKEN_ABI, functionName: 'repayBorrow', args: [amountWei] })
+            }
+        ];
     }
 
-    async repayBorrow(tokenSymbol: string, amount?: string): Promise<string> {
-        this.requireTransactionMode();
+    private async buildRedeemTokensCalls(tokenSymbol: string, cTokenAmount: string): Promise<TransactionCall[]> {
+        const market = this.resolveMarket(tokenSymbol);
 
-        // Resolve token symbol case-insensitively
-        const canonicalSymbol = this.getCanonicalSymbolForCToken(tokenSymbol);
-        const cTokenAddresses = this.getCTokenAddresses();
-        const cTokenAddress = cTokenAddresses[canonicalSymbol];
+        // Check if user has sufficient cToken balance
+        const cTokenBalance = await this.chain.publicClient.readContract({
+            address: market.cTokenAddress,
+            abi: CTOKEN_ABI,
+            functionName: 'balanceOf',
+            args: [this.getAddress()!]
+        }) as bigint;
 
-        if (!cTokenAddress) {
-            throw new ValidationError(`Market ${tokenSymbol} not available`);
+        const cTokenAmountWei = parseUnits(cTokenAmount, 8); // cTokens use 8 decimals
+
+        if (cTokenBalance < cTokenAmountWei) {
+            throw new InsufficientBalanceError(`c${market.canonicalSymbol}`, cTokenAmount, formatUnits(cTokenBalance, 8));
         }
 
+        return [{
+            description: `Redeem ${cTokenAmount} c${market.canonicalSymbol}`,
+            to: market.cTokenAddress,
+            data: encodeFunctionData({ abi: CTOKEN_ABI, functionName: 'redeem', args: [cTokenAmountWei] })
+        }];
+    }
+
+    private buildRedeemUnderlyingCalls(tokenSymbol: string, underlyingAmount: string): TransactionCall[] {
+        const market = this.resolveMarket(tokenSymbol);
+
+        return [{
+            description: `Withdraw ${underlyingAmount} ${market.canonicalSymbol}`,
+            to: market.cTokenAddress,
+            data: encodeFunctionData({
+                abi: CTOKEN_ABI,
+                functionName: 'redeemUnderlying',
+                args: [parseUnits(underlyingAmount, market.decimals)]
+            })
+        }];
+    }
+
+    // Single-pool swap through the DEX router; native legs go through the wrapped token pool
+    private async buildSwapCalls(tokenIn: string, tokenOut: string, amountIn: string, minimumAmountOut: string, deadlineMinutes: number): Promise<TransactionCall[]> {
+        const routerAddress: Address | undefined = this.getContractAddresses().Router;
+        if (!routerAddress) {
+            throw new ValidationError(`DEX swaps are not supported on ${this.chain.network}`);
+        }
+
+        const input = this.resolveToken(tokenIn);
+        const output = this.resolveToken(tokenOut);
+        if (input.canonicalSymbol === output.canonicalSymbol) {
+            throw new ValidationError('tokenIn and tokenOut cannot be the same', 'token_out');
+        }
+
+        const wrappedAddress = this.resolveToken(WRAPPED_NATIVE_SYMBOLS[this.chain.network]).tokenAddress;
+        const amountInWei = parseUnits(amountIn, input.decimals);
+
+        const balance = input.isNative
+            ? await this.chain.publicClient.getBalance({ address: this.getAddress()! })
+            : await this.getTokenBalance(input.tokenAddress, this.getAddress()!);
+        if (balance < amountInWei) {
+            throw new InsufficientBalanceError(input.canonicalSymbol, amountIn, formatUnits(balance, input.decimals));
+        }
+
+        const calls = input.isNative ? [] : await this.buildAllowanceCalls(input.canonicalSymbol, routerAddress, amountInWei);
+        calls.push({
+            description: `Swap ${amountIn} ${input.canonicalSymbol} for at least ${minimumAmountOut} ${output.canonicalSymbol}`,
+            to: routerAddress,
+            data: encodeFunctionData({
+                abi: SWAP_ROUTER_ABI,
+                functionName: 'exactInputSingle',
+                args: [{
+                    tokenIn: input.isNative ? wrappedAddress : input.tokenAddress,
+                    tokenOut: output.isNative ? wrappedAddress : output.tokenAddress,
+                    fee: 3000, // 0.3% fee tier
+                    recipient: this.getAddress()!,
+                    deadline: BigInt(Math.floor(Date.now() / 1000) + deadlineMinutes * 60),
+                    amountIn: amountInWei,
+                    amountOutMinimum: parseUnits(minimumAmountOut, output.decimals),
+                    sqrtPriceLimitX96: 0n
+                }]
+            }),
+            value: input.isNative ? amountInWei : undefined
+        });
+        return calls;
+    }
+
+    private async buildWrapCalls(amount: string, unwrap: boolean): Promise<TransactionCall[]> {
+        const wrapped = this.resolveToken(WRAPPED_NATIVE_SYMBOLS[this.chain.network]);
+        const nativeCurrency = this.chain.networkInfo.nativeCurrency;
+        const amountWei = parseUnits(amount, 18);
+
+        const balance = unwrap
+            ? await this.getTokenBalance(wrapped.tokenAddress, this.getAddress()!)
+            : await this.chain.publicClient.getBalance({ address: this.getAddress()! });
+        if (balance < amountWei) {
+            throw new InsufficientBalanceError(unwrap ? wrapped.canonicalSymbol : nativeCurrency, amount, formatUnits(balance, 18));
+        }
+
+        return [unwrap
+            ? {
+                description: `Unwrap ${amount} ${wrapped.canonicalSymbol} to ${nativeCurrency}`,
+                to: wrapped.tokenAddress,
+                data: encodeFunctionData({ abi: WKAIA_ABI, functionName: 'withdraw', args: [amountWei] })
+            }
+            : {
+                description: `Wrap ${amount} ${nativeCurrency} to ${wrapped.canonicalSymbol}`,
+                to: wrapped.tokenAddress,
+                data: encodeFunctionData({ abi: WKAIA_ABI, functionName: 'deposit' }),
+                value: amountWei
+            }];
+    }
+
+    private async broadcast(call: TransactionCall): Promise<Hex> {
+        let txHash: Hex;
         try {
-            const decimals = this.getTokenDecimals(canonicalSymbol);
-            const amountWei = amount ? parseUnits(amount, decimals) :
-                BigInt('115792089237316195423570985008687907853269984665640564039457584007913129639935');
+            const fees = await feesForCall(this.chain, call);
+            txHash = await this.chain.nonces!.send({ to: call.to, data: call.data, value: call.value, ...fees });
+        } catch (error) {
+            logger.error(`Failed to broadcast: ${call.description}`, { network: this.chain.network, error });
+            throw error instanceof FeeLimitExceededError ? error : handleContractError(error);
+        }
+
+        logger.info(`Broadcast: ${call.description}`, { network: this.chain.network, txHash });
+        return txHash;
+    }
+
+    // Build an operation's calls and broadcast them, reporting progress from the building stage on
+    private async sendOperation(label: string, build: () => TransactionCall[] | Promise<TransactionCall[]>, options: TransactionOptions, waitForLast: boolean = false): Promise<SentTransaction[]> {
+        const tracker = new ProgressTracker(options);
+        tracker.throwIfCancelled();
+        await tracker.report('building', `Building ${label}`);
 
-            // For ERC20 tokens, check and handle allowance
-            if (tokenSymbol !== this.currentNetworkInfo.nativeCurrency) {
-                const currentAllowance = await this.checkAllowance(tokenSymbol, cTokenAddress);
+        return this.broadcastSequence(await build(), tracker, waitForLast);
+    }
 
-                if (BigInt(currentAllowance) < amountWei) {
-                    await this.approveToken(tokenSymbol, cTokenAddress);
+    // Later calls rely on state set by earlier ones (market entry, allowance), so every call
+    // but the last is mined before the next one is sent; the last one only when waitForLast is set
+    private async broadcastSequence(calls: TransactionCall[], tracker: ProgressTracker, waitForLast: boolean = false): Promise<SentTransaction[]> {
+        const sent: SentTransaction[] = [];
+        tracker.expect(calls.length, waitForLast ? calls.length : calls.length - 1);
+
+        for (const [index, call] of calls.entries()) {
+            try {
+                tracker.throwIfCancelled();
+                await tracker.report('signing', `Signing transaction ${index + 1} of ${calls.length}: ${call.description}`);
+                const hash = await this.broadcast(call);
+                sent.push({ hash });
+                await tracker.broadcast(hash, call.description, call.setup);
+
+                if (!waitForLast && index === calls.length - 1) {
+                    break;
                 }
-            }
+                const receipt = await tracker.untilCancelled<TransactionReceipt>(this.chain.publicClient.waitForTransactionReceipt({ hash }));
+                sent[index].receipt = receipt;
+                const outcome = receipt.status === 'success' ? 'Confirmed' : 'Reverted';
+                await tracker.confirmed(hash, receipt, `${outcome} in block ${receipt.blockNumber}: ${call.description}`);
 
-            // Handle native token differently - send value with transaction, no parameters
-            if (tokenSymbol === this.currentNetworkInfo.nativeCurrency) {
-                const txHash = await this.walletClient!.writeContract({
-                    address: cTokenAddress,
-                    abi: [{
-                        "inputs": [],
-                        "name": "repayBorrow",
-                        "outputs": [],
-                        "stateMutability": "payable",
-                        "type": "function"
-                    }],
-                    functionName: 'repayBorrow',
-                    args: [], // No parameters for native token
-                    account: this.account!,
-                    chain: this.currentNetworkInfo.chain,
-                    value: amountWei // Send native token as transaction value
-                });
-                return txHash;
-            } else {
-                // For ERC20 tokens, call repayBorrow with amount parameter
-                const txHash = await this.walletClient!.writeContract({
-                    address: cTokenAddress,
-                    abi: CTOKEN_ABI,
-                    functionName: 'repayBorrow',
-                    args: [amountWei],
-                    account: this.account!,
-                    chain: this.currentNetworkInfo.chain
-                });
-                return txHash;
+                if (receipt.status !== 'success' && index < calls.length - 1) {
+                    throw new TransactionError(`${call.description} reverted`, hash);
+                }
+            } catch (error: any) {
+                if (sent.length === 0 || error instanceof OperationCancelledError) {
+                    throw error;
+                }
+                throw new TransactionError(`${error.message}. Already broadcast: ${sent.map(tx => tx.hash).join(', ')}`, error.txHash);
             }
-        } catch (error) {
-            throw handleContractError(error);
         }
+
+        return sent;
     }
 
-    async redeemTokens(tokenSymbol: string, cTokenAmount: string): Promise<string> {
+    // ===== PREPARED TRANSACTIONS =====
+    // prepare* methods build and simulate a write without broadcasting it; executeIntent
+    // later broadcasts exactly the prepared transactions, once, before the intent expires
+
+    async prepareSupply(tokenSymbol: string, amount: string): Promise<TransactionIntent> {
         this.requireTransactionMode();
 
-        // Resolve token symbol case-insensitively
-        const canonicalSymbol = this.getCanonicalSymbolForCToken(tokenSymbol);
-        const cTokenAddresses = this.getCTokenAddresses();
-        const cTokenAddress = cTokenAddresses[canonicalSymbol];
+        const market = this.resolveMarket(tokenSymbol);
+        const calls = await this.buildSupplyCalls(tokenSymbol, amount);
+        const effects: ExpectedEffect[] = [
+            { asset: market.canonicalSymbol, position: 'wallet', change: `-${amount}` },
+            { asset: market.canonicalSymbol, position: 'supplied', change: `+${amount}`, note: 'Minted as cTokens at the current exchange rate' }
+        ];
+        if (calls.some(call => call.to === this.getContractAddresses().Comptroller)) {
+            effects.push({ asset: market.canonicalSymbol, position: 'collateral', change: 'enabled' });
+        }
 
-        if (!cTokenAddress) {
-            throw new ValidationError(`Market ${tokenSymbol} not available`);
+        return this.createIntent('supply', `Supply ${amount} ${market.canonicalSymbol} to KiloLend`, calls, effects);
+    }
+
+    async prepareBorrow(tokenSymbol: string, amount: string): Promise<TransactionIntent> {
+        this.requireTransactionMode();
+
+        const market = this.resolveMarket(tokenSymbol);
+        return this.createIntent('borrow', `Borrow ${amount} ${market.canonicalSymbol} from KiloLend`, this.buildBorrowCalls(tokenSymbol, amount), [
+            { asset: market.canonicalSymbol, position: 'wallet', change: `+${amount}` },
+            { asset: market.canonicalSymbol, position: 'borrowed', change: `+${amount}` }
+        ]);
+    }
+
+    async prepareRepay(tokenSymbol: string, amount?: string): Promise<TransactionIntent> {
+        this.requireTransactionMode();
+
+        const market = this.resolveMarket(tokenSymbol);
+        const change = amount ? `-${amount}` : '-all';
+        return this.createIntent('repay', `Repay ${amount || 'the full'} ${market.canonicalSymbol} borrow on KiloLend`, await this.buildRepayCalls(tokenSymbol, amount), [
+            { asset: market.canonicalSymbol, position: 'wallet', change },
+            { asset: market.canonicalSymbol, position: 'borrowed', change }
+        ]);
+    }
+
+    async prepareRedeem(tokenSymbol: string, underlyingAmount: string): Promise<TransactionIntent> {
+        this.requireTransactionMode();
+
+        const market = this.resolveMarket(tokenSymbol);
+        return this.createIntent('redeem', `Withdraw ${underlyingAmount} ${market.canonicalSymbol} from KiloLend`, this.buildRedeemUnderlyingCalls(tokenSymbol, underlyingAmount), [
+            { asset: market.canonicalSymbol, position: 'supplied', change: `-${underlyingAmount}` },
+            { asset: market.canonicalSymbol, position: 'wallet', change: `+${underlyingAmount}` }
+        ]);
+    }
+
+    async prepareApprove(tokenSymbol: string, spenderAddress: Address, amount?: string): Promise<TransactionIntent> {
+        this.requireTransactionMode();
+
+        const token = this.resolveToken(tokenSymbol);
+        return this.createIntent('approve', `Approve ${spenderAddress} to spend ${amount || 'unlimited'} ${token.canonicalSymbol}`, this.buildApproveCalls(tokenSymbol, spenderAddress, amount), [
+            { asset: token.canonicalSymbol, position: 'allowance', change: amount || 'max', note: `Allowance of ${spenderAddress} is set to this amount` }
+        ]);
+    }
+
+    async prepareEnterMarkets(tokenSymbols: string[]): Promise<TransactionIntent> {
+        this.requireTransactionMode();
+
+        const markets = tokenSymbols.map(tokenSymbol => this.resolveMarket(tokenSymbol));
+        const symbols = markets.map(market => market.canonicalSymbol);
+        return this.createIntent('enter_market', `Enter KiloLend markets: ${symbols.join(', ')}`, this.buildEnterMarketsCalls(markets.map(market => market.cTokenAddress)),
+            symbols.map((symbol): ExpectedEffect => ({ asset: symbol, position: 'collateral', change: 'enabled' })));
+    }
+
+    async prepareSwap(tokenIn: string, tokenOut: string, amountIn: string, minimumAmountOut: string, deadlineMinutes: number = 20): Promise<TransactionIntent> {
+        this.requireTransactionMode();
+
+        const input = this.resolveToken(tokenIn);
+        const output = this.resolveToken(tokenOut);
+        const calls = await this.buildSwapCalls(tokenIn, tokenOut, amountIn, minimumAmountOut, deadlineMinutes);
+        const outputAsset = output.isNative ? WRAPPED_NATIVE_SYMBOLS[this.chain.network] : output.canonicalSymbol;
+
+        return this.createIntent('swap', `Swap ${amountIn} ${input.canonicalSymbol} for at least ${minimumAmountOut} ${output.canonicalSymbol}`, calls, [
+            { asset: input.canonicalSymbol, position: 'wallet', change: `-${amountIn}` },
+            { asset: outputAsset, position: 'wallet', change: `+${minimumAmountOut}`, note: `Minimum output; the swap reverts if it is not met within ${deadlineMinutes} minutes` }
+        ]);
+    }
+
+    async prepareWrap(amount: string): Promise<TransactionIntent> {
+        this.requireTransactionMode();
+
+        const nativeCurrency = this.chain.networkInfo.nativeCurrency;
+        const wrappedSymbol = WRAPPED_NATIVE_SYMBOLS[this.chain.network];
+        return this.createIntent('wrap', `Wrap ${amount} ${nativeCurrency} to ${wrappedSymbol}`, await this.buildWrapCalls(amount, false), [
+            { asset: nativeCurrency, position: 'wallet', change: `-${amount}` },
+            { asset: wrappedSymbol, position: 'wallet', change: `+${amount}` }
+        ]);
+    }
+
+    async prepareUnwrap(amount: string): Promise<TransactionIntent> {
+        this.requireTransactionMode();
+
+        const nativeCurrency = this.chain.networkInfo.nativeCurrency;
+        const wrappedSymbol = WRAPPED_NATIVE_SYMBOLS[this.chain.network];
+        return this.createIntent('unwrap', `Unwrap ${amount} ${wrappedSymbol} to ${nativeCurrency}`, await this.buildWrapCalls(amount, true), [
+            { asset: wrappedSymbol, position: 'wallet', change: `-${amount}` },
+            { asset: nativeCurrency, position: 'wallet', change: `+${amount}` }
+        ]);
+    }
+
+    async prepareSendNative(to: Address, amount: string): Promise<TransactionIntent> {
+        this.requireTransactionMode();
+
+        const nativeCurrency = this.chain.networkInfo.nativeCurrency;
+        return this.createIntent('send_native', `Send ${amount} ${nativeCurrency} to ${to}`, await this.buildSendNativeCalls(to, amount), [
+            { asset: nativeCurrency, position: 'wallet', change: `-${amount}`, note: `Sent to ${to}` }
+        ]);
+    }
+
+    async prepareSendERC20(tokenSymbol: string, to: Address, amount: string): Promise<TransactionIntent> {
+        this.requireTransactionMode();
+
+        const calls = this.buildSendERC20Calls(tokenSymbol, to, amount);
+        const token = this.resolveToken(tokenSymbol);
+        return this.createIntent('send_erc20', `Send ${amount} ${token.canonicalSymbol} to ${to}`, calls, [
+            { asset: token.canonicalSymbol, position: 'wallet', change: `-${amount}`, note: `Sent to ${to}` }
+        ]);
+    }
+
+    // Look up a prepared intent without consuming it
+    getIntent(intentId: string): TransactionIntent {
+        return this.intents.get(intentId);
+    }
+
+    async executeIntent(intentId: string, options: TransactionOptions = {}): Promise<{ intent: TransactionIntent; transactions: TransactionResult[] }> {
+        this.requireTransactionMode();
+
+        const tracker = new ProgressTracker(options);
+        tracker.throwIfCancelled();
+
+        // Checked before taking it, so an intent sent to the wrong network can still be executed on its own
+        const prepared = this.intents.get(intentId);
+        if (prepared.chainId !== this.chain.networkInfo.chainId || prepared.from !== this.getAddress()) {
+            throw new ValidationError(
+                `Intent ${intentId} was prepared for ${prepared.from} on ${prepared.network}; execute it with network "${prepared.network}"${prepared.account ? ` and account "${prepared.account}"` : ''}`,
+                'intent_id'
+            );
         }
 
-        try {
-            // Check if user has sufficient cToken balance
-            const cTokenBalance = await publicClient.readContract({
-                address: cTokenAddress,
-                abi: CTOKEN_ABI,
-                functionName: 'balanceOf',
-                args: [this.getAddress()!]
-            }) as bigint;
+        // Taken before broadcasting, so a failed or concurrent execution cannot send it twice
+        const intent = this.intents.take(intentId);
 
-            const cTokenAmountWei = parseUnits(cTokenAmount, 8); // cTokens use 8 decimals
+        const sent = await this.broadcastSequence(intent.transactions, tracker, true);
+        const transactions = sent.map(({ hash, receipt }, index): TransactionResult => ({
+            hash,
+            status: receipt!.status === 'success' ? 'success' : 'failed',
+            blockNumber: Number(receipt!.blockNumber),
+            gasUsed: receipt!.gasUsed.toString(),
+            error: receipt!.status === 'success' ? undefined : `${intent.transactions[index].description} reverted`
+        }));
 
-            if (cTokenBalance < cTokenAmountWei) {
-                throw new InsufficientBalanceError(`c${tokenSymbol}`, cTokenAmount, cTokenBalance.toString());
-            }
+        return { intent, transactions };
+    }
 
-            const txHash = await this.walletClient!.writeContract({
-                address: cTokenAddress,
-                abi: CTOKEN_ABI,
-                functionName: 'redeem',
-                args: [cTokenAmountWei],
-                account: this.account!,
-                chain: this.currentNetworkInfo.chain
-            });
+    // Simulate each call against the current chain state. Later calls usually depend on state set
+    // by the earlier ones (approvals, market entry), so only a failure of the first call is fatal
+    private async createIntent(action: IntentAction, summary: string, calls: TransactionCall[], effects: ExpectedEffect[]): Promise<TransactionIntent> {
+        const transactions: PreparedTransaction[] = [];
+        let totalGas = 0n;
+
+        for (const [index, call] of calls.entries()) {
+            try {
+                const gasEstimate: bigint = await this.chain.publicClient.estimateGas({ account: this.chain.account!, ...call });
+                totalGas += gasEstimate;
+                transactions.push({ ...call, simulation: { status: 'success', gasEstimate } });
+            } catch (error: any) {
+                const reason = error.shortMessage || error.message;
+                if (index === 0) {
+                    throw new TransactionError(`Simulation of "${call.description}" failed: ${reason}`);
+                }
+                transactions.push({ ...call, simulation: { status: 'depends_on_previous', error: reason } });
+            }
+        }
 
-            return txHash;
+        let estimatedFee: string | null = null;
+        try {
+            const gasPrice: bigint = await this.chain.publicClient.getGasPrice();
+            estimatedFee = `${formatUnits(totalGas * gasPrice, 18)} ${this.chain.networkInfo.nativeCurrency}`;
         } catch (error) {
-            throw handleContractError(error);
+            estimatedFee = null;
         }
+
+        return this.intents.create({
+            action,
+            summary,
+            network: this.chain.network,
+            chainId: this.chain.networkInfo.chainId,
+            from: this.getAddress()!,
+            account: this.chain.accountName,
+            transactions,
+            effects,
+            estimatedFee
+        });
     }
 
-    async redeemUnderlying(tokenSymbol: string, underlyingAmount: string): Promise<string> {
-        this.requireTransactionMode();
 
-        // Resolve token symbol case-insensitively
-        const canonicalSymbol = this.getCanonicalSymbolForCToken(tokenSymbol);
-        const cTokenAddresses = this.getCTokenAddresses();
-        const cTokenAddress = cTokenAddresses[canonicalSymbol];
+    // ===== PENDING TRANSACTIONS =====
 
-        if (!cTokenAddress) {
-            throw new ValidationError(`Market ${tokenSymbol} not available`);
+    // Mined and pending transaction counts of the wallet; the node holds `pending - confirmed` unmined
+    async getNonceState(): Promise<{ confirmed: number; pending: number; nextLocal: number | null }> {
+        this.requireTransactionMode();
+        const address = this.getAddress()!;
+        const [confirmed, pending] = await Promise.all([
+            this.chain.publicClient.getTransactionCount({ address, blockTag: 'latest' }),
+            this.chain.publicClient.getTransactionCount({ address, blockTag: 'pending' })
+        ]);
+        return { confirmed, pending, nextLocal: this.chain.nonces!.pendingNonce };
+    }
+
+    // A transaction of this wallet that the node knows but has not mined
+    async getPendingTransaction(hash: Hex): Promise<Transaction> {
+        this.requireTransactionMode();
+        let transaction: Transaction;
+        try {
+            transaction = await this.chain.publicClient.getTransaction({ hash });
+        } catch (error) {
+            throw new ValidationError(`Transaction ${hash} is not known to the node; it may have been dropped or replaced`, 'transaction_hash');
+        }
+        if (transaction.from.toLowerCase() !== this.getAddress()!.toLowerCase()) {
+            throw new ValidationError(`Transaction ${hash} was sent by ${transaction.from}, not by this account`, 'transaction_hash');
+        }
+        if (transaction.blockNumber !== null) {
+            throw new ValidationError(`Transaction ${hash} is already mined in block ${transaction.blockNumber}`, 'transaction_hash');
         }
+        return transaction;
+    }
 
+    /**
+     * Resend a pending transaction at its nonce with higher fees, then wait until a transaction
+     * with that nonce is mined. That may be the original or an earlier replacement rather than
+     * this one; the receipt tells which
+     */
+    async replaceTransaction(hash: Hex, kind: ReplacementKind, feeMultiplier: number, options: TransactionOptions = {}): Promise<ReplacedTransaction> {
+        const tracker = new ProgressTracker(options);
+        const original = await this.getPendingTransaction(hash);
+        const account = this.chain.account!;
+        const label = `${kind === 'cancel' ? 'cancellation' : 'speed-up'} of ${hash} (nonce ${original.nonce})`;
+        await tracker.report('building', `Building ${label}`);
+
+        if (kind === 'speed_up' && !original.to) {
+            throw new ValidationError(`Transaction ${hash} deploys a contract and cannot be sped up; cancel it instead`, 'transaction_hash');
+        }
+        const call = kind === 'cancel'
+            ? { to: account.address, value: 0n, gas: 21000n }
+            : { to: original.to!, data: original.input, value: original.value, gas: original.gas };
+        const fees = await replacementFees(this.chain, original, call.gas, feeMultiplier);
+
+        tracker.expect(1, 1);
+        tracker.throwIfCancelled();
+        await tracker.report('signing', `Signing ${label}`);
+        let replacementHash: Hex;
         try {
-            const decimals = this.getTokenDecimals(canonicalSymbol); 
-            const underlyingAmountWei = parseUnits(underlyingAmount, decimals);
+            replacementHash = await this.chain.nonces!.resend(original.nonce, { ...call, ...fees });
+        } catch (error) {
+            logger.error(`Failed to broadcast ${label}`, { network: this.chain.network, error });
+            throw error instanceof FeeLimitExceededError ? error : handleContractError(error);
+        }
+        logger.info(`Broadcast ${label}`, { network: this.chain.network, txHash: replacementHash });
+        await tracker.broadcast(replacementHash, label);
 
-            const txHash = await this.walletClient!.writeContract({
-                address: cTokenAddress,
-                abi: CTOKEN_ABI,
-                functionName: 'redeemUnderlying',
-                args: [underlyingAmountWei],
-                account: this.account!,
-                chain: this.currentNetworkInfo.chain
-            });
+        // Resolves with the receipt of whichever transaction took the nonce
+        const receipt = await tracker.untilCancelled<TransactionReceipt>(this.chain.publicClient.waitForTransactionReceipt({ hash: replacementHash }));
+        await tracker.confirmed(replacementHash, receipt, `Nonce ${original.nonce} mined in block ${receipt.blockNumber} by ${receipt.transactionHash}`);
+
+        return { original, replacementHash, fees, receipt };
+    }
+
+    // ===== FEE ESTIMATION =====
 
-            return txHash;
+    // Estimate the network fee of a call from this wallet, or null when the node cannot simulate it
+    // yet (e.g. an ERC-20 supply whose approval only happens as part of the same operation)
+    async estimateCallFee(call: { to: Address; data?: Hex; value?: bigint }): Promise<string | null> {
+        if (!this.chain.account) {
+            return null;
+        }
+
+        try {
+            const gas: bigint = await this.chain.publicClient.estimateGas({ account: this.chain.account, ...call });
+            const gasPrice: bigint = await this.chain.publicClient.getGasPrice();
+            return `${formatUnits(gas * gasPrice, 18)} ${this.chain.networkInfo.nativeCurrency}`;
         } catch (error) {
-            throw handleContractError(error);
+            return null;
         }
     }
 
+    async estimateActionFee(action: FeeEstimateAction): Promise<string | null> {
+        try {
+            switch (action.type) {
+                case 'send_native':
+                    return this.estimateCallFee({ to: action.to, value: parseUnits(action.amount, 18) });
+                case 'send_erc20': {
+                    const canonicalSymbol = this.resolveTokenSymbol(action.tokenSymbol);
+                    return this.estimateCallFee({
+                        to: this.getTokenAddresses()[canonicalSymbol],
+                        data: encodeFunctionData({
+                            abi: ERC20_ABI,
+                            functionName: 'transfer',
+                            args: [action.to, parseUnits(action.amount, this.getTokenDecimals(canonicalSymbol))]
+                        })
+                    });
+                }
+                case 'supply':
+                case 'borrow':
+                case 'redeem': {
+                    const canonicalSymbol = this.getCanonicalSymbolForCToken(action.tokenSymbol);
+                    const cTokenAddress = this.getCTokenAddresses()[canonicalSymbol];
+                    const amountWei = parseUnits(action.amount, this.getTokenDecimals(canonicalSymbol));
+
+                    if (action.type === 'supply' && canonicalSymbol === this.chain.networkInfo.nativeCurrency) {
+                        // Native supplies send the amount as value to the payable mint()
+                        return this.estimateCallFee({
+                            to: cTokenAddress,
+                            data: encodeFunctionData({ abi: NATIVE_CTOKEN_ABI, functionName: 'mint' }),
+                            value: amountWei
+                        });
+                    }
+
+                    return this.estimateCallFee({
+                        to: cTokenAddress,
+                        data: encodeFunctionData({
+                            abi: CTOKEN_ABI,
+                            functionName: CTOKEN_FUNCTIONS[action.type],
+                            args: [amountWei]
+                        })
+                    });
+                }
+                case 'approve': {
+                    const [{ to, data }] = this.buildApproveCalls(action.tokenSymbol, action.spender, action.amount);
+                    return this.estimateCallFee({ to, data });
+                }
+                case 'swap': {
+                    // The swap itself; with an approval in front it cannot be simulated yet
+                    const calls = await this.buildSwapCalls(action.tokenIn, action.tokenOut, action.amountIn, action.minimumAmountOut, action.deadlineMinutes);
+                    const { to, data, value } = calls[calls.length - 1];
+                    return this.estimateCallFee({ to, data, value });
+                }
+            }
+        } catch (error) {
+            return null;
+        }
+    }
 
     // ===== HELPER METHODS =====
 
     private requireTransactionMode(): void {
-        if (this.isReadonly) {
+        if (!this.isTransactionMode()) {
             throw new Error('This operation requires transaction mode. Provide a private key to enable transactions.');
         }
     }
 
     async getTokenBalance(tokenAddress: Address, accountAddress: Address): Promise<bigint> {
         try {
-            const balance = await publicClient.readContract({
+            const balance = await this.chain.publicClient.readContract({
                 address: tokenAddress,
                 abi: ERC20_ABI,
                 functionName: 'balanceOf',
@@ -990,7 +1485,8 @@ export class WalletAgent {
         }
     }
 
-    private async getTokenPrice(symbol: string): Promise<number> {
+    // USD price of a token from the price feed; 0 when it has no price or the feed is unavailable
+    async getTokenPrice(symbol: string): Promise<number> {
         try {
             const prices = await this.fetchPrices();
             return prices[symbol] || 0;
@@ -1001,7 +1497,7 @@ export class WalletAgent {
 
     async waitForTransaction(txHash: string): Promise<any> {
         try {
-            const receipt = await publicClient.waitForTransactionReceipt({
+            const receipt = await this.chain.publicClient.waitForTransactionReceipt({
                 hash: txHash as Address
             });
             return receipt;
@@ -0,0 +1,130 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getEnvironmentConfig } from './config';
+import { logger } from './utils/logger';
+
+const originalEnv = process.env;
+const originalArgv = process.argv;
+
+let directory: string;
+
+// Config files are cached by path, so every test writes its own
+function writeConfig(name: string, contents: string): string {
+    const path = join(directory, name);
+    writeFileSync(path, contents);
+    return path;
+}
+
+const profiles = `
+rpcRetries: 5
+httpPort: 4000
+defaultProfile: kub-readonly
+profiles:
+  kub-readonly:
+    chainId: 96
+  kaia-prod:
+    chainId: 8217
+    agentMode: transaction
+    httpPort: 4100
+    policy:
+      maxDailyUSD: 500
+      tokens:
+        USDT:
+          maxTransactionUSD: 100
+`;
+
+beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'config-'));
+    // Without the test runner's flags, such as its own --config
+    process.env = {};
+    process.argv = ['node', 'kilolend-mcp'];
+});
+
+afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+    process.env = originalEnv;
+    process.argv = originalArgv;
+});
+
+describe('getEnvironmentConfig', () => {
+    it('applies the defaults', () => {
+        process.env.CHAIN_ID = '8217';
+
+        expect(getEnvironmentConfig()).toMatchObject({
+            chainId: 8217,
+            network: 'kaia',
+            agentMode: 'readonly',
+            transport: 'stdio',
+            httpHost: '127.0.0.1',
+            httpPort: 3000,
+            confirmTransactions: false,
+            rpcRetries: 3,
+            policy: { tools: {}, tokens: {} },
+            fees: {}
+        });
+    });
+
+    it('requires a chain ID', () => {
+        jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+
+        expect(() => getEnvironmentConfig()).toThrow('Missing required KiloLend MCP configuration');
+        process.env.CHAIN_ID = '1';
+        expect(() => getEnvironmentConfig()).toThrow('Invalid CHAIN_ID: 1');
+    });
+
+    it('merges the default profile over the top-level settings', () => {
+        process.env.MCP_CONFIG_FILE = writeConfig('default.yaml', profiles);
+
+        expect(getEnvironmentConfig()).toMatchObject({ chainId: 96, network: 'kub', rpcRetries: 5, httpPort: 4000, profile: 'kub-readonly' });
+    });
+
+    it('selects a profile with --profile over MCP_PROFILE', () => {
+        process.env.MCP_CONFIG_FILE = writeConfig('selected.yaml', profiles);
+        process.env.MCP_PROFILE = 'kub-readonly';
+        process.argv.push('--profile', 'kaia-prod');
+
+        expect(getEnvironmentConfig()).toMatchObject({
+            chainId: 8217,
+            agentMode: 'transaction',
+            httpPort: 4100,
+            rpcRetries: 5,
+            profile: 'kaia-prod',
+            policy: { maxDailyUSD: 500, tokens: { USDT: { maxTransactionUSD: 100 } } }
+        });
+    });
+
+    it('refuses an unknown profile', () => {
+        process.env.MCP_CONFIG_FILE = writeConfig('unknown.yaml', profiles);
+        process.env.MCP_PROFILE = 'kaia-test';
+
+        expect(() => getEnvironmentConfig()).toThrow("Unknown profile 'kaia-test' in");
+        expect(() => getEnvironmentConfig()).toThrow('Available profiles: kub-readonly, kaia-prod');
+    });
+
+    it('lets env vars override the config file and CLI flags override both', () => {
+        process.argv.push(`--config=${writeConfig('overrides.yaml', profiles)}`, '--profile=kaia-prod', '--port', '4300');
+        process.env.CHAIN_ID = '42793';
+        process.env.MCP_HTTP_PORT = '4200';
+        process.env.AGENT_MODE = 'readonly';
+        process.env.POLICY_MAX_DAILY_USD = '50';
+
+        expect(getEnvironmentConfig()).toMatchObject({
+            chainId: 42793,
+            network: 'etherlink',
+            agentMode: 'readonly',
+            httpPort: 4300,
+            rpcRetries: 5,
+            policy: { maxDailyUSD: 50, tokens: { USDT: { maxTransactionUSD: 100 } } }
+        });
+    });
+
+    it('reads JSON config files and refuses unknown settings', () => {
+        process.env.MCP_CONFIG_FILE = writeConfig('config.json', JSON.stringify({ chainId: 96, transport: 'http' }));
+        expect(getEnvironmentConfig()).toMatchObject({ network: 'kub', transport: 'http' });
+
+        process.env.MCP_CONFIG_FILE = writeConfig('invalid.yaml', 'chainId: 96\nrpcRetry: 2\n');
+        expect(() => getEnvironmentConfig()).toThrow('Invalid config file');
+    });
+});
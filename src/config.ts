@@ -1,7 +1,13 @@
-import { Chain, createPublicClient, createWalletClient, http, WalletClient } from 'viem';
-import { privateKeyToAccount, Address, Account, generatePrivateKey } from 'viem/accounts';
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { Address, Chain, isAddress } from 'viem';
 import { kaia } from 'viem/chains'
 import { z } from 'zod';
+import yaml from 'js-yaml';
+import { logger } from './utils/logger';
+import type { SpendingPolicyConfig } from './mcp/policy';
+import type { AddressBookConfig } from './mcp/address_book';
+import type { FeePolicy } from './agent/fees';
 
 // Define custom chains for KUB and Etherlink since they're not in viem/chains
 const kub = {
@@ -34,6 +40,8 @@ type NetworkType = 'kaia' | 'kub' | 'etherlink'
 
 type AgentMode = 'readonly' | 'transaction';
 
+type TransportType = 'stdio' | 'http';
+
 interface NetworkConfig {
     rpcProviderUrl: string;
     blockExplorer: string;
@@ -42,26 +50,191 @@ interface NetworkConfig {
     nativeCurrency: string;
 }
 
+// Address monitored without its key, referenced by label in read tools
+export interface WatchAddress {
+    label: string;
+    address: Address;
+}
+
+export type SignerType = 'private-key' | 'keystore' | 'mnemonic' | 'external';
+
+// Where the signing account comes from (see src/signers)
+export interface SignerConfig {
+    type: SignerType;
+    // Encrypted JSON keystore and its passphrase (or a file holding it)
+    keystorePath?: string;
+    keystorePassword?: string;
+    keystorePasswordFile?: string;
+    // BIP-39 mnemonic (or a file holding it) and the derivation path of the account
+    mnemonic?: string;
+    mnemonicFile?: string;
+    derivationPath?: string;
+    // External JSON-RPC signer: http(s) URL or IPC socket path, and the account to use
+    url?: string;
+    address?: Address;
+}
+
+// Additional named account, from its own keystore or an index of the signer's mnemonic
+export interface AccountConfig {
+    name: string;
+    keystorePath?: string;
+    // Defaults to the signer's keystore passphrase
+    keystorePasswordFile?: string;
+    // m/44'/60'/0'/0/<index> of the signer's mnemonic
+    derivationIndex?: number;
+}
+
 // KiloLend MCP Environment Configuration
 export interface KiloLendMCPEnvironment {
     rpcUrl: string;
     privateKey?: string;
+    // Unset when no signing account is configured
+    signer?: SignerConfig;
+    // Named accounts managed besides the signer's ("default")
+    accounts: AccountConfig[];
     agentMode: AgentMode;
     chainId: number;
     network: NetworkType;
+    transport: TransportType;
+    httpHost: string;
+    httpPort: number;
+    confirmTransactions: boolean;
+    apiBaseUrl: string;
+    priceUrl: string;
+    apiTimeout: number;
+    rpcTimeout: number;
+    rpcRetries: number;
+    // How long a prepared intent can still be executed
+    intentTtlSeconds: number;
+    watchAddresses: WatchAddress[];
+    // Limits checked before every fund-moving broadcast
+    policy: SpendingPolicyConfig;
+    // Named recipients of the transfer tools
+    addressBook: AddressBookConfig;
+    // JSONL file recording every broadcast transaction; kept in memory only when unset
+    journalFile?: string;
+    // Gas fee policy by network; viem's default estimation where unset
+    fees: Partial<Record<NetworkType, FeePolicy>>;
+    // Settings only a config file can provide
+    tools?: ConfigFileSettings['tools'];
+    authTokens?: ConfigFileSettings['authTokens'];
+    // Where file settings came from, for startup logs
+    configFile?: string;
+    profile?: string;
 }
 
+export const DEFAULT_INTENT_TTL_SECONDS = 300;
+
+const DEFAULT_API_BASE_URL = 'https://kvxdikvk5b.execute-api.ap-southeast-1.amazonaws.com/prod';
+
+const SpendingCapSchema = z.object({
+    maxTransactionUSD: z.number().positive().optional(),
+    maxDailyUSD: z.number().positive().optional()
+}).strict();
+
+const SpendingPolicySchema = SpendingCapSchema.extend({
+    tools: z.record(SpendingCapSchema).default({}),
+    tokens: z.record(SpendingCapSchema).default({}),
+    maxBorrowUtilization: z.number().gt(0).max(1).optional(),
+    minHealthFactor: z.number().positive().optional()
+}).strict();
+
+const AddressBookSchema = z.object({
+    allowlistOnly: z.boolean().default(false),
+    editable: z.boolean().default(false),
+    file: z.string().optional(),
+    contacts: z.array(z.object({
+        name: z.string().min(1),
+        address: z.string().refine(value => isAddress(value), { message: "Invalid address" }),
+        label: z.string().optional(),
+        tokens: z.array(z.string()).optional(),
+        maxAmounts: z.record(z.number().positive()).optional()
+    }).strict()).default([])
+}).strict();
+
+const FeePolicySchema = z.object({
+    mode: z.enum(['legacy', 'eip1559']).optional(),
+    priorityFeeMultiplier: z.number().positive().optional(),
+    maxFeePerGasGwei: z.number().positive().optional(),
+    gasLimitBufferPercent: z.number().min(0).optional(),
+    maxCostNative: z.number().positive().optional(),
+    maxCostUSD: z.number().positive().optional()
+}).strict();
+
 // Validation schemas using zod
 export const KiloLendMCPEnvironmentSchema = z.object({
     rpcUrl: z.string().url().describe("RPC URL"),
     privateKey: z.string().optional().describe("Wallet private key for transaction mode"),
+    signer: z.object({
+        type: z.enum(['private-key', 'keystore', 'mnemonic', 'external']),
+        keystorePath: z.string().optional(),
+        keystorePassword: z.string().optional(),
+        keystorePasswordFile: z.string().optional(),
+        mnemonic: z.string().optional(),
+        mnemonicFile: z.string().optional(),
+        derivationPath: z.string().regex(/^m(\/\d+'?)+$/, "Expected a derivation path such as m/44'/60'/0'/0/0").optional(),
+        url: z.string().optional(),
+        address: z.string().refine(value => isAddress(value), { message: "Invalid address" }).optional()
+    }).strict().optional().describe("Signing account: private key, encrypted keystore, mnemonic or external signer"),
+    accounts: z.array(z.object({
+        name: z.string().regex(/^[A-Za-z0-9_-]+$/, "Account names may only contain letters, digits, _ and -"),
+        keystorePath: z.string().optional(),
+        keystorePasswordFile: z.string().optional(),
+        derivationIndex: z.number().int().min(0).optional()
+    }).strict().refine(account => (account.keystorePath === undefined) !== (account.derivationIndex === undefined), {
+        message: "Set either keystorePath or derivationIndex"
+    })).default([]).describe("Named accounts selectable per call with the account argument"),
     agentMode: z.enum(['readonly', 'transaction']).default('readonly').describe("Agent mode: readonly or transaction"),
     chainId: z.number().refine((val) => [8217, 42793, 96].includes(val), {
         message: "CHAIN_ID must be 8217 (KAIA), 42793 (Etherlink), or 96 (KUB)"
     }).describe("Chain ID"),
-    network: z.enum(['kaia', 'kub', 'etherlink']).default('kaia').describe("Network to use")
+    network: z.enum(['kaia', 'kub', 'etherlink']).default('kaia').describe("Network to use"),
+    transport: z.enum(['stdio', 'http']).default('stdio').describe("MCP transport: stdio or http (Streamable HTTP with SSE fallback)"),
+    httpHost: z.string().default('127.0.0.1').describe("Host interface for the HTTP transport"),
+    httpPort: z.number().int().min(1).max(65535).default(3000).describe("Port for the HTTP transport"),
+    confirmTransactions: z.boolean().default(false).describe("Ask the user to confirm fund-moving actions via MCP elicitation"),
+    apiBaseUrl: z.string().url().default(DEFAULT_API_BASE_URL).describe("KiloLend API base URL"),
+    priceUrl: z.string().url().default(`${DEFAULT_API_BASE_URL}/prices`).describe("Price API URL"),
+    apiTimeout: z.number().int().positive().default(10000).describe("Timeout (ms) for KiloLend API requests"),
+    rpcTimeout: z.number().int().positive().default(10000).describe("Timeout (ms) for RPC requests"),
+    rpcRetries: z.number().int().min(0).default(3).describe("Retries for failed RPC requests"),
+    intentTtlSeconds: z.number().int().positive().default(DEFAULT_INTENT_TTL_SECONDS).describe("How long (seconds) a prepared transaction can still be executed with kilolend_execute_intent"),
+    policy: SpendingPolicySchema.default({}).describe("Spending limits checked before every fund-moving broadcast"),
+    addressBook: AddressBookSchema.default({}).describe("Named recipients of the transfer tools, with an optional allowlist-only mode"),
+    journalFile: z.string().optional().describe("JSONL transaction journal, read by kilolend_get_transaction_history"),
+    fees: z.object({
+        kaia: FeePolicySchema.optional(),
+        kub: FeePolicySchema.optional(),
+        etherlink: FeePolicySchema.optional()
+    }).strict().default({}).describe("Gas fee policy per network: transaction type, fee multiplier and caps, gas limit buffer"),
+    watchAddresses: z.array(z.object({
+        label: z.string().min(1),
+        address: z.string().refine(value => isAddress(value), { message: "Invalid address" })
+    }).strict()).default([]).describe("Watch-only addresses with labels, the default account of read tools without a private key")
 });
 
+// Settings of a config file or one of its profiles: any environment field, plus the
+// tool selection and API tokens that would otherwise come from MCP_TOOLS_FILE / MCP_AUTH_TOKENS_FILE
+const ConfigFileSettingsSchema = KiloLendMCPEnvironmentSchema.partial().extend({
+    tools: z.object({
+        enabled: z.array(z.string()).optional(),
+        disabled: z.array(z.string()).optional(),
+        groups: z.record(z.array(z.string())).optional()
+    }).strict().optional().describe("Tool selection, see MCP_ENABLED_TOOLS"),
+    authTokens: z.array(z.object({
+        name: z.string().optional(),
+        token: z.string().min(1),
+        scopes: z.array(z.string())
+    })).optional().describe("Bearer tokens for the HTTP transport")
+}).strict();
+
+const ConfigFileSchema = ConfigFileSettingsSchema.extend({
+    defaultProfile: z.string().optional().describe("Profile used when none is selected"),
+    profiles: z.record(ConfigFileSettingsSchema).optional().describe("Named profiles, e.g. kaia-prod or kub-readonly")
+}).strict();
+
+export type ConfigFileSettings = z.infer<typeof ConfigFileSettingsSchema>;
+
 export type KiloLendMCPEnvironmentInput = z.infer<typeof KiloLendMCPEnvironmentSchema>;
 
 // Chain configurations for KiloLend multi-chain support
@@ -264,18 +437,231 @@ export const TOKEN_CONFIGS = {
 } as const;
 
 
+// Read a CLI flag in either `--name value` or `--name=value` form
+export function getCliOption(name: string): string | undefined {
+    const args = process.argv.slice(2);
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === `--${name}`) {
+            const next = args[i + 1];
+            return next && !next.startsWith('--') ? next : undefined;
+        }
+        if (arg.startsWith(`--${name}=`)) {
+            return arg.substring(name.length + 3);
+        }
+    }
+    return undefined;
+}
+
+// Check for a boolean CLI flag such as `--confirm-transactions`
+export function hasCliFlag(name: string): boolean {
+    return process.argv.slice(2).includes(`--${name}`);
+}
+
+interface LoadedConfigFile {
+    path: string;
+    profile?: string;
+    settings: ConfigFileSettings;
+}
+
+// Parsed once per path and profile; getEnvironmentConfig is called repeatedly
+const configFileCache = new Map<string, LoadedConfigFile>();
+
+function formatIssues(error: z.ZodError): string {
+    return error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+}
+
+/**
+ * Loads the config file set with --config or MCP_CONFIG_FILE (JSON, or YAML for .yaml/.yml)
+ * The selected profile (--profile, MCP_PROFILE, then the file's defaultProfile) is merged
+ * over the file's top-level settings. Returns null when no config file is set
+ */
+export function loadConfigFile(): LoadedConfigFile | null {
+    const path = getCliOption('config') || process.env.MCP_CONFIG_FILE;
+    if (!path) {
+        return null;
+    }
+    const requestedProfile = getCliOption('profile') || process.env.MCP_PROFILE;
+    const cacheKey = `${path}#${requestedProfile || ''}`;
+    const cached = configFileCache.get(cacheKey);
+    if (cached) {
+        return cached;
+    }
+
+    const source = readFileSync(path, 'utf8');
+    const extension = extname(path).toLowerCase();
+    const raw = extension === '.yaml' || extension === '.yml'
+        ? yaml.load(source, { filename: path })
+        : JSON.parse(source);
+
+    const parsed = ConfigFileSchema.safeParse(raw ?? {});
+    if (!parsed.success) {
+        throw new Error(`Invalid config file ${path}: ${formatIssues(parsed.error)}`);
+    }
+    const { profiles = {}, defaultProfile, ...baseSettings } = parsed.data;
+
+    const profile = requestedProfile || defaultProfile;
+    if (profile && !profiles[profile]) {
+        const available = Object.keys(profiles);
+        throw new Error(`Unknown profile '${profile}' in ${path}. Available profiles: ${available.length > 0 ? available.join(', ') : 'none'}`);
+    }
+
+    const loaded: LoadedConfigFile = {
+        path,
+        profile,
+        settings: { ...baseSettings, ...(profile ? profiles[profile] : {}) }
+    };
+    configFileCache.set(cacheKey, loaded);
+    return loaded;
+}
+
+// Integer setting from CLI/env (a string) or the config file (a number)
+function parseIntegerSetting(name: string, value: string | number | undefined, fallback: number): number {
+    if (value === undefined || value === '') {
+        return fallback;
+    }
+    const parsed = typeof value === 'number' ? value : Number(value);
+    if (!Number.isInteger(parsed)) {
+        throw new Error(`Invalid ${name}: ${value}. Expected an integer`);
+    }
+    return parsed;
+}
+
+// WATCH_ADDRESSES: comma-separated `label=0x...` entries; a bare address is labelled with itself
+function parseWatchAddresses(value: string): WatchAddress[] {
+    return value.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+        const separator = entry.indexOf('=');
+        const label = separator >= 0 ? entry.substring(0, separator).trim() : entry;
+        const address = separator >= 0 ? entry.substring(separator + 1).trim() : entry;
+        if (!label || !isAddress(address)) {
+            throw new Error(`Invalid WATCH_ADDRESSES entry: ${entry}. Expected label=0x... or an address`);
+        }
+        return { label, address };
+    });
+}
+
+// Signer settings from env over the config file; the type defaults to the backend whose settings are present
+function resolveSignerConfig(file: ConfigFileSettings, privateKey: string | undefined): SignerConfig | undefined {
+    const settings = {
+        ...file.signer,
+        ...Object.fromEntries(Object.entries({
+            keystorePath: process.env.KEYSTORE_PATH,
+            keystorePassword: process.env.KEYSTORE_PASSWORD,
+            keystorePasswordFile: process.env.KEYSTORE_PASSWORD_FILE,
+            mnemonic: process.env.MNEMONIC,
+            mnemonicFile: process.env.MNEMONIC_FILE,
+            derivationPath: process.env.MNEMONIC_PATH,
+            url: process.env.SIGNER_URL,
+            address: process.env.SIGNER_ADDRESS
+        }).filter(([, value]) => value !== undefined && value !== ''))
+    };
+
+    const type = (process.env.SIGNER_TYPE || file.signer?.type
+        || (settings.keystorePath ? 'keystore' : undefined)
+        || (settings.mnemonic || settings.mnemonicFile ? 'mnemonic' : undefined)
+        || (settings.url ? 'external' : undefined)
+        || (privateKey ? 'private-key' : undefined)) as SignerType | undefined;
+
+    return type ? { ...settings, type } as SignerConfig : undefined;
+}
+
+// ACCOUNTS: comma-separated `name=hd:<index>` or `name=keystore:<path>` entries
+function parseAccounts(value: string): AccountConfig[] {
+    return value.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+        const match = /^([^=]+)=(hd|keystore):(.+)$/.exec(entry);
+        if (!match) {
+            throw new Error(`Invalid ACCOUNTS entry: ${entry}. Expected name=hd:<index> or name=keystore:<path>`);
+        }
+        const [, name, kind, source] = match;
+        return kind === 'hd'
+            ? { name: name.trim(), derivationIndex: Number(source) }
+            : { name: name.trim(), keystorePath: source.trim() };
+    });
+}
+
+// Decimal setting from env (a string); undefined when unset
+function parseNumberSetting(name: string, value: string | undefined): number | undefined {
+    if (value === undefined || value === '') {
+        return undefined;
+    }
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) {
+        throw new Error(`Invalid ${name}: ${value}. Expected a number`);
+    }
+    return parsed;
+}
+
+// Spending policy of the config file, with the overall limits overridable from env
+function resolvePolicy(file: ConfigFileSettings): SpendingPolicyConfig {
+    const policy = { tools: {}, tokens: {}, ...file.policy };
+    const overrides = {
+        maxTransactionUSD: parseNumberSetting('POLICY_MAX_TRANSACTION_USD', process.env.POLICY_MAX_TRANSACTION_USD),
+        maxDailyUSD: parseNumberSetting('POLICY_MAX_DAILY_USD', process.env.POLICY_MAX_DAILY_USD),
+        maxBorrowUtilization: parseNumberSetting('POLICY_MAX_BORROW_UTILIZATION', process.env.POLICY_MAX_BORROW_UTILIZATION),
+        minHealthFactor: parseNumberSetting('POLICY_MIN_HEALTH_FACTOR', process.env.POLICY_MIN_HEALTH_FACTOR)
+    };
+    for (const [key, value] of Object.entries(overrides)) {
+        if (value !== undefined) {
+            (policy as Record<string, unknown>)[key] = value;
+        }
+    }
+    return policy;
+}
+
+// Fee policies of the config file, with the default network's settings overridable from env
+function resolveFees(file: ConfigFileSettings, network: NetworkType): Partial<Record<NetworkType, FeePolicy>> {
+    const fees: Partial<Record<NetworkType, FeePolicy>> = { ...file.fees };
+    const policy: FeePolicy = { ...fees[network] };
+    const overrides = {
+        mode: process.env.FEE_MODE || undefined,
+        priorityFeeMultiplier: parseNumberSetting('FEE_PRIORITY_MULTIPLIER', process.env.FEE_PRIORITY_MULTIPLIER),
+        maxFeePerGasGwei: parseNumberSetting('FEE_MAX_FEE_PER_GAS_GWEI', process.env.FEE_MAX_FEE_PER_GAS_GWEI),
+        gasLimitBufferPercent: parseNumberSetting('FEE_GAS_LIMIT_BUFFER_PERCENT', process.env.FEE_GAS_LIMIT_BUFFER_PERCENT),
+        maxCostNative: parseNumberSetting('FEE_MAX_COST_NATIVE', process.env.FEE_MAX_COST_NATIVE),
+        maxCostUSD: parseNumberSetting('FEE_MAX_COST_USD', process.env.FEE_MAX_COST_USD)
+    };
+    for (const [key, value] of Object.entries(overrides)) {
+        if (value !== undefined) {
+            (policy as Record<string, unknown>)[key] = value;
+        }
+    }
+    if (Object.keys(policy).length > 0) {
+        fees[network] = policy;
+    }
+    return fees;
+}
+
+// Address book of the config file, with its mode and file overridable from env
+function resolveAddressBook(file: ConfigFileSettings): AddressBookConfig {
+    const allowlistOnly = process.env.ADDRESS_BOOK_ALLOWLIST_ONLY;
+    const editable = process.env.ADDRESS_BOOK_EDITABLE;
+    return {
+        contacts: file.addressBook?.contacts || [],
+        allowlistOnly: allowlistOnly !== undefined ? allowlistOnly === 'true' : file.addressBook?.allowlistOnly ?? false,
+        editable: editable !== undefined ? editable === 'true' : file.addressBook?.editable ?? false,
+        file: process.env.ADDRESS_BOOK_FILE || file.addressBook?.file
+    };
+}
+
+// Resolve the configuration: CLI flags, then env vars, then the config file profile, then defaults
 export function getEnvironmentConfig(): KiloLendMCPEnvironment {
-    // Validate required environment variables (only CHAIN_ID is required now)
-    if (!process.env.CHAIN_ID) {
-        console.error(`❌ Missing required environment variable: CHAIN_ID`);
-        console.error(`💡 Please set the following in your .env file:`);
-        console.error(`   CHAIN_ID=8217 (or 42793 or 96)`);
-        console.error(`   RPC_URL=your_custom_rpc_url (optional, will use default if not provided)`);
+    const configFile = loadConfigFile();
+    const file: ConfigFileSettings = configFile?.settings || {};
+
+    // CHAIN_ID is required, from env or the config file (directly or through its network)
+    const chainIdSetting = process.env.CHAIN_ID
+        || file.chainId?.toString()
+        || (file.network ? networkConfigs[file.network].chainId.toString() : undefined);
+    if (!chainIdSetting) {
+        logger.error(`❌ Missing required environment variable: CHAIN_ID`);
+        logger.error(`💡 Please set the following in your .env file (or chainId in a --config file):`);
+        logger.error(`   CHAIN_ID=8217 (or 42793 or 96)`);
+        logger.error(`   RPC_URL=your_custom_rpc_url (optional, will use default if not provided)`);
         throw new Error('Missing required KiloLend MCP configuration');
     }
 
     // Parse and validate CHAIN_ID
-    const chainId = parseInt(process.env.CHAIN_ID!);
+    const chainId = parseInt(chainIdSetting);
     if (![8217, 42793, 96].includes(chainId)) {
         throw new Error(`Invalid CHAIN_ID: ${chainId}. Must be 8217 (KAIA), 42793 (Etherlink), or 96 (KUB)`);
     }
@@ -297,21 +683,83 @@ export function getEnvironmentConfig(): KiloLendMCPEnvironment {
     }
 
     // Use custom RPC URL if provided, otherwise use default from networkConfigs
-    const rpcUrl = process.env.RPC_URL || networkConfigs[network].rpcProviderUrl;
+    const rpcUrl = process.env.RPC_URL || file.rpcUrl || networkConfigs[network].rpcProviderUrl;
+
+    // Transport selection: CLI flags take precedence over env
+    const transport = (getCliOption('transport') || process.env.MCP_TRANSPORT || file.transport || 'stdio').toLowerCase();
+    if (transport !== 'stdio' && transport !== 'http') {
+        throw new Error(`Invalid MCP transport: ${transport}. Must be 'stdio' or 'http'`);
+    }
+
+    const httpPort = parseIntegerSetting('HTTP port', getCliOption('port') || process.env.MCP_HTTP_PORT || file.httpPort, 3000);
+    if (httpPort < 1 || httpPort > 65535) {
+        throw new Error(`Invalid HTTP port: ${httpPort}`);
+    }
+
+    const confirmTransactionsEnv = process.env.MCP_CONFIRM_TRANSACTIONS;
+
+    const watchAddresses = process.env.WATCH_ADDRESSES !== undefined
+        ? parseWatchAddresses(process.env.WATCH_ADDRESSES)
+        : (file.watchAddresses || []) as WatchAddress[];
+    const accounts = process.env.ACCOUNTS !== undefined ? parseAccounts(process.env.ACCOUNTS) : file.accounts || [];
+    const accountNames = ['default', ...accounts.map(account => account.name)];
+    const duplicateAccount = accountNames.find((name, index) => accountNames.indexOf(name) !== index);
+    if (duplicateAccount) {
+        throw new Error(`Duplicate account name: ${duplicateAccount}${duplicateAccount === 'default' ? ' (reserved for the signer account)' : ''}`);
+    }
+
+    const labels = watchAddresses.map(watched => watched.label.toLowerCase());
+    const duplicate = labels.find((label, index) => labels.indexOf(label) !== index);
+    if (duplicate) {
+        throw new Error(`Duplicate watch address label: ${duplicate}`);
+    }
 
     const config: KiloLendMCPEnvironment = {
         rpcUrl,
         chainId,
-        agentMode: (process.env.AGENT_MODE as AgentMode) || 'readonly',
-        network
+        accounts,
+        agentMode: (process.env.AGENT_MODE as AgentMode) || file.agentMode || 'readonly',
+        network,
+        transport,
+        httpHost: getCliOption('host') || process.env.MCP_HTTP_HOST || file.httpHost || '127.0.0.1',
+        httpPort,
+        confirmTransactions: hasCliFlag('confirm-transactions') || (confirmTransactionsEnv !== undefined
+            ? confirmTransactionsEnv === 'true'
+            : file.confirmTransactions ?? false),
+        apiBaseUrl: process.env.API_BASE_URL || file.apiBaseUrl || DEFAULT_API_BASE_URL,
+        priceUrl: process.env.PRICE_URL || file.priceUrl || `${DEFAULT_API_BASE_URL}/prices`,
+        apiTimeout: parseIntegerSetting('API_TIMEOUT', process.env.API_TIMEOUT || file.apiTimeout, 10000),
+        rpcTimeout: parseIntegerSetting('RPC_TIMEOUT', process.env.RPC_TIMEOUT || file.rpcTimeout, 10000),
+        rpcRetries: parseIntegerSetting('RPC_RETRIES', process.env.RPC_RETRIES || file.rpcRetries, 3),
+        intentTtlSeconds: parseIntegerSetting('INTENT_TTL_SECONDS', process.env.INTENT_TTL_SECONDS || file.intentTtlSeconds, DEFAULT_INTENT_TTL_SECONDS),
+        watchAddresses,
+        policy: resolvePolicy(file),
+        addressBook: resolveAddressBook(file),
+        journalFile: process.env.JOURNAL_FILE || file.journalFile,
+        fees: resolveFees(file, network),
+        tools: file.tools,
+        authTokens: file.authTokens,
+        configFile: configFile?.path,
+        profile: configFile?.profile
     };
 
     // Only add private key if it exists (support both old and new env var names)
-    const privateKey = process.env.PRIVATE_KEY || process.env.KAIA_PRIVATE_KEY;
+    const privateKey = process.env.PRIVATE_KEY || process.env.KAIA_PRIVATE_KEY || file.privateKey;
     if (privateKey) {
         config.privateKey = privateKey;
     }
 
+    const signer = resolveSignerConfig(file, privateKey);
+    if (signer) {
+        config.signer = signer;
+    }
+
+    // Env values are only checked loosely above; validate the merged result against the schema
+    const validated = KiloLendMCPEnvironmentSchema.safeParse(config);
+    if (!validated.success) {
+        throw new Error(`Invalid KiloLend MCP configuration: ${formatIssues(validated.error)}`);
+    }
+
     return config;
 }
 
@@ -319,10 +767,32 @@ export function getEnvironmentConfig(): KiloLendMCPEnvironment {
 export function validateEnvironment(): void {
     try {
         const config = getEnvironmentConfig();
-        const keyStatus = config.privateKey ? 'with private key' : 'read-only';
-        console.error(`✅ KAIA-MCP configured: ${config.agentMode} mode on ${config.network} network (${keyStatus})`);
+        const keyStatus = config.signer ? `with ${config.signer.type} signer` : 'read-only';
+        logger.info(`✅ KAIA-MCP configured: ${config.agentMode} mode on ${config.network} network (${keyStatus})`);
+        if (config.configFile) {
+            logger.info(`📄 Config file ${config.configFile}${config.profile ? ` (profile: ${config.profile})` : ''}`);
+        }
+        if (config.watchAddresses.length > 0) {
+            logger.info(`👀 Watching ${config.watchAddresses.length} address(es): ${config.watchAddresses.map(watched => watched.label).join(', ')}`);
+        }
+        if (config.addressBook.allowlistOnly) {
+            logger.info('📇 Transfers restricted to address book contacts');
+        }
+        if (config.journalFile) {
+            logger.info(`📒 Transaction journal: ${config.journalFile}`);
+        }
+        const feeNetworks = Object.keys(config.fees);
+        if (feeNetworks.length > 0) {
+            logger.info(`⛽ Fee policy on ${feeNetworks.join(', ')}`);
+        }
+        if (config.transport === 'http') {
+            logger.info(`🌐 HTTP transport enabled on ${config.httpHost}:${config.httpPort}`);
+        }
+        if (config.confirmTransactions) {
+            logger.info('🔐 Fund-moving actions require user confirmation via MCP elicitation');
+        }
     } catch (error) {
-        console.error('❌ Invalid environment configuration:', error);
+        logger.error('❌ Invalid environment configuration', { error });
         throw error;
     }
 }
@@ -352,111 +822,6 @@ const networkConfigs: Record<NetworkType, NetworkConfig> = {
     }
 } as const;
 
-const getNetwork = (): NetworkType => {
-    const config = getEnvironmentConfig();
-    const network = config.network;
-
-    if (network && !(network in networkConfigs)) {
-        throw new Error(`Invalid network: ${network}. Supported networks: kaia, kub, etherlink.`);
-    }
-    return network || 'kaia';
-};
-
-const getAccount = (): Account => {
-    const config = getEnvironmentConfig();
-    const hasPrivateKey = !!(config?.privateKey);
-
-    if (!hasPrivateKey) {
-        const privateKey = generatePrivateKey();
-        return privateKeyToAccount(privateKey);
-    } else {
-        const privateKey = config.privateKey!;
-        const formattedPrivateKey = privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`;
-        
-        // Validate that the private key is a valid hex string
-        if (!/^0x[0-9a-fA-F]{64}$/.test(formattedPrivateKey)) {
-            throw new Error(`Invalid private key format. Expected 64 hex characters (32 bytes), got: ${formattedPrivateKey.length - 2} characters`);
-        }
-        
-        return privateKeyToAccount(formattedPrivateKey as `0x${string}`);
-    }
-}
-
-// Initialize client configuration with error handling
-let network: NetworkType;
-let networkInfo: any;
-let account: Account;
-let agentMode: AgentMode;
-let publicClient: any;
-let walletClient: any;
-
-try {
-    network = getNetwork();
-    networkInfo = {
-        ...networkConfigs[network],
-        rpcProviderUrl: getEnvironmentConfig().rpcUrl,
-    };
-    account = getAccount();
-    agentMode = getEnvironmentConfig().agentMode;
-
-    const baseConfig = {
-        chain: networkInfo.chain,
-        transport: http(networkInfo.rpcProviderUrl),
-    } as const;
-
-    publicClient = createPublicClient(baseConfig);
-    walletClient = createWalletClient({
-        ...baseConfig,
-        account,
-    }) as WalletClient;
-} catch (error) {
-    // Default fallback values for development/testing
-    console.warn('Warning: Failed to initialize network configuration. Using fallback values.');
-    network = 'kaia';
-    networkInfo = networkConfigs.kaia;
-    account = privateKeyToAccount(generatePrivateKey());
-    agentMode = 'readonly';
-    
-    const baseConfig = {
-        chain: networkInfo.chain,
-        transport: http(networkInfo.rpcProviderUrl),
-    } as const;
-    
-    publicClient = createPublicClient(baseConfig);
-    walletClient = createWalletClient({
-        ...baseConfig,
-        account,
-    }) as WalletClient;
-}
-
-// Export initialized values
-export { network, networkInfo, account, agentMode, publicClient, walletClient };
-
-// API Configuration
-export const apiConfig = {
-    baseUrl: process.env.API_BASE_URL || 'https://kvxdikvk5b.execute-api.ap-southeast-1.amazonaws.com/prod',
-    priceUrl: process.env.PRICE_URL || 'https://kvxdikvk5b.execute-api.ap-southeast-1.amazonaws.com/prod/prices',
-    timeout: 10000
-};
-
-// Multi-chain client factory
-export function createClientForNetwork(networkType: NetworkType) {
-    const config = networkConfigs[networkType];
-    const baseConfig = {
-        chain: config.chain,
-        transport: http(config.rpcProviderUrl),
-    };
-
-    return {
-        publicClient: createPublicClient(baseConfig),
-        walletClient: createWalletClient({
-            ...baseConfig,
-            account,
-        }) as WalletClient,
-        networkInfo: config
-    };
-}
-
 // Get contract addresses for a network
 export function getContractAddresses(networkType: NetworkType) {
     return CHAIN_CONTRACTS[networkType];
@@ -479,4 +844,4 @@ export function getSupportedTokens(networkType: NetworkType) {
 }
 
 // Export network configs for external use
-export { networkConfigs, type NetworkType };
\ No newline at end of file
+export { networkConfigs, type NetworkConfig, type NetworkType, type AgentMode, type TransportType };
\ No newline at end of file
@@ -0,0 +1,154 @@
+import { createServer, type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import {
+    hexToBigInt,
+    hexToNumber,
+    keccak256,
+    parseEther,
+    parseTransaction,
+    recoverTransactionAddress,
+    toHex,
+    type Hex,
+    type TransactionSerializable,
+    type TransactionSerializedEIP1559
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { kaia } from 'viem/chains';
+import { type KiloLendMCPEnvironment } from './config';
+import { createChainContext } from './context';
+import { WalletAgent } from './agent/wallet';
+import { createExternalSignerAccount } from './signers';
+
+const environment: KiloLendMCPEnvironment = {
+    rpcUrl: 'http://127.0.0.1:1',
+    accounts: [],
+    agentMode: 'transaction',
+    chainId: 8217,
+    network: 'kaia',
+    transport: 'stdio',
+    httpHost: '127.0.0.1',
+    httpPort: 3000,
+    confirmTransactions: false,
+    apiBaseUrl: 'http://127.0.0.1:1',
+    priceUrl: 'http://127.0.0.1:1/prices',
+    apiTimeout: 1000,
+    rpcTimeout: 1000,
+    rpcRetries: 0,
+    intentTtlSeconds: 300,
+    watchAddresses: [],
+    policy: { tools: {}, tokens: {} },
+    addressBook: { allowlistOnly: false, editable: false, contacts: [] },
+    fees: {}
+};
+
+// Key held by the stand-in signer process; the server only ever sees its address
+const signerKey = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const recipient = '0x000000000000000000000000000000000000dEaD';
+
+// JSON-RPC endpoint on a free local port; `handle` returns undefined for unsupported methods
+async function startJsonRpc(handle: (method: string, params: any[]) => unknown | Promise<unknown>): Promise<{ server: Server; url: string }> {
+    const server = createServer((request, response) => {
+        let body = '';
+        request.on('data', chunk => body += chunk);
+        request.on('end', async () => {
+            const { id, method, params } = JSON.parse(body);
+            const result = await handle(method, params);
+            response.setHeader('content-type', 'application/json');
+            response.end(JSON.stringify(result === undefined
+                ? { jsonrpc: '2.0', id, error: { code: -32601, message: `Unsupported: ${method}` } }
+                : { jsonrpc: '2.0', id, result }));
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+}
+
+// Signer process in the style of clef or web3signer, holding signerKey
+function startSigner() {
+    return startJsonRpc((method, params) => {
+        if (method === 'eth_accounts') {
+            return [signerKey.address];
+        }
+        if (method === 'eth_signTransaction') {
+            const [tx] = params;
+            return signerKey.signTransaction({
+                type: 'eip1559',
+                chainId: hexToNumber(tx.chainId),
+                nonce: hexToNumber(tx.nonce),
+                to: tx.to,
+                value: tx.value ? hexToBigInt(tx.value) : undefined,
+                data: tx.data,
+                gas: hexToBigInt(tx.gas),
+                maxFeePerGas: hexToBigInt(tx.maxFeePerGas),
+                maxPriorityFeePerGas: hexToBigInt(tx.maxPriorityFeePerGas)
+            } as TransactionSerializable);
+        }
+    });
+}
+
+// Node answering just what a native transfer needs, recording the raw transactions it receives
+function startNode(received: Hex[]) {
+    return startJsonRpc((method, params) => {
+        switch (method) {
+            case 'eth_chainId':
+                return toHex(kaia.id);
+            case 'eth_getTransactionCount':
+                return '0x3';
+            case 'eth_getBalance':
+                return toHex(parseEther('10'));
+            case 'eth_getBlockByNumber':
+                return { number: '0x10', hash: keccak256('0x10'), baseFeePerGas: '0x5d21dba00', transactions: [] };
+            case 'eth_maxPriorityFeePerGas':
+                return '0x3b9aca00';
+            case 'eth_estimateGas':
+                return '0x5208';
+            case 'eth_sendRawTransaction':
+                received.push(params[0]);
+                return keccak256(params[0]);
+        }
+    });
+}
+
+describe('createChainContext', () => {
+    it('is read-only without a signing account', () => {
+        const chain = createChainContext(environment, { account: null });
+
+        expect(chain.account).toBeNull();
+        expect(chain.walletClient).toBeNull();
+        expect(chain.nonces).toBeNull();
+        expect(new WalletAgent(chain).isTransactionMode()).toBe(false);
+    });
+
+    describe('with an external signer', () => {
+        const received: Hex[] = [];
+        let signer: { server: Server; url: string };
+        let node: { server: Server; url: string };
+
+        beforeAll(async () => {
+            signer = await startSigner();
+            node = await startNode(received);
+        });
+
+        afterAll(async () => {
+            await new Promise(resolve => signer.server.close(resolve));
+            await new Promise(resolve => node.server.close(resolve));
+        });
+
+        it('signs with the signer and broadcasts through the clients of the context', async () => {
+            const account = await createExternalSignerAccount(signer.url);
+            const chain = createChainContext({ ...environment, rpcUrl: node.url }, { account, accountName: 'treasury' });
+            const agent = new WalletAgent(chain);
+
+            expect(agent.getAddress()).toBe(signerKey.address);
+            expect(chain.accountName).toBe('treasury');
+            expect(chain.nonces?.address).toBe(signerKey.address);
+
+            const hash = await agent.sendNativeToken(recipient, '1.5');
+
+            expect(received).toHaveLength(1);
+            expect(hash).toBe(keccak256(received[0]));
+            expect(parseTransaction(received[0])).toMatchObject({ to: recipient.toLowerCase(), value: parseEther('1.5'), nonce: 3, chainId: kaia.id });
+            expect(await recoverTransactionAddress({ serializedTransaction: received[0] as TransactionSerializedEIP1559 })).toBe(signerKey.address);
+        });
+    });
+});
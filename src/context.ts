@@ -0,0 +1,125 @@
+import { createPublicClient, createWalletClient, http, Address, Chain, HttpTransport, PublicClient, WalletClient } from 'viem';
+import { privateKeyToAccount, type Account } from 'viem/accounts';
+import {
+    CHAIN_CONFIGS,
+    CHAIN_CONTRACTS,
+    TOKEN_CONFIGS,
+    networkConfigs,
+    type AgentMode,
+    type KiloLendMCPEnvironment,
+    type NetworkConfig,
+    type NetworkType,
+    type WatchAddress
+} from './config';
+import { NonceManager } from './agent/nonces';
+import { type FeePolicy } from './agent/fees';
+
+/**
+ * Runtime context of a server instance: the network it talks to, its clients, the signing
+ * account and the contracts and tokens of that network. Created in main() and passed to the
+ * WalletAgent and every tool handler instead of being built at import time
+ */
+
+export type KiloLendPublicClient = PublicClient<HttpTransport, Chain>;
+
+export type KiloLendWalletClient = WalletClient<HttpTransport, Chain, Account>;
+
+export interface NetworkInfo extends NetworkConfig {
+    name: string;
+}
+
+export interface TokenConfig {
+    name: string;
+    symbol: string;
+    decimals: number;
+    address: Address;
+}
+
+export interface ApiConfig {
+    baseUrl: string;
+    priceUrl: string;
+    // Request timeout in ms
+    timeout: number;
+}
+
+export interface ChainContext {
+    network: NetworkType;
+    networkInfo: NetworkInfo;
+    agentMode: AgentMode;
+    // Signing account; null when no private key is configured
+    account: Account | null;
+    // Name of the signing account, as selected with the tools' account argument
+    accountName: string | null;
+    publicClient: KiloLendPublicClient;
+    // Only available with a signing account
+    walletClient: KiloLendWalletClient | null;
+    // Serializes the account's sends and numbers them; only available with a signing account
+    nonces: NonceManager | null;
+    // Gas and fee settings of every send on this network; empty to use viem's estimates
+    feePolicy: FeePolicy;
+    // Addresses read tools can look up by label, without their keys
+    watchAddresses: readonly WatchAddress[];
+    // KiloLend, DEX and wrapped-token contracts of the network, by name (e.g. Comptroller, cUSDT)
+    contracts: Readonly<Record<string, Address>>;
+    tokens: readonly TokenConfig[];
+    api: ApiConfig;
+}
+
+// Replace parts of the context, e.g. fake clients in tests
+export type ChainContextOverrides = Partial<Pick<ChainContext, 'account' | 'accountName' | 'publicClient' | 'walletClient' | 'nonces'>>;
+
+export function accountFromPrivateKey(privateKey: string): Account {
+    const formattedPrivateKey = privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`;
+
+    // Validate that the private key is a valid hex string
+    if (!/^0x[0-9a-fA-F]{64}$/.test(formattedPrivateKey)) {
+        throw new Error(`Invalid private key format. Expected 64 hex characters (32 bytes), got: ${formattedPrivateKey.length - 2} characters`);
+    }
+
+    return privateKeyToAccount(formattedPrivateKey as `0x${string}`);
+}
+
+export function createChainContext(environment: KiloLendMCPEnvironment, overrides: ChainContextOverrides = {}): ChainContext {
+    const network = environment.network;
+    const networkInfo: NetworkInfo = {
+        ...networkConfigs[network],
+        name: CHAIN_CONFIGS[network].chainName,
+        rpcProviderUrl: environment.rpcUrl
+    };
+
+    const transport = http(environment.rpcUrl, {
+        timeout: environment.rpcTimeout,
+        retryCount: environment.rpcRetries
+    });
+
+    const account = overrides.account !== undefined
+        ? overrides.account
+        : environment.privateKey ? accountFromPrivateKey(environment.privateKey) : null;
+
+    const publicClient = overrides.publicClient ?? createPublicClient({ chain: networkInfo.chain, transport });
+
+    let walletClient = overrides.walletClient ?? null;
+    if (!walletClient && account) {
+        walletClient = createWalletClient({ account, chain: networkInfo.chain, transport });
+    }
+
+    return {
+        network,
+        networkInfo,
+        agentMode: environment.agentMode,
+        account,
+        accountName: account ? overrides.accountName ?? 'default' : null,
+        publicClient,
+        walletClient,
+        nonces: overrides.nonces ?? (walletClient ? new NonceManager(publicClient, walletClient) : null),
+        feePolicy: environment.fees[network] ?? {},
+        watchAddresses: environment.watchAddresses,
+        contracts: CHAIN_CONTRACTS[network],
+        tokens: TOKEN_CONFIGS[network],
+        api: {
+            baseUrl: environment.apiBaseUrl,
+            priceUrl: environment.priceUrl,
+            timeout: environment.apiTimeout
+        }
+    };
+}
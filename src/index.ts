@@ -1,47 +1,378 @@
 import 'dotenv/config';
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { startHttpTransport } from './server/http';
+import { loadApiTokens, authenticateRequest, hasScope, isLoopbackHost } from './server/auth';
+import { NetworkManager, parseNetwork } from './agent/networks';
+import { IntentStore } from './agent/intents';
+import { validateEnvironment, getEnvironmentConfig } from './config';
+import { formatEther, formatGwei, type Hex, type TransactionReceipt } from 'viem';
+import { type ChainContext } from './context';
+import { loadAccounts } from './signers';
+import { KiloLendReadOnlyTools, KiloLendWalletTools, KiloLendToolScopes } from './mcp';
+import { loadToolSelection, resolveToolSelection, type ToolKey } from './mcp/tool_selection';
+import { registerKiloLendResources } from './mcp/resources';
+import { registerKiloLendPrompts } from './mcp/prompts';
+import { SpendingPolicy } from './mcp/policy';
+import { AddressBook } from './mcp/address_book';
+import { AuthorizationError, ConfirmationRejectedError, PolicyViolationError, RecipientNotAllowedError } from './utils/errors';
+import { serializeValue } from './utils/serialization';
+import { logger } from './utils/logger';
+import {
+    type McpTool,
+    type ToolContext,
+    AccountArgumentSchema,
+    NetworkArgumentSchema,
+    ResultAccountSchema,
+    ResultChainSchema,
+    ResultFeePaidSchema
+} from './types';
+import { type BroadcastTransaction, type TransactionOptions } from './agent/progress';
+import { TransactionJournal } from './agent/journal';
 import { WalletAgent } from './agent/wallet';
-import { validateEnvironment, agentMode, getEnvironmentConfig } from './config';
-import { KiloLendReadOnlyTools, KiloLendWalletTools } from './mcp';
+
+// Human-readable summary of a tool result: its message, the chain it came from and the transaction to look up, if any
+function summarizeToolResult(result: Record<string, any>): string {
+    const lines = [result.message || 'Done', `Network: ${result.chain.name} (chain ${result.chain.chain_id})`];
+    const txHash = result.transaction_hash || result.transaction?.hash;
+    if (txHash) {
+        lines.push(`Transaction: ${txHash}`);
+    }
+    const explorerUrl = result.details?.explorer_url;
+    if (explorerUrl) {
+        lines.push(`Explorer: ${explorerUrl}`);
+    }
+    if (result.fee_paid) {
+        lines.push(`Fee paid: ${result.fee_paid.total} ${result.fee_paid.currency}`);
+    }
+    return lines.join('\n');
+}
+
+// Chain a tool ran on, added to every result
+function describeChain(chain: ChainContext) {
+    return {
+        network: chain.network,
+        name: chain.networkInfo.name,
+        chain_id: chain.networkInfo.chainId
+    };
+}
+
+// Gas paid by the transactions a tool call sent, from the receipts the call waited for; null when it
+// waited for none. Transactions it did not wait for are reported as pending, and those a transaction
+// with the same nonce took the place of as replaced
+function describeFeesPaid(chain: ChainContext, hashes: Hex[], receipts: Map<Hex, TransactionReceipt>) {
+    if (!hashes.some(hash => receipts.has(hash))) {
+        return null;
+    }
+
+    const transactions = hashes.map(hash => {
+        const receipt = receipts.get(hash);
+        if (!receipt) {
+            return { hash, status: 'pending' as const, gas_used: null, effective_gas_price_gwei: null, fee: null };
+        }
+        if (receipt.transactionHash !== hash) {
+            // Another transaction with the same nonce was mined; this one paid nothing
+            return { hash, status: 'replaced' as const, gas_used: null, effective_gas_price_gwei: null, fee: null };
+        }
+        return {
+            hash,
+            status: receipt.status === 'success' ? 'success' as const : 'failed' as const,
+            gas_used: receipt.gasUsed.toString(),
+            effective_gas_price_gwei: formatGwei(receipt.effectiveGasPrice),
+            fee: receipt.gasUsed * receipt.effectiveGasPrice
+        };
+    });
+
+    return {
+        total: formatEther(transactions.reduce((sum, transaction) => sum + (transaction.fee ?? 0n), 0n)),
+        currency: chain.networkInfo.nativeCurrency,
+        transactions: transactions.map(transaction => ({
+            ...transaction,
+            fee: transaction.fee === null ? null : formatEther(transaction.fee)
+        }))
+    };
+}
+
+// Tools whose amount argument is in the network's native currency
+const NATIVE_AMOUNT_TOOLS = new Set(['kilolend_send_native_token', 'wrap_native_token', 'universal_contract_write']);
+
+// Token and amount a tool call moves, from its arguments
+interface CallMovement {
+    token: string | null;
+    amount: string | null;
+}
+
+function describeCallMovement(agent: WalletAgent, tool: string, params: Record<string, any>): CallMovement {
+    if (params.intent_id !== undefined) {
+        // Executing an intent consumes it, so this runs before the call; an unknown intent sends nothing
+        try {
+            const [effect] = agent.getIntent(params.intent_id).effects;
+            return {
+                token: effect?.asset ?? null,
+                amount: effect && /^[+-]?\d/.test(effect.change) ? effect.change.replace(/^[+-]/, '') : null
+            };
+        } catch (error) {
+            return { token: null, amount: null };
+        }
+    }
+    return {
+        token: params.token_symbol ?? params.tokenIn ?? (NATIVE_AMOUNT_TOOLS.has(tool) ? agent.chain.networkInfo.nativeCurrency : null),
+        amount: params.amount ?? params.underlying_amount ?? params.amountIn ?? params.value ?? null
+    };
+}
+
+// Record a transaction sent by a tool call in the journal, with the token of the call, and its
+// amount and USD value on the transaction that moves the funds
+async function journalBroadcast(journal: TransactionJournal, agent: WalletAgent, tool: string, params: Record<string, any>, movement: CallMovement, transaction: BroadcastTransaction) {
+    const { chain } = agent;
+    const { token } = movement;
+    const amount = transaction.setup ? null : movement.amount;
+    const price: number = token && amount ? await agent.getTokenPrice(token) : 0;
+
+    journal.record({
+        hash: transaction.hash,
+        timestamp: new Date().toISOString(),
+        tool,
+        description: transaction.description,
+        params,
+        network: chain.network,
+        chainId: chain.networkInfo.chainId,
+        account: chain.accountName ?? null,
+        from: chain.account!.address,
+        token,
+        amount,
+        valueUSD: price > 0 ? price * parseFloat(amount!) : null,
+        setup: transaction.setup
+    }, chain.publicClient);
+}
+
+// Publish a tool's risk classification so clients can auto-approve reads and confirm writes
+function toToolAnnotations(tool: McpTool): ToolAnnotations {
+    return {
+        readOnlyHint: tool.metadata.readOnly,
+        destructiveHint: tool.metadata.destructive,
+        idempotentHint: tool.metadata.idempotent,
+        openWorldHint: tool.metadata.requiresNetwork
+    };
+}
+
+// Relay transaction stages as MCP progress notifications when the client sent a progress token,
+// and stop waiting for receipts when the request is cancelled. A tool may run several operations,
+// so progress is counted per call to keep it increasing
+function createTransactionOptions(extra: ToolContext['extra'], callbacks: Pick<TransactionOptions, 'onBroadcast' | 'onReceipt'>): TransactionOptions {
+    const progressToken = extra._meta?.progressToken;
+    let reported = 0;
+
+    return {
+        signal: extra.signal,
+        ...callbacks,
+        onProgress: progressToken === undefined ? undefined : progress => {
+            reported++;
+            return extra.sendNotification({
+                method: "notifications/progress",
+                params: {
+                    progressToken,
+                    progress: reported,
+                    total: progress.totalSteps === undefined ? undefined : reported + progress.totalSteps - progress.step,
+                    message: progress.message
+                }
+            });
+        }
+    };
+}
 
 /**
  * Creates an MCP server for KiloLend operations
  * Provides comprehensive wallet, lending, and DEX functionality
  */
 
-function createKiloLendMcpServer(agent: WalletAgent) {
+interface KiloLendServerOptions {
+    // Ask the user to confirm fund-moving actions via elicitation
+    confirmTransactions: boolean;
+    // Shared by every session, so rolling limits cover all clients
+    spendingPolicy: SpendingPolicy;
+    addressBook: AddressBook;
+    journal: TransactionJournal;
+    // Registry keys of the tools enabled for this deployment
+    enabledTools: ReadonlySet<ToolKey>;
+    // Credentials of the session, when the transport is authenticated
+    authInfo?: AuthInfo;
+}
+
+function createKiloLendMcpServer(networks: NetworkManager, options: KiloLendServerOptions) {
+    const { authInfo, enabledTools } = options;
+
+    // Network used by this session's calls without a network argument
+    let sessionNetwork = networks.defaultNetwork;
+    const defaultAgent = networks.getAgent();
 
     // Create MCP server instance
     const server = new McpServer({
         name: "kilolend-mcp",
         version: "1.0.0"
+    }, {
+        capabilities: { logging: {} }
     });
+    const detachLogger = logger.attach(server.server);
 
     // Get the appropriate tool sets based on agent mode
-    const kilolendTools = agentMode === 'transaction' ? KiloLendWalletTools : KiloLendReadOnlyTools;
+    const kilolendTools = defaultAgent.chain.agentMode === 'transaction' ? KiloLendWalletTools : KiloLendReadOnlyTools;
 
-    // Combine all tools
-    const allTools = { ...kilolendTools };
+    // Combine all tools, keeping those enabled for the deployment that the session's token is scoped for
+    const allTools = Object.fromEntries(
+        Object.entries(kilolendTools).filter(([toolKey]) =>
+            enabledTools.has(toolKey as ToolKey) &&
+            (!authInfo || hasScope(authInfo.scopes, KiloLendToolScopes[toolKey as keyof typeof KiloLendToolScopes]))
+        )
+    );
 
     // Register all tools
     for (const [toolKey, tool] of Object.entries(allTools)) {
-        server.tool(tool.name, tool.description, tool.schema, async (params: any): Promise<any> => {
+        const requiredScope = KiloLendToolScopes[toolKey as keyof typeof KiloLendToolScopes];
+
+        // Every tool can run on another network than the session's, and reports the chain it used,
+        // and every tool can act for any managed account
+        const inputSchema: Record<string, any> = {
+            ...tool.schema,
+            ...('network' in tool.schema ? {} : { network: NetworkArgumentSchema }),
+            ...('account' in tool.schema ? {} : { account: AccountArgumentSchema })
+        };
+        const outputSchema: Record<string, any> = {
+            ...tool.outputSchema,
+            chain: ResultChainSchema,
+            account: ResultAccountSchema,
+            fee_paid: ResultFeePaidSchema
+        };
+
+        server.registerTool(tool.name, {
+            description: tool.description,
+            inputSchema,
+            outputSchema,
+            annotations: toToolAnnotations(tool),
+            // Not covered by the standard annotations
+            _meta: { "kilolend/movesFunds": tool.metadata.movesFunds }
+        }, async (params: any, extra: any): Promise<any> => {
+            let network = sessionNetwork;
             try {
-                // Execute the handler with the agent and params
-                const result = await tool.handler(agent, params);
+                if (params.network !== undefined) {
+                    network = parseNetwork(params.network);
+                }
+                const agent = networks.getAgent(network, params.account ?? networks.defaultAccount);
+                logger.debug(`Calling tool ${tool.name}`, { tool: tool.name, network });
+
+                // Re-check the caller's scopes on every call for authenticated sessions
+                if (extra.authInfo && !hasScope(extra.authInfo.scopes, requiredScope)) {
+                    throw new AuthorizationError(tool.name, requiredScope);
+                }
+
+                // Execute the handler with the agent and params, then encode bigints,
+                // bytes and addresses so every result is plain JSON
+                const sent: Hex[] = [];
+                const receipts = new Map<Hex, TransactionReceipt>();
+                const movement = describeCallMovement(agent, tool.name, params);
+                const context: ToolContext = {
+                    server: server.server,
+                    extra,
+                    confirmTransactions: options.confirmTransactions,
+                    spendingPolicy: options.spendingPolicy,
+                    addressBook: options.addressBook,
+                    journal: options.journal,
+                    transactionOptions: createTransactionOptions(extra, {
+                        onBroadcast: transaction => {
+                            sent.push(transaction.hash);
+                            journalBroadcast(options.journal, agent, tool.name, params, movement, transaction).catch(error =>
+                                logger.error('Failed to record transaction in the journal', { tool: tool.name, network, txHash: transaction.hash, error })
+                            );
+                        },
+                        onReceipt: (txHash, receipt) => receipts.set(txHash, receipt)
+                    }),
+                    chain: agent.chain,
+                    switchNetwork: (nextNetwork) => {
+                        sessionNetwork = nextNetwork;
+                        return networks.getAgent(nextNetwork, agent.chain.accountName).chain;
+                    },
+                    networks,
+                    enabledTools
+                };
+                const result: Record<string, any> = {
+                    ...serializeValue(await tool.handler(agent, params, context)) as Record<string, any>,
+                    chain: describeChain(agent.chain),
+                    account: agent.chain.account ? { name: agent.chain.accountName, address: agent.chain.account.address } : null
+                };
+                if (sent.length > 0) {
+                    result.fee_paid = describeFeesPaid(agent.chain, sent, receipts);
+                }
+
+                const txHash = result.transaction_hash || result.transaction?.hash;
+                if (txHash) {
+                    logger.info(`${tool.name}: ${result.message || 'done'}`, { tool: tool.name, network, txHash });
+                }
 
-                // Format the result as MCP tool response
+                // Format the result as MCP tool response: a readable summary, the JSON for
+                // clients without structured output support, and the structured result itself
                 return {
                     content: [
+                        {
+                            type: "text",
+                            text: summarizeToolResult(result),
+                        },
                         {
                             type: "text",
                             text: JSON.stringify(result, null, 2),
                         },
                     ],
+                    structuredContent: result,
                 };
             } catch (error) {
-                console.error(`Tool execution error [${tool.name}]:`, error);
+                if (error instanceof AuthorizationError) {
+                    logger.warn(`Tool ${tool.name} denied`, { tool: tool.name, requiredScope: error.requiredScope });
+                    return {
+                        isError: true,
+                        content: [
+                            {
+                                type: "text",
+                                text: JSON.stringify({
+                                    error: {
+                                        code: error.code,
+                                        message: error.message,
+                                        tool: error.tool,
+                                        required_scope: error.requiredScope
+                                    }
+                                }, null, 2),
+                            },
+                        ],
+                    };
+                }
+
+                if (error instanceof ConfirmationRejectedError) {
+                    if (error instanceof PolicyViolationError) {
+                        logger.warn(`Tool ${tool.name} refused by spending policy`, { tool: tool.name, network, reason: error.reason });
+                    } else if (error instanceof RecipientNotAllowedError) {
+                        logger.warn(`Tool ${tool.name} refused by address book`, { tool: tool.name, network, reason: error.reason });
+                    } else {
+                        logger.info(`Tool ${tool.name} not confirmed`, { tool: tool.name, reason: error.reason });
+                    }
+                    return {
+                        isError: true,
+                        content: [
+                            {
+                                type: "text",
+                                text: JSON.stringify({
+                                    error: {
+                                        code: error.code,
+                                        message: error.message,
+                                        tool: error.tool,
+                                        reason: error.reason
+                                    }
+                                }, null, 2),
+                            },
+                        ],
+                    };
+                }
+
+                logger.error('Tool execution error', { tool: tool.name, network, error });
                 // Handle errors in MCP format
                 return {
                     isError: true,
@@ -59,46 +390,130 @@ function createKiloLendMcpServer(agent: WalletAgent) {
     }
 
     const toolCount = Object.keys(allTools).length;
-    console.error(`✅ Registered ${toolCount} KiloLend tools`);
+    logger.info(`✅ Registered ${toolCount} KiloLend tools`);
+
+    // Resources and prompts expose read-only data, so they follow the read scope
+    if (!authInfo || hasScope(authInfo.scopes, 'read')) {
+        const stopResourceUpdates = registerKiloLendResources(server, defaultAgent);
+        server.server.onclose = () => {
+            stopResourceUpdates();
+            detachLogger();
+        };
+        registerKiloLendPrompts(server, defaultAgent);
+    } else {
+        server.server.onclose = detachLogger;
+    }
+
     return server; 
 }
 
+// Active transport shutdown hook, set once the server is running
+let shutdownTransport: (() => Promise<void>) | null = null;
+
 async function main() {
     try {
-        console.error("🔍 Starting KiloLend MCP Server...");
+        logger.info("🔍 Starting KiloLend MCP Server...");
 
         // Validate environment before proceeding
         validateEnvironment();
         const environment = getEnvironmentConfig();
+        logger.configure({ defaults: { network: environment.network } });
 
-        // Create wallet agent instance with private key if available
-        const privateKey = environment.privateKey;
-        const walletAgent = new WalletAgent(privateKey); 
+        // Validate the tool selection against the registry before accepting any client
+        const enabledTools = resolveToolSelection(loadToolSelection());
+        if (enabledTools.size < Object.keys(KiloLendWalletTools).length) {
+            logger.info(`🧰 Tool selection: ${[...enabledTools].join(', ')}`);
+        }
+
+        // Unlock the signing accounts once (keystore, mnemonic or external signer), then build
+        // agents per network and account on first use
+        const accounts = await loadAccounts(environment);
+        for (const { name, account } of accounts) {
+            logger.info(`🔑 Account ${name}: ${account.address}${name === 'default' ? ` (${environment.signer!.type} signer)` : ''}`);
+        }
+        const networks = new NetworkManager(environment, accounts, new IntentStore(environment.intentTtlSeconds * 1000));
+        const spendingPolicy = new SpendingPolicy(environment.policy);
+        if (spendingPolicy.enabled) {
+            logger.info('🛡️ Spending policy enabled for fund-moving tools');
+        }
+        const journal = new TransactionJournal(environment.journalFile);
+        const addressBook = new AddressBook(environment.addressBook);
+        if (addressBook.size > 0) {
+            logger.info(`📇 Address book with ${addressBook.size} contact(s)`);
+        }
+        // Editing the address book would let a client allowlist any recipient, so it is opt-in
+        if (!addressBook.editable) {
+            enabledTools.delete('AddContactTool');
+            enabledTools.delete('RemoveContactTool');
+        }
+
+        // Create and start MCP server on the selected transport
+        if (environment.transport === 'http') {
+            const apiTokens = loadApiTokens();
+            if (apiTokens.length === 0 && !isLoopbackHost(environment.httpHost)) {
+                throw new Error(`HTTP transport on ${environment.httpHost} requires API tokens. Set MCP_AUTH_TOKENS or MCP_AUTH_TOKENS_FILE`);
+            }
+            if (apiTokens.length === 0) {
+                logger.warn('⚠️ HTTP transport running without authentication (loopback only)');
+            } else {
+                logger.info(`🔐 Bearer-token authentication enabled with ${apiTokens.length} API token(s)`);
+            }
 
-        // Create and start MCP server
-        const server = createKiloLendMcpServer(walletAgent);
-        const transport = new StdioServerTransport();
-        await server.connect(transport);
+            const httpTransport = await startHttpTransport(
+                (sessionAuth) => createKiloLendMcpServer(networks, {
+                    confirmTransactions: environment.confirmTransactions,
+                    spendingPolicy,
+                    addressBook,
+                    journal,
+                    enabledTools,
+                    authInfo: sessionAuth
+                }),
+                {
+                    host: environment.httpHost,
+                    port: environment.httpPort,
+                    authenticate: apiTokens.length > 0 ? (req) => authenticateRequest(req, apiTokens) : undefined
+                }
+            );
+            shutdownTransport = httpTransport.close;
+        } else {
+            const server = createKiloLendMcpServer(networks, {
+                confirmTransactions: environment.confirmTransactions,
+                spendingPolicy,
+                addressBook,
+                journal,
+                enabledTools
+            });
+            const transport = new StdioServerTransport();
+            await server.connect(transport);
+            shutdownTransport = () => server.close();
+        }
 
-        const totalTools = Object.keys(agentMode === 'transaction' ? KiloLendWalletTools : KiloLendReadOnlyTools).length
-        console.error(`✅ KiloLend MCP Server running with ${totalTools} tools`);
+        const totalTools = Object.keys(environment.agentMode === 'transaction' ? KiloLendWalletTools : KiloLendReadOnlyTools)
+            .filter(toolKey => enabledTools.has(toolKey as ToolKey)).length;
+        logger.info(`✅ KiloLend MCP Server running with ${totalTools} tools`);
 
     } catch (error) {
-        console.error('❌ Error starting KiloLend MCP server:', error);
+        logger.error('❌ Error starting KiloLend MCP server', { error });
         process.exit(1);
     }
 }
 
 // Handle shutdown gracefully
-process.on('SIGINT', async () => {
-    console.error('\n🛑 Shutting down KiloLend MCP Server...');
+async function shutdown() {
+    logger.info('🛑 Shutting down KiloLend MCP Server...');
+    try {
+        if (shutdownTransport) {
+            await shutdownTransport();
+        }
+    } catch (error) {
+        logger.error('❌ Error during shutdown', { error });
+    }
     process.exit(0);
-});
+}
 
-process.on('SIGTERM', async () => {
-    console.error('\n🛑 Shutting down KiloLend MCP Server...');
-    process.exit(0);
-});
+process.on('SIGINT', shutdown);
+
+process.on('SIGTERM', shutdown);
 
 // Start the server
 main();
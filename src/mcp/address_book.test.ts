@@ -0,0 +1,111 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { RecipientNotAllowedError, ValidationError } from '../utils/errors';
+import { AddressBook, type AddressBookConfig } from './address_book';
+
+const TREASURY = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const EXCHANGE = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const STRANGER = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+const TOOL = 'kilolend_send_erc20_token';
+
+function setup(config: Partial<AddressBookConfig> = {}) {
+    return new AddressBook({
+        allowlistOnly: false,
+        editable: true,
+        contacts: [
+            { name: 'Treasury', address: TREASURY.toLowerCase() },
+            { name: 'exchange', address: EXCHANGE, tokens: ['usdt', 'kaia'], maxAmounts: { usdt: 500 } }
+        ],
+        ...config
+    });
+}
+
+describe('AddressBook', () => {
+    describe('resolveRecipient', () => {
+        it('resolves contact names case-insensitively and contacts by address', () => {
+            const book = setup();
+
+            const byName = book.resolveRecipient(TOOL, ' treasury ', 'USDT', '10');
+            expect(byName).toEqual({ address: TREASURY, contact: expect.objectContaining({ name: 'Treasury' }), warning: null });
+            expect(book.resolveRecipient(TOOL, TREASURY.toLowerCase(), 'USDT', '10').contact?.name).toBe('Treasury');
+        });
+
+        it('holds contacts to their tokens and amount limits', () => {
+            const book = setup();
+
+            expect(book.resolveRecipient(TOOL, 'exchange', 'usdt', '500').address).toBe(EXCHANGE);
+            expect(() => book.resolveRecipient(TOOL, 'exchange', 'usdt', '500.01')).toThrow('exceeds the 500 usdt limit for contact exchange');
+            expect(() => book.resolveRecipient(TOOL, 'exchange', 'BORA', '1')).toThrow(RecipientNotAllowedError);
+            // No limit for KAIA
+            expect(book.resolveRecipient(TOOL, 'exchange', 'KAIA', '1000000').warning).toBeNull();
+        });
+
+        it('flags unknown recipients, or refuses them in allowlist-only mode', () => {
+            expect(setup().resolveRecipient(TOOL, STRANGER, 'USDT', '1')).toEqual({
+                address: STRANGER,
+                contact: null,
+                warning: `⚠️ ${STRANGER} is not in the address book`
+            });
+            expect(() => setup({ allowlistOnly: true }).resolveRecipient(TOOL, STRANGER, 'USDT', '1')).toThrow(RecipientNotAllowedError);
+            expect(setup({ allowlistOnly: true }).resolveRecipient(TOOL, 'treasury', 'USDT', '1').address).toBe(TREASURY);
+        });
+
+        it('refuses a name that is not a contact', () => {
+            expect(() => setup().resolveRecipient(TOOL, 'alice', 'USDT', '1')).toThrow(ValidationError);
+        });
+    });
+
+    describe('editing', () => {
+        let directory: string;
+        let file: string;
+
+        beforeEach(() => {
+            directory = mkdtempSync(join(tmpdir(), 'address-book-'));
+            file = join(directory, 'contacts.json');
+        });
+
+        afterEach(() => {
+            rmSync(directory, { recursive: true, force: true });
+        });
+
+        it('writes added and removed contacts to the file, without the configured ones', () => {
+            const book = setup({ file });
+
+            expect(book.add({ name: 'savings', address: STRANGER, label: 'Cold wallet' })).toBe(true);
+            expect(JSON.parse(readFileSync(file, 'utf8'))).toEqual([{ name: 'savings', address: STRANGER, label: 'Cold wallet' }]);
+            expect(book.resolveRecipient(TOOL, 'Savings', 'USDT', '1').address).toBe(STRANGER);
+
+            // A new instance loads the file
+            const reloaded = setup({ file });
+            expect(reloaded.list().find(contact => contact.name === 'savings')?.source).toBe('file');
+
+            expect(reloaded.remove('SAVINGS').address).toBe(STRANGER);
+            expect(JSON.parse(readFileSync(file, 'utf8'))).toEqual([]);
+            expect(reloaded.find('savings')).toBeNull();
+        });
+
+        it('refuses duplicate names and removing configured contacts', () => {
+            const book = setup({ file });
+
+            expect(() => book.add({ name: 'TREASURY', address: STRANGER })).toThrow('Contact TREASURY already exists');
+            expect(() => book.remove('treasury')).toThrow('cannot be removed here');
+            expect(() => book.remove('alice')).toThrow('Unknown contact: alice');
+        });
+
+        it('keeps edits in memory without a file', () => {
+            const book = setup();
+
+            expect(book.add({ name: 'savings', address: STRANGER })).toBe(false);
+            expect(book.size).toBe(3);
+        });
+
+        it('leaves the address book unchanged when the file cannot be written', () => {
+            writeFileSync(file, '[]\n');
+            const book = setup({ file: join(file, 'not-a-directory.json') });
+
+            expect(() => book.add({ name: 'savings', address: STRANGER })).toThrow();
+            expect(book.find('savings')).toBeNull();
+        });
+    });
+});
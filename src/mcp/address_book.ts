@@ -0,0 +1,199 @@
+// Address book
+// Named recipients for the transfer tools, with optional per-contact token and amount limits.
+// Unknown recipients are flagged, or refused in allowlist-only mode. Contacts come from the
+// configuration and, when set, a JSON file that kilolend_add_contact / kilolend_remove_contact edit
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { getAddress, isAddress, type Address } from "viem";
+import { RecipientNotAllowedError, ValidationError } from "../utils/errors";
+
+export interface Contact {
+    name: string;
+    address: string;
+    // Free-form description, e.g. "Exchange deposit"
+    label?: string;
+    // Token symbols this contact may receive; any token when unset
+    tokens?: string[];
+    // Largest amount per transfer, in token units, by token symbol
+    maxAmounts?: Record<string, number>;
+}
+
+export interface AddressBookConfig {
+    // Refuse transfers to addresses that are not contacts
+    allowlistOnly: boolean;
+    // Register kilolend_add_contact and kilolend_remove_contact
+    editable: boolean;
+    // JSON array of contacts, loaded at startup and written by the editing tools
+    file?: string;
+    contacts: Contact[];
+}
+
+export interface ResolvedRecipient {
+    address: Address;
+    contact: Contact | null;
+    // Set when the recipient is not in the address book
+    warning: string | null;
+}
+
+// Contacts from the configuration cannot be removed with kilolend_remove_contact
+export type ContactSource = 'config' | 'file';
+
+function normalizeContact(contact: Contact): Contact {
+    const name = contact.name?.trim();
+    if (!name) {
+        throw new ValidationError('Contact name is required', 'name');
+    }
+    if (isAddress(name)) {
+        throw new ValidationError(`Contact name ${name} is an address; use a name such as "treasury"`, 'name');
+    }
+    if (!contact.address || !isAddress(contact.address)) {
+        throw new ValidationError(`Invalid address for contact ${name}: ${contact.address}`, 'address');
+    }
+    for (const [symbol, amount] of Object.entries(contact.maxAmounts || {})) {
+        if (!(amount > 0)) {
+            throw new ValidationError(`Invalid ${symbol} limit for contact ${name}: ${amount}`, 'maxAmounts');
+        }
+    }
+
+    return {
+        name,
+        address: getAddress(contact.address),
+        ...(contact.label ? { label: contact.label } : {}),
+        ...(contact.tokens ? { tokens: contact.tokens.map(symbol => symbol.toUpperCase()) } : {}),
+        ...(contact.maxAmounts ? {
+            maxAmounts: Object.fromEntries(Object.entries(contact.maxAmounts).map(([symbol, amount]) => [symbol.toUpperCase(), amount]))
+        } : {})
+    };
+}
+
+// Recipient line of confirmations, e.g. "treasury (0x...)"
+export function describeRecipient(recipient: ResolvedRecipient): string {
+    return recipient.contact ? `${recipient.contact.name} (${recipient.address})` : recipient.address;
+}
+
+export class AddressBook {
+    private contacts = new Map<string, { contact: Contact; source: ContactSource }>();
+
+    constructor(private config: AddressBookConfig) {
+        for (const contact of config.contacts) {
+            this.insert(normalizeContact(contact), 'config');
+        }
+        if (config.file && existsSync(config.file)) {
+            const stored = JSON.parse(readFileSync(config.file, 'utf8'));
+            if (!Array.isArray(stored)) {
+                throw new Error(`Invalid address book file ${config.file}: expected an array of contacts`);
+            }
+            for (const contact of stored) {
+                this.insert(normalizeContact(contact), 'file');
+            }
+        }
+    }
+
+    get allowlistOnly(): boolean {
+        return this.config.allowlistOnly;
+    }
+
+    get editable(): boolean {
+        return this.config.editable;
+    }
+
+    get size(): number {
+        return this.contacts.size;
+    }
+
+    list(): (Contact & { source: ContactSource })[] {
+        return [...this.contacts.values()].map(({ contact, source }) => ({ ...contact, source }));
+    }
+
+    // Contact by name (case-insensitive) or address
+    find(nameOrAddress: string): Contact | null {
+        const byName = this.contacts.get(nameOrAddress.trim().toLowerCase());
+        if (byName) {
+            return byName.contact;
+        }
+        if (!isAddress(nameOrAddress)) {
+            return null;
+        }
+        const address = getAddress(nameOrAddress);
+        return [...this.contacts.values()].find(({ contact }) => contact.address === address)?.contact ?? null;
+    }
+
+    /**
+     * Address to send to for a contact name or an address. Throws RecipientNotAllowedError when
+     * the transfer breaks the contact's limits, or the recipient is unknown in allowlist-only mode
+     */
+    resolveRecipient(tool: string, recipient: string, tokenSymbol: string, amount: string): ResolvedRecipient {
+        const contact = this.find(recipient);
+        if (!contact) {
+            if (!isAddress(recipient)) {
+                throw new ValidationError(`Unknown recipient ${recipient}: not an address or a contact name`, 'to_address');
+            }
+            if (this.config.allowlistOnly) {
+                throw new RecipientNotAllowedError(tool, `${recipient} is not in the address book, and only contacts can receive transfers`);
+            }
+            return {
+                address: getAddress(recipient),
+                contact: null,
+                warning: `⚠️ ${recipient} is not in the address book`
+            };
+        }
+
+        const token = tokenSymbol.toUpperCase();
+        if (contact.tokens && !contact.tokens.includes(token)) {
+            throw new RecipientNotAllowedError(tool, `contact ${contact.name} may only receive ${contact.tokens.join(', ')}, not ${tokenSymbol}`);
+        }
+        const maxAmount = contact.maxAmounts?.[token];
+        if (maxAmount !== undefined && parseFloat(amount) > maxAmount) {
+            throw new RecipientNotAllowedError(tool, `${amount} ${tokenSymbol} exceeds the ${maxAmount} ${tokenSymbol} limit for contact ${contact.name}`);
+        }
+
+        return { address: contact.address as Address, contact, warning: null };
+    }
+
+    // Returns whether the contact was written to the address book file
+    add(contact: Contact): boolean {
+        const normalized = normalizeContact(contact);
+        if (this.contacts.has(normalized.name.toLowerCase())) {
+            throw new ValidationError(`Contact ${normalized.name} already exists`, 'name');
+        }
+        const contacts = new Map(this.contacts);
+        contacts.set(normalized.name.toLowerCase(), { contact: normalized, source: 'file' });
+        const saved = this.save(contacts);
+        this.contacts = contacts;
+        return saved;
+    }
+
+    remove(name: string): Contact {
+        const entry = this.contacts.get(name.trim().toLowerCase());
+        if (!entry) {
+            throw new ValidationError(`Unknown contact: ${name}`, 'name');
+        }
+        if (entry.source === 'config') {
+            throw new ValidationError(`Contact ${entry.contact.name} comes from the server configuration and cannot be removed here`, 'name');
+        }
+        const contacts = new Map(this.contacts);
+        contacts.delete(entry.contact.name.toLowerCase());
+        this.save(contacts);
+        this.contacts = contacts;
+        return entry.contact;
+    }
+
+    private insert(contact: Contact, source: ContactSource) {
+        const key = contact.name.toLowerCase();
+        if (this.contacts.has(key)) {
+            throw new Error(`Duplicate contact name: ${contact.name}`);
+        }
+        this.contacts.set(key, { contact, source });
+    }
+
+    // Writes the edited contacts before they replace the current ones, so a failed write leaves
+    // the address book as it was. Without a file, edits only last until the server restarts
+    private save(contacts: Map<string, { contact: Contact; source: ContactSource }>): boolean {
+        if (!this.config.file) {
+            return false;
+        }
+        const stored = [...contacts.values()].filter(({ source }) => source === 'file').map(({ contact }) => contact);
+        writeFileSync(this.config.file, `${JSON.stringify(stored, null, 2)}\n`);
+        return true;
+    }
+}
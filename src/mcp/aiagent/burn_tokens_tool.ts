@@ -1,8 +1,9 @@
 import { z } from 'zod';
-import { parseUnits, formatEther } from 'viem';
-import { publicClient, walletClient, agentMode } from '../../config';
+import { parseUnits, formatEther, encodeFunctionData } from 'viem';
 import { TransactionResult, KiloLendError, NetworkError, TransactionError, InsufficientBalanceError } from '../../types';
-import { McpTool } from '../../types';
+import { McpTool, ToolContext, TransactionResultSchema } from '../../types';
+import { ProgressTracker } from '../../agent/progress';
+import { feesForContract } from '../../agent/fees';
 
 // AIAgentToken ABI for burn function
 const AI_AGENT_TOKEN_ABI = [
@@ -38,7 +39,9 @@ const AI_AGENT_TOKEN_ABI = [
         "type": "function"
     },
     {
-        "inputs": [],
+        "inputs": [
+            {"internalType": "address", "name": "account", "type": "address"}
+        ],
         "name": "balanceOf",
         "outputs": [
             {"internalType": "uint256", "name": "", "type": "uint256"}
@@ -60,6 +63,13 @@ const AI_AGENT_TOKEN_ABI = [
 const BurnTokensTool: McpTool = {
     name: 'burn_ai_agent_tokens',
     description: 'Burn AI Agent tokens from the caller\'s wallet. Requires AI Agent burner role or Creator role.',
+    metadata: {
+        readOnly: false,
+        destructive: true,
+        movesFunds: true,
+        idempotent: false,
+        requiresNetwork: true
+    },
     schema: {
         tokenAddress: z.string()
             .regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid token address format')
@@ -75,9 +85,23 @@ const BurnTokensTool: McpTool = {
             .default(18)
             .describe('Token decimals (default: 18)'),
     },
-    handler: async (agent, input) => {
+    outputSchema: {
+        success: z.literal(true),
+        message: z.string(),
+        transaction: TransactionResultSchema,
+        details: z.object({
+            amount: z.string(),
+            amountWei: z.string(),
+            tokenAddress: z.string(),
+            decimals: z.number(),
+            role: z.enum(['AI Agent', 'Creator']),
+            network: z.string(),
+        }),
+    },
+    handler: async (agent, input, context: ToolContext) => {
+        const { publicClient, walletClient, nonces, agentMode } = context.chain;
         try {
-            if (agentMode === 'readonly') {
+            if (agentMode === 'readonly' || !walletClient) {
                 throw new KiloLendError('Cannot burn tokens in readonly mode. Please switch to transaction mode.');
             }
 
@@ -136,17 +160,22 @@ const BurnTokensTool: McpTool = {
                 }
 
                 // Execute burn transaction
-                const txHash = await walletClient.writeContract({
+                const tracker = new ProgressTracker(context.transactionOptions);
+                const request = {
                     address: tokenAddress as `0x${string}`,
                     abi: AI_AGENT_TOKEN_ABI,
                     functionName: 'burn',
                     args: [amountWei],
-                });
+                } as const;
+                const fees = await feesForContract(context.chain, request);
+                const txHash = await nonces!.send({ to: request.address, data: encodeFunctionData(request), ...fees });
+                await tracker.broadcast(txHash, `burn of ${amount} tokens of ${tokenAddress}`);
 
                 // Wait for transaction confirmation
                 const receipt = await publicClient.waitForTransactionReceipt({
                     hash: txHash,
                 });
+                await tracker.confirmed(txHash, receipt, `Mined in block ${receipt.blockNumber}`);
 
                 const result: TransactionResult = {
                     hash: txHash,
@@ -0,0 +1,147 @@
+// Confirmation of fund-moving actions
+// When confirmation mode is on, tools describe the action to the user through MCP elicitation
+// and only broadcast after the user accepts
+
+import { WalletAgent } from "../agent/wallet";
+import { type TransactionOptions } from "../agent/progress";
+import { type ToolContext } from "../types";
+import { ConfirmationRejectedError } from "../utils/errors";
+
+export interface FundMovement {
+    tool: string;
+    // What will happen, e.g. "Borrow 100 USDT from KiloLend"
+    action: string;
+    tokenSymbol: string;
+    amount: string;
+    // How the action changes the account's KiloLend position, if at all
+    positionEffect?: 'supply' | 'borrow' | 'withdraw';
+    // Extra lines for the summary, such as the recipient or minimum output
+    details?: Record<string, string>;
+    estimateFee: () => Promise<string | null>;
+}
+
+function formatHealthFactor(collateralUSD: number, borrowUSD: number): string {
+    return borrowUSD > 0 ? (collateralUSD / borrowUSD).toFixed(2) : 'no debt';
+}
+
+// Resulting health factor, using the same collateral / borrow ratio as getAccountLiquidity
+async function describeHealthFactor(agent: WalletAgent, movement: FundMovement, valueUSD: number): Promise<string> {
+    try {
+        const liquidity = await agent.getAccountLiquidity();
+        const collateralUSD = liquidity.totalCollateralUSD;
+        const borrowUSD = liquidity.totalBorrowUSD;
+        const before = formatHealthFactor(collateralUSD, borrowUSD);
+        const after = movement.positionEffect === 'supply'
+            ? formatHealthFactor(collateralUSD + valueUSD, borrowUSD)
+            : movement.positionEffect === 'withdraw'
+                ? formatHealthFactor(collateralUSD - valueUSD, borrowUSD)
+                : formatHealthFactor(collateralUSD, borrowUSD + valueUSD);
+        return `${before} → ${after}`;
+    } catch (error: any) {
+        return `unavailable (${error.message})`;
+    }
+}
+
+async function describeFundMovement(agent: WalletAgent, movement: FundMovement): Promise<string> {
+    const price: number = await agent.getTokenPrice(movement.tokenSymbol);
+    const valueUSD = price * parseFloat(movement.amount);
+
+    const [healthFactor, fee] = await Promise.all([
+        movement.positionEffect ? describeHealthFactor(agent, movement, valueUSD) : Promise.resolve(null),
+        movement.estimateFee()
+    ]);
+
+    const lines = [
+        `${movement.action} on ${agent.getNetwork()}`,
+        "",
+        `Amount: ${movement.amount} ${movement.tokenSymbol}`,
+        `Value: ${price > 0 ? `~$${valueUSD.toFixed(2)}` : 'unknown (no price available)'}`
+    ];
+    if (healthFactor) {
+        lines.push(`Health factor: ${healthFactor}`);
+    }
+    lines.push(`Estimated network fee: ${fee || 'unavailable'}`);
+    for (const [label, value] of Object.entries(movement.details || {})) {
+        lines.push(`${label}: ${value}`);
+    }
+    lines.push("", "Confirm to sign and broadcast this transaction.");
+
+    return lines.join('\n');
+}
+
+/**
+ * Asks the user to confirm an action described by `message` when confirmation mode is enabled
+ * Throws ConfirmationRejectedError unless the user explicitly accepts; clients without
+ * elicitation support cannot confirm, so their actions are always rejected
+ */
+export async function requestConfirmation(context: ToolContext, tool: string, message: string | (() => Promise<string>)): Promise<void> {
+    if (!context.confirmTransactions) {
+        return;
+    }
+
+    if (!context.server.getClientCapabilities()?.elicitation) {
+        throw new ConfirmationRejectedError(tool, 'confirmation is required but the MCP client does not support elicitation');
+    }
+
+    const result = await context.server.elicitInput({
+        message: typeof message === 'string' ? message : await message(),
+        requestedSchema: {
+            type: "object",
+            properties: {
+                confirm: {
+                    type: "boolean",
+                    title: "Broadcast transaction",
+                    description: "Sign and broadcast this transaction"
+                }
+            },
+            required: ["confirm"]
+        }
+    }, { signal: context.extra.signal });
+
+    if (result.action !== 'accept') {
+        throw new ConfirmationRejectedError(tool, `the user chose to ${result.action}`);
+    }
+    if (result.content?.confirm !== true) {
+        throw new ConfirmationRejectedError(tool, 'the user did not confirm');
+    }
+}
+
+/**
+ * Sends an action whose spend the policy recorded as `spendId`. When the send fails before any of
+ * its transactions was broadcast nothing was spent, so the spend is released; once one was
+ * broadcast it keeps counting, even if the action fails or is cancelled afterwards
+ */
+export async function sendRecordedSpend<T>(context: ToolContext, spendId: number | null, send: (options: TransactionOptions) => Promise<T>): Promise<T> {
+    let broadcast = false;
+    try {
+        return await send({
+            ...context.transactionOptions,
+            onBroadcast: transaction => {
+                broadcast = true;
+                context.transactionOptions.onBroadcast?.(transaction);
+            }
+        });
+    } catch (error) {
+        if (!broadcast) {
+            context.spendingPolicy.release(spendId);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Checks a fund-moving action against the spending policy, confirms it with its USD value,
+ * health factor impact and estimated fee, and then sends it with `send`. An action the user
+ * rejects, or that fails before anything was broadcast, does not count towards the policy's
+ * rolling limits
+ */
+export async function confirmFundMovement<T>(agent: WalletAgent, context: ToolContext, movement: FundMovement, send: (options: TransactionOptions) => Promise<T>): Promise<T> {
+    const spendId = await context.spendingPolicy.check(agent, movement);
+    try {
+        await requestConfirmation(context, movement.tool, () => describeFundMovement(agent, movement));
+    } catch (error) {
+        context.spendingPolicy.release(spendId);
+        throw error;
+    }
+    return sendRecordedSpend(context, spendId, send);
+}
@@ -1,39 +1,20 @@
 import { z } from 'zod';
-import { formatEther, parseEther, maxUint256 } from 'viem';
-import { publicClient, walletClient, network, getContractAddresses, getTokenConfigs, findTokenBySymbol, agentMode } from '../../config';
-import { TransactionResult, KiloLendError, NetworkError, TransactionError, InsufficientBalanceError } from '../../types';
-import { McpTool } from '../../types';
-import { ERC20_ABI } from '../../contracts/erc20';
-
-// Swap Router V2 ABI for executing swaps
-const SWAP_ROUTER_V2_ABI = [
-  {
-    inputs: [
-      {
-        components: [
-          { name: 'tokenIn', type: 'address' },
-          { name: 'tokenOut', type: 'address' },
-          { name: 'fee', type: 'uint24' },
-          { name: 'recipient', type: 'address' },
-          { name: 'deadline', type: 'uint256' },
-          { name: 'amountIn', type: 'uint256' },
-          { name: 'amountOutMinimum', type: 'uint256' },
-          { name: 'sqrtPriceLimitX96', type: 'uint160' }
-        ],
-        name: 'params',
-        type: 'tuple'
-      }
-    ],
-    name: 'exactInputSingle',
-    outputs: [{ name: 'amountOut', type: 'uint256' }],
-    stateMutability: 'payable',
-    type: 'function'
-  }
-] as const;
+import { parseUnits } from 'viem';
+import { WalletAgent } from '../../agent/wallet';
+import { McpTool, ToolContext, TransactionResult, TransactionResultSchema } from '../../types';
+import { KiloLendError, NetworkError, TransactionError, ValidationError } from '../../utils/errors';
+import { confirmFundMovement } from '../confirmation';
 
 const ExecuteSwapTool: McpTool = {
   name: 'execute_swap',
   description: 'Execute token swap on DEX (KAIA and KUB chains only)',
+  metadata: {
+    readOnly: false,
+    destructive: true,
+    movesFunds: true,
+    idempotent: false,
+    requiresNetwork: true,
+  },
   schema: {
     tokenIn: z.string().describe('Symbol of token to sell (e.g., "USDT", "WKAIA", "KLAW")'),
     tokenOut: z.string().describe('Symbol of token to buy (e.g., "USDT", "WKAIA", "KLAW")'),
@@ -42,153 +23,101 @@ const ExecuteSwapTool: McpTool = {
     slippageTolerance: z.string().optional().default('0.5').describe('Slippage tolerance in percentage (e.g., "0.5" for 0.5%)'),
     deadlineMinutes: z.number().optional().default(20).describe('Transaction deadline in minutes'),
   },
-  handler: async (agent, input) => {
+  outputSchema: {
+    success: z.literal(true),
+    message: z.string(),
+    transaction: TransactionResultSchema,
+    details: z.object({
+      tokenIn: z.object({
+        symbol: z.string(),
+        address: z.string(),
+        amount: z.string(),
+        amountWei: z.string(),
+      }),
+      tokenOut: z.object({
+        symbol: z.string(),
+        address: z.string(),
+        minimumAmount: z.string(),
+        minimumAmountWei: z.string(),
+      }),
+      swapDetails: z.object({
+        feeTier: z.string(),
+        slippageTolerance: z.string(),
+        deadlineMinutes: z.number(),
+        approvalTransaction: z.string().optional(),
+      }),
+      network: z.string(),
+      routerAddress: z.string().optional(),
+    }),
+  },
+  handler: async (agent: WalletAgent, input, context: ToolContext) => {
+    const { network, contracts } = context.chain;
     try {
-      if (agentMode === 'readonly') {
+      if (!agent.isTransactionMode()) {
         throw new KiloLendError('Cannot execute swaps in readonly mode. Please switch to transaction mode.');
       }
 
       // Check if DEX is supported on this network
-      if (network === 'etherlink') {
-        throw new KiloLendError('DEX operations are not supported on Etherlink network. Only KAIA and KUB chains support DEX swapping.');
+      if (!contracts.Router) {
+        throw new KiloLendError(`DEX operations are not supported on ${context.chain.networkInfo.name}. Only KAIA and KUB chains support DEX swapping.`);
       }
 
       const { tokenIn, tokenOut, amountIn, minimumAmountOut, slippageTolerance, deadlineMinutes } = input;
 
       // Validate inputs
       if (!tokenIn || !tokenOut || !amountIn || !minimumAmountOut) {
-        throw new KiloLendError('tokenIn, tokenOut, amountIn, and minimumAmountOut are required');
+        throw new ValidationError('tokenIn, tokenOut, amountIn, and minimumAmountOut are required');
       }
 
       if (parseFloat(amountIn) <= 0) {
-        throw new KiloLendError('Amount must be greater than 0');
+        throw new ValidationError('Amount must be greater than 0', 'amountIn');
       }
 
       if (parseFloat(minimumAmountOut) <= 0) {
-        throw new KiloLendError('Minimum amount out must be greater than 0');
-      }
-
-      if (tokenIn === tokenOut) {
-        throw new KiloLendError('tokenIn and tokenOut cannot be the same');
+        throw new ValidationError('Minimum amount out must be greater than 0', 'minimumAmountOut');
       }
 
       // Get token configurations
-      const tokenInConfig = findTokenBySymbol(network, tokenIn);
-      const tokenOutConfig = findTokenBySymbol(network, tokenOut);
+      const tokenInConfig = context.chain.tokens.find(token => token.symbol.toLowerCase() === tokenIn.toLowerCase());
+      const tokenOutConfig = context.chain.tokens.find(token => token.symbol.toLowerCase() === tokenOut.toLowerCase());
 
       if (!tokenInConfig) {
-        throw new KiloLendError(`Token ${tokenIn} not found on ${network} network`);
+        throw new ValidationError(`Token ${tokenIn} not found on ${network} network`, 'tokenIn');
       }
 
       if (!tokenOutConfig) {
-        throw new KiloLendError(`Token ${tokenOut} not found on ${network} network`);
+        throw new ValidationError(`Token ${tokenOut} not found on ${network} network`, 'tokenOut');
       }
 
-      // Get DEX contracts
-      const contracts = getContractAddresses(network) as any;
-      if (!contracts.SwapRouterV2) {
-        throw new KiloLendError(`SwapRouterV2 contract not configured for ${network} network`);
+      if (tokenInConfig.symbol === tokenOutConfig.symbol) {
+        throw new ValidationError('tokenIn and tokenOut cannot be the same', 'tokenOut');
       }
 
-      // Get wallet address
-      const walletAddress = walletClient.account.address;
-
-      // Parse amounts
-      const amountInWei = parseEther(amountIn);
-      const minimumAmountOutWei = parseEther(minimumAmountOut);
-
-      // Calculate deadline
-      const deadline = Math.floor(Date.now() / 1000) + (deadlineMinutes || 20) * 60;
-
-      // Check if input token is native token
-      const isNativeIn = tokenInConfig.address.toLowerCase() === '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee'.toLowerCase();
-      let approvalTx: string | undefined;
-
-      // If not native token, check balance and approve if needed
-      if (!isNativeIn) {
-        // Check token balance
-        const tokenBalance = await publicClient.readContract({
-          address: tokenInConfig.address as `0x${string}`,
-          abi: ERC20_ABI,
-          functionName: 'balanceOf',
-          args: [walletAddress],
-        });
-
-        if (tokenBalance < amountInWei) {
-          const balanceFormatted = formatEther(tokenBalance);
-          throw new InsufficientBalanceError(
-            `Insufficient ${tokenIn} balance. Available: ${balanceFormatted} ${tokenIn}, Required: ${amountIn} ${tokenIn}`
-          );
-        }
-
-        // Check allowance
-        const allowance = await publicClient.readContract({
-          address: tokenInConfig.address as `0x${string}`,
-          abi: ERC20_ABI,
-          functionName: 'allowance',
-          args: [walletAddress, contracts.SwapRouterV2],
-        });
-
-        // If allowance is insufficient, approve the router
-        if (allowance < amountInWei) {
-          approvalTx = await walletClient.writeContract({
-            address: tokenInConfig.address as `0x${string}`,
-            abi: ERC20_ABI,
-            functionName: 'approve',
-            args: [contracts.SwapRouterV2, maxUint256],
-          });
-
-          // Wait for approval transaction
-          await publicClient.waitForTransactionReceipt({
-            hash: approvalTx,
-          });
-        }
-      } else {
-        // Check native token balance
-        const nativeBalance = await publicClient.getBalance({ address: walletAddress });
-        
-        if (nativeBalance < amountInWei) {
-          const balanceFormatted = formatEther(nativeBalance);
-          throw new InsufficientBalanceError(
-            `Insufficient ${tokenIn} balance. Available: ${balanceFormatted} ${tokenIn}, Required: ${amountIn} ${tokenIn}`
-          );
-        }
-      }
-
-      // Execute the swap
-      const swapTx = await walletClient.writeContract({
-        address: contracts.SwapRouterV2 as `0x${string}`,
-        abi: SWAP_ROUTER_V2_ABI,
-        functionName: 'exactInputSingle',
-        args: [
-          {
-            tokenIn: tokenInConfig.address,
-            tokenOut: tokenOutConfig.address,
-            fee: 3000, // 0.3% fee tier
-            recipient: walletAddress,
-            deadline: BigInt(deadline),
-            amountIn: amountInWei,
-            amountOutMinimum: minimumAmountOutWei,
-            sqrtPriceLimitX96: 0n, // No price limit
-          }
-        ],
-        value: isNativeIn ? amountInWei : undefined,
-      });
-
-      // Wait for swap transaction confirmation
-      const receipt = await publicClient.waitForTransactionReceipt({
-        hash: swapTx,
-      });
+      // Confirm before the router approval, which is itself a transaction, and then send the
+      // approval, when the allowance is short, and the swap
+      const sent = await confirmFundMovement(agent, context, {
+        tool: 'execute_swap',
+        action: `Swap ${amountIn} ${tokenIn} for at least ${minimumAmountOut} ${tokenOut}`,
+        tokenSymbol: tokenIn,
+        amount: amountIn,
+        details: {
+          'Minimum received': `${minimumAmountOut} ${tokenOut}`,
+          'Slippage tolerance': `${slippageTolerance}%`,
+        },
+        estimateFee: () => agent.estimateActionFee({ type: 'swap', tokenIn, tokenOut, amountIn, minimumAmountOut, deadlineMinutes }),
+      }, options => agent.swapTokens(tokenIn, tokenOut, amountIn, minimumAmountOut, deadlineMinutes, options));
+      const swap = sent[sent.length - 1];
+      const receipt = swap.receipt!;
 
       const result: TransactionResult = {
-        hash: swapTx,
+        hash: swap.hash,
         status: receipt.status === 'success' ? 'success' : 'failed',
-        blockNumber: receipt.blockNumber ? Number(receipt.blockNumber) : undefined,
-        gasUsed: receipt.gasUsed ? receipt.gasUsed.toString() : undefined,
+        blockNumber: Number(receipt.blockNumber),
+        gasUsed: receipt.gasUsed.toString(),
       };
 
       if (result.status === 'failed') {
-        throw new TransactionError('Swap transaction failed');
+        throw new TransactionError('Swap transaction failed', swap.hash);
       }
 
       return {
@@ -197,30 +126,31 @@ const ExecuteSwapTool: McpTool = {
         transaction: result,
         details: {
           tokenIn: {
-            symbol: tokenIn,
+            symbol: tokenInConfig.symbol,
             address: tokenInConfig.address,
             amount: amountIn,
-            amountWei: amountInWei.toString()
+            amountWei: parseUnits(amountIn, tokenInConfig.decimals).toString()
           },
           tokenOut: {
-            symbol: tokenOut,
+            symbol: tokenOutConfig.symbol,
             address: tokenOutConfig.address,
             minimumAmount: minimumAmountOut,
-            minimumAmountWei: minimumAmountOutWei.toString()
+            minimumAmountWei: parseUnits(minimumAmountOut, tokenOutConfig.decimals).toString()
           },
           swapDetails: {
             feeTier: '0.3%',
             slippageTolerance: `${slippageTolerance}%`,
             deadlineMinutes: deadlineMinutes,
-            approvalTransaction: approvalTx
+            approvalTransaction: sent.length > 1 ? sent[0].hash : undefined
           },
           network: network,
-          routerAddress: contracts.SwapRouterV2
+          routerAddress: contracts.Router
         }
       };
 
     } catch (error) {
-      if (error instanceof KiloLendError || error instanceof NetworkError || error instanceof TransactionError || error instanceof InsufficientBalanceError) {
+      // Validation, balance, fee policy, confirmation and cancellation errors keep their type
+      if (error instanceof KiloLendError) {
         throw error;
       }
 
@@ -1,8 +1,8 @@
 import { z } from 'zod';
 import { formatEther, parseEther } from 'viem';
-import { publicClient, network, getContractAddresses, getTokenConfigs, findTokenBySymbol } from '../../config';
+import { getContractAddresses, getTokenConfigs, findTokenBySymbol } from '../../config';
 import { KiloLendError, NetworkError } from '../../types';
-import { McpTool } from '../../types';
+import { McpTool, ToolContext } from '../../types';
 
 // Quoter V2 ABI for getting swap quotes
 const QUOTER_V2_ABI = [
@@ -35,13 +35,49 @@ const QUOTER_V2_ABI = [
 const GetSwapQuoteTool: McpTool = {
   name: 'get_swap_quote',
   description: 'Get swap quote for token exchange (KAIA and KUB chains only)',
+  metadata: {
+    readOnly: true,
+    destructive: false,
+    movesFunds: false,
+    idempotent: true,
+    requiresNetwork: true,
+  },
   schema: {
     tokenIn: z.string().describe('Symbol of token to sell (e.g., "USDT", "WKAIA", "KLAW")'),
     tokenOut: z.string().describe('Symbol of token to buy (e.g., "USDT", "WKAIA", "KLAW")'),
     amountIn: z.string().describe('Amount of input tokens to sell (in human-readable format, e.g., "100.5")'),
     slippageTolerance: z.string().optional().default('0.5').describe('Slippage tolerance in percentage (e.g., "0.5" for 0.5%)'),
   },
-  handler: async (agent, input) => {
+  outputSchema: {
+    success: z.literal(true),
+    message: z.string(),
+    quote: z.object({
+      tokenIn: z.object({
+        symbol: z.string(),
+        address: z.string(),
+        decimals: z.number(),
+        amount: z.string(),
+        amountWei: z.string(),
+      }),
+      tokenOut: z.object({
+        symbol: z.string(),
+        address: z.string(),
+        decimals: z.number(),
+        expectedAmount: z.string(),
+        expectedAmountWei: z.string(),
+        minimumAmount: z.string(),
+      }),
+      swapDetails: z.object({
+        feeTier: z.string(),
+        slippageTolerance: z.string(),
+        priceImpact: z.string(),
+      }),
+      network: z.string(),
+      quoterAddress: z.string().optional(),
+    }),
+  },
+  handler: async (agent, input, context: ToolContext) => {
+    const { publicClient, network } = context.chain;
     try {
       // Check if DEX is supported on this network
       if (network === 'etherlink') {
@@ -1,7 +1,17 @@
 // Main MCP Tools Index
-// Organizes all tools by capability (read-only vs read-write)
+// Organizes all tools by capability (read-only vs read-write, from each tool's metadata)
 
 import { GetWalletInfoTool } from "./wallet/get_wallet_info_tool";
+import { SwitchNetworkTool } from "./wallet/switch_network_tool";
+import { GetPortfolioTool } from "./wallet/get_portfolio_tool";
+import { ListAccountsTool } from "./wallet/list_accounts_tool";
+import { ListContactsTool } from "./wallet/list_contacts_tool";
+import { GetTransactionHistoryTool } from "./wallet/get_transaction_history_tool";
+import { GetPendingTransactionsTool } from "./wallet/get_pending_transactions_tool";
+import { SpeedUpTransactionTool } from "./wallet/speed_up_transaction_tool";
+import { CancelTransactionTool } from "./wallet/cancel_transaction_tool";
+import { AddContactTool } from "./wallet/add_contact_tool";
+import { RemoveContactTool } from "./wallet/remove_contact_tool";
 import { SendNativeTokenTool } from "./wallet/send_native_token_tool";
 import { SendERC20TokenTool } from "./wallet/send_erc20_token_tool";
 import {
@@ -23,6 +33,9 @@ import { wrapTools } from "./wrap";
 import { dexTools } from "./dex";
 import { universalTools } from "./universal";
 import { aiagentTools } from "./aiagent";
+import { PrepareTransactionTool, ExecuteIntentTool } from "./intent";
+import { type ToolScope } from "../server/auth";
+import { type McpTool } from "../types";
 
 // Import individual wrap tools
 const WrapNativeTokenTool = wrapTools[0];
@@ -42,12 +55,22 @@ const BurnTokensTool = aiagentTools[0].tool;
 export const KiloLendWalletTools = {
     // Basic wallet information and account management (read-only)
     "GetWalletInfoTool": GetWalletInfoTool,                    // Get wallet address, balance, network info
+    "SwitchNetworkTool": SwitchNetworkTool,                    // Switch the session between KAIA, KUB and Etherlink
+    "GetPortfolioTool": GetPortfolioTool,                      // Wallet, collateral, debt and net worth across all networks
+    "ListAccountsTool": ListAccountsTool,                      // Managed accounts with balance and health factor
+    "ListContactsTool": ListContactsTool,                      // Address book of named transfer recipients
+    "GetTransactionHistoryTool": GetTransactionHistoryTool,    // Journal of broadcast transactions
+    "GetPendingTransactionsTool": GetPendingTransactionsTool,  // Sent but unmined transactions and nonce state
     "GetAccountLiquidityTool": GetAccountLiquidityTool,        // Check account health factor and positions
     "GetMarketsTool": GetMarketsTool,                          // Get all lending markets with rates
 
     // Transaction operations (require private key)
     "SendNativeTokenTool": SendNativeTokenTool,                // Send native KAIA tokens
     "SendERC20TokenTool": SendERC20TokenTool,                  // Send ERC-20 tokens
+    "AddContactTool": AddContactTool,                          // Add an address book contact (when editing is enabled)
+    "RemoveContactTool": RemoveContactTool,                    // Remove an address book contact (when editing is enabled)
+    "SpeedUpTransactionTool": SpeedUpTransactionTool,          // Resend a pending transaction with higher fees
+    "CancelTransactionTool": CancelTransactionTool,            // Replace a pending transaction with a zero-value self-transfer
     "CheckAllowanceTool": CheckAllowanceTool,                  // Check token allowance for operations
     "ApproveTokenTool": ApproveTokenTool,                      // Approve tokens for KiloLend operations
     "EnterMarketTool": EnterMarketTool,                        // Enter markets to enable collateral usage
@@ -68,6 +91,10 @@ export const KiloLendWalletTools = {
     "UniversalContractReadTool": UniversalContractReadTool,      // Execute read-only calls on any contract
     "UniversalContractWriteTool": UniversalContractWriteTool,    // Execute write calls on any contract
 
+    // Two-phase transactions (prepare and simulate, then broadcast)
+    "PrepareTransactionTool": PrepareTransactionTool,          // Build and simulate a write action into an intent
+    "ExecuteIntentTool": ExecuteIntentTool,                    // Broadcast a prepared intent before it expires
+
     // AI Agent Token operations
     "BurnTokensTool": BurnTokensTool,                          // Burn AI Agent tokens (requires AI Agent or Creator role)
 
@@ -77,20 +104,96 @@ export const KiloLendWalletTools = {
 
 };
 
-export const KiloLendReadOnlyTools = {
-    // Read-only operations
-    "GetWalletInfoTool": GetWalletInfoTool,
-    "GetAccountLiquidityTool": GetAccountLiquidityTool,
-    "GetMarketsTool": GetMarketsTool,
-
-    // Read-only DEX operations
-    "GetSwapQuoteTool": GetSwapQuoteTool,                      // Get swap quotes (read-only)
-
-    // Read-only universal operations
-    "UniversalContractReadTool": UniversalContractReadTool,      // Execute read-only calls on any contract
-
-    // Price API operations (read-only)
-    "GetNetworkPricesTool": GetNetworkPricesTool,              // Get prices for specific network
-    "GetAllPricesTool": GetAllPricesTool,                       // Get all available token prices
+// Read-only operations, derived from each tool's metadata
+export const KiloLendReadOnlyTools: Record<string, McpTool> = Object.fromEntries(
+    Object.entries(KiloLendWalletTools).filter(([, tool]) => tool.metadata.readOnly)
+);
+
+// Scope required to call each tool over an authenticated transport
+export const KiloLendToolScopes: Record<keyof typeof KiloLendWalletTools, ToolScope> = {
+    "GetWalletInfoTool": "read",
+    "SwitchNetworkTool": "read",
+    "GetPortfolioTool": "read",
+    "ListAccountsTool": "read",
+    "ListContactsTool": "read",
+    "GetTransactionHistoryTool": "read",
+    "GetPendingTransactionsTool": "read",
+    // Checked against the scope of the tool that sent the original transaction when replacing it
+    "SpeedUpTransactionTool": "read",
+    "CancelTransactionTool": "read",
+    "GetAccountLiquidityTool": "read",
+    "GetMarketsTool": "read",
+    "CheckAllowanceTool": "read",
+    "GetSwapQuoteTool": "read",
+    "UniversalContractReadTool": "read",
+    "GetNetworkPricesTool": "read",
+    "GetAllPricesTool": "read",
+    // Intents are checked against the scope of their action when executed
+    "PrepareTransactionTool": "read",
+    "ExecuteIntentTool": "read",
+
+    "ApproveTokenTool": "lend",
+    "EnterMarketTool": "lend",
+    "SupplyToMarketTool": "lend",
+    "BorrowFromMarketTool": "lend",
+    "RepayBorrowTool": "lend",
+    "RedeemUnderlyingTool": "lend",
+
+    "WrapNativeTokenTool": "swap",
+    "UnwrapNativeTokenTool": "swap",
+    "ExecuteSwapTool": "swap",
+
+    "SendNativeTokenTool": "transfer",
+    "SendERC20TokenTool": "transfer",
+
+    // Contacts decide who may receive transfers
+    "AddContactTool": "admin",
+    "RemoveContactTool": "admin",
+    "UniversalContractWriteTool": "admin",
+    "BurnTokensTool": "admin",
+};
 
-};
\ No newline at end of file
+export type ToolGroup = 'wallet' | 'kilolend' | 'dex' | 'wrap' | 'universal' | 'aiagent' | 'price';
+
+// Group of each tool, used to enable or disable tools per deployment (see tool_selection.ts)
+export const KiloLendToolGroups: Record<keyof typeof KiloLendWalletTools, ToolGroup> = {
+    "GetWalletInfoTool": "wallet",
+    "SwitchNetworkTool": "wallet",
+    "GetPortfolioTool": "wallet",
+    "ListAccountsTool": "wallet",
+    "ListContactsTool": "wallet",
+    "GetTransactionHistoryTool": "wallet",
+    "GetPendingTransactionsTool": "wallet",
+    "SpeedUpTransactionTool": "wallet",
+    "CancelTransactionTool": "wallet",
+    "AddContactTool": "wallet",
+    "RemoveContactTool": "wallet",
+    "SendNativeTokenTool": "wallet",
+    "SendERC20TokenTool": "wallet",
+
+    "GetAccountLiquidityTool": "kilolend",
+    "GetMarketsTool": "kilolend",
+    "CheckAllowanceTool": "kilolend",
+    "ApproveTokenTool": "kilolend",
+    "EnterMarketTool": "kilolend",
+    "SupplyToMarketTool": "kilolend",
+    "BorrowFromMarketTool": "kilolend",
+    "RepayBorrowTool": "kilolend",
+    "RedeemUnderlyingTool": "kilolend",
+    "PrepareTransactionTool": "kilolend",
+    "ExecuteIntentTool": "kilolend",
+
+    "WrapNativeTokenTool": "wrap",
+    "UnwrapNativeTokenTool": "wrap",
+
+    "GetSwapQuoteTool": "dex",
+    "ExecuteSwapTool": "dex",
+
+    "UniversalContractReadTool": "universal",
+    "UniversalContractWriteTool": "universal",
+
+    "BurnTokensTool": "aiagent",
+
+    "GetNetworkPricesTool": "price",
+    "GetAllPricesTool": "price",
+};
@@ -0,0 +1,46 @@
+// Intent actions and the tools that perform them directly
+// An intent may only do what the calling session could do with those tools: it needs the tool's
+// scope, and the tool has to be enabled on this server
+
+import { type IntentAction } from "../../agent/intents";
+import { type ToolScope } from "../../server/auth";
+import { type ToolContext } from "../../types";
+import { type ToolKey } from "../tool_selection";
+import { ValidationError } from "../../utils/errors";
+
+// Executing an intent needs the same scope as the tool that performs its action directly
+export const INTENT_ACTION_SCOPES: Record<IntentAction, ToolScope> = {
+    supply: 'lend',
+    borrow: 'lend',
+    repay: 'lend',
+    redeem: 'lend',
+    approve: 'lend',
+    enter_market: 'lend',
+    swap: 'swap',
+    wrap: 'swap',
+    unwrap: 'swap',
+    send_native: 'transfer',
+    send_erc20: 'transfer'
+};
+
+const INTENT_ACTION_TOOLS: Record<IntentAction, ToolKey> = {
+    supply: 'SupplyToMarketTool',
+    borrow: 'BorrowFromMarketTool',
+    repay: 'RepayBorrowTool',
+    redeem: 'RedeemUnderlyingTool',
+    approve: 'ApproveTokenTool',
+    enter_market: 'EnterMarketTool',
+    swap: 'ExecuteSwapTool',
+    wrap: 'WrapNativeTokenTool',
+    unwrap: 'UnwrapNativeTokenTool',
+    send_native: 'SendNativeTokenTool',
+    send_erc20: 'SendERC20TokenTool'
+};
+
+// Throws when the tool that performs `action` directly is disabled by the deployment's tool selection
+export function requireEnabledIntentAction(context: ToolContext, action: IntentAction) {
+    const tool = INTENT_ACTION_TOOLS[action];
+    if (!context.enabledTools.has(tool)) {
+        throw new ValidationError(`${action} is not available: ${tool} is disabled on this server`, 'action');
+    }
+}
@@ -0,0 +1,141 @@
+import { z } from "zod";
+import { decodeFunctionData, erc20Abi, maxUint256 } from "viem";
+import { WalletAgent } from "../../agent/wallet";
+import { type IntentAction, type TransactionIntent } from "../../agent/intents";
+import { hasScope } from "../../server/auth";
+import { type McpTool, type ToolContext, TransactionIntentSchema, TransactionResultSchema } from "../../types";
+import { requestConfirmation, sendRecordedSpend } from "../confirmation";
+import { type Spend } from "../policy";
+import { INTENT_ACTION_SCOPES, requireEnabledIntentAction } from "./actions";
+import { AuthorizationError, ConfirmationRejectedError } from "../../utils/errors";
+
+// Value an intent moves, for the spending policy: what leaves the wallet, is borrowed or is
+// withdrawn from KiloLend, or may be moved by a spender outside KiloLend. Repayments, wraps,
+// approvals of KiloLend contracts and market entries are not spending
+function intentSpend(agent: WalletAgent, intent: TransactionIntent): Spend | null {
+    const effect = (position: string) => intent.effects.find(candidate =>
+        candidate.position === position && candidate.change.startsWith(position === 'borrowed' ? '+' : '-')
+    );
+    const tool = "kilolend_execute_intent";
+
+    switch (intent.action) {
+        case 'supply':
+        case 'swap':
+        case 'send_native':
+        case 'send_erc20': {
+            const spent = effect('wallet');
+            if (!spent) {
+                return null;
+            }
+            return {
+                tool,
+                tokenSymbol: spent.asset,
+                amount: spent.change.substring(1),
+                positionEffect: intent.action === 'supply' ? 'supply' : undefined
+            };
+        }
+        case 'borrow': {
+            const borrowed = effect('borrowed');
+            return borrowed ? { tool, tokenSymbol: borrowed.asset, amount: borrowed.change.substring(1), positionEffect: 'borrow' } : null;
+        }
+        case 'redeem': {
+            const withdrawn = effect('supplied');
+            return withdrawn ? { tool, tokenSymbol: withdrawn.asset, amount: withdrawn.change.substring(1), positionEffect: 'withdraw' } : null;
+        }
+        case 'approve': {
+            const call = decodeFunctionData({ abi: erc20Abi, data: intent.transactions[0].data! });
+            const allowance = intent.effects.find(candidate => candidate.position === 'allowance');
+            if (call.functionName !== 'approve' || !allowance || agent.isProtocolSpender(call.args[0])) {
+                return null;
+            }
+            // An unlimited approval is checked as the largest possible amount
+            return { tool, tokenSymbol: allowance.asset, amount: allowance.change === 'max' ? maxUint256.toString() : allowance.change };
+        }
+        default:
+            return null;
+    }
+}
+
+function describeIntent(intent: TransactionIntent): string {
+    const lines = [
+        `${intent.summary} on ${intent.network}`,
+        "",
+        "Transactions:",
+        ...intent.transactions.map((tx, index) => `${index + 1}. ${tx.description}`),
+        "",
+        "Expected effects:",
+        ...intent.effects.map(effect => `- ${effect.asset} (${effect.position}): ${effect.change}${effect.note ? ` — ${effect.note}` : ''}`),
+        "",
+        `Estimated network fee: ${intent.estimatedFee || 'unavailable'}`,
+        "",
+        "Confirm to sign and broadcast these transactions."
+    ];
+    return lines.join('\n');
+}
+
+export const ExecuteIntentTool: McpTool = {
+    name: "kilolend_execute_intent",
+    description: "Broadcast a transaction intent created by kilolend_prepare_transaction, exactly as prepared. Each intent can be executed once and only before it expires",
+    metadata: {
+        readOnly: false,
+        destructive: true,
+        movesFunds: true,
+        idempotent: false,
+        requiresNetwork: true
+    },
+    schema: {
+        intent_id: z.string()
+            .describe("Intent ID returned by kilolend_prepare_transaction")
+    },
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        intent: TransactionIntentSchema,
+        transactions: z.array(TransactionResultSchema),
+        explorer_urls: z.array(z.string())
+    },
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
+        try {
+            if (!agent.isTransactionMode()) {
+                throw new Error('Transaction mode required. Configure private key in environment to enable transactions.');
+            }
+
+            const prepared = agent.getIntent(input.intent_id);
+
+            // The static 'read' scope of this tool only covers looking up the intent
+            const requiredScope = INTENT_ACTION_SCOPES[prepared.action];
+            if (context.extra.authInfo && !hasScope(context.extra.authInfo.scopes, requiredScope)) {
+                throw new AuthorizationError(`kilolend_execute_intent (${prepared.action})`, requiredScope);
+            }
+            // As at preparation, the action has to be one an enabled tool performs
+            requireEnabledIntentAction(context, prepared.action);
+
+            const spend = intentSpend(agent, prepared);
+            const spendId = spend ? await context.spendingPolicy.check(agent, spend) : null;
+            try {
+                await requestConfirmation(context, "kilolend_execute_intent", describeIntent(prepared));
+            } catch (error) {
+                context.spendingPolicy.release(spendId);
+                throw error;
+            }
+
+            const { intent, transactions } = await sendRecordedSpend(context, spendId, options => agent.executeIntent(input.intent_id, options));
+            const failed = transactions.filter(tx => tx.status === 'failed');
+
+            return {
+                status: "success",
+                message: failed.length === 0
+                    ? `✅ Executed: ${intent.summary}`
+                    : `⚠️ ${intent.summary}: ${failed.length} of ${transactions.length} transactions reverted`,
+                intent,
+                transactions,
+                explorer_urls: transactions.map(tx => `${context.chain.networkInfo.blockExplorer}/tx/${tx.hash}`)
+            };
+        } catch (error: any) {
+            if (error instanceof ConfirmationRejectedError || error instanceof AuthorizationError) {
+                throw error;
+            }
+            throw new Error(`Failed to execute intent: ${error.message}`);
+        }
+    }
+};
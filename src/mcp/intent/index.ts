@@ -0,0 +1,3 @@
+// Two-phase transactions: prepare and simulate first, broadcast later
+export { PrepareTransactionTool } from './prepare_transaction_tool';
+export { ExecuteIntentTool } from './execute_intent_tool';
@@ -0,0 +1,163 @@
+import { z } from "zod";
+import { isAddress, maxUint256 } from "viem";
+import { WalletAgent } from "../../agent/wallet";
+import { type McpTool, type ToolContext, TransactionIntentSchema } from "../../types";
+import { type ResolvedRecipient } from "../address_book";
+import { requireEnabledIntentAction } from "./actions";
+import { ConfirmationRejectedError, ValidationError } from "../../utils/errors";
+
+const INTENT_ACTIONS = [
+    'supply', 'borrow', 'repay', 'redeem', 'approve', 'enter_market',
+    'swap', 'wrap', 'unwrap', 'send_native', 'send_erc20'
+] as const;
+
+function requireParam(input: Record<string, any>, name: string, action: string): any {
+    if (input[name] === undefined || input[name] === '') {
+        throw new ValidationError(`${name} is required for ${action}`, name);
+    }
+    return input[name];
+}
+
+function requireAddress(input: Record<string, any>, name: string, action: string) {
+    const address = requireParam(input, name, action);
+    if (!isAddress(address)) {
+        throw new ValidationError(`Invalid ${name}: ${address}`, name);
+    }
+    return address;
+}
+
+export const PrepareTransactionTool: McpTool = {
+    name: "kilolend_prepare_transaction",
+    description: "Build and simulate a write action without broadcasting it. Returns an intent ID with the exact transactions, simulation results and expected effects; broadcast it later with kilolend_execute_intent before it expires",
+    metadata: {
+        readOnly: false,
+        destructive: false,
+        movesFunds: false,
+        idempotent: false,
+        requiresNetwork: true
+    },
+    schema: {
+        action: z.enum(INTENT_ACTIONS)
+            .describe("Action to prepare: supply, borrow, repay, redeem (by underlying amount), approve, enter_market, swap, wrap, unwrap, send_native or send_erc20"),
+        token_symbol: z.string()
+            .optional()
+            .describe("Token symbol for supply, borrow, repay, redeem, approve and send_erc20 (e.g., KAIA, USDT)"),
+        token_symbols: z.array(z.string())
+            .optional()
+            .describe("Markets to enter for enter_market (e.g., ['KAIA', 'USDT'])"),
+        amount: z.string()
+            .optional()
+            .describe("Amount in token units (e.g., '100', '0.5'); optional for repay (full borrow) and approve (unlimited)"),
+        to_address: z.string()
+            .optional()
+            .describe("Recipient address or address book contact name for send_native and send_erc20"),
+        spender_address: z.string()
+            .optional()
+            .describe("Spender address for approve"),
+        token_out: z.string()
+            .optional()
+            .describe("Token to buy for swap; token_symbol is the token to sell"),
+        minimum_amount_out: z.string()
+            .optional()
+            .describe("Minimum amount of token_out to receive for swap"),
+        deadline_minutes: z.number()
+            .int()
+            .positive()
+            .optional()
+            .default(20)
+            .describe("Swap deadline in minutes, counted from preparation (default: 20)")
+    },
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        intent: TransactionIntentSchema,
+        recommendations: z.array(z.string())
+    },
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
+        try {
+            if (!agent.isTransactionMode()) {
+                throw new Error('Transaction mode required. Configure private key in environment to enable transactions.');
+            }
+
+            const action = input.action as typeof INTENT_ACTIONS[number];
+            requireEnabledIntentAction(context, action);
+            const param = (name: string) => requireParam(input, name, action);
+
+            // Transfers go to an address book contact or a checked address
+            const recipients: ResolvedRecipient[] = [];
+            const resolveRecipient = (tokenSymbol: string) => {
+                const recipient = context.addressBook.resolveRecipient("kilolend_prepare_transaction", param('to_address'), tokenSymbol, param('amount'));
+                recipients.push(recipient);
+                return recipient.address;
+            };
+
+            let intent;
+            switch (action) {
+                case 'supply':
+                    intent = await agent.prepareSupply(param('token_symbol'), param('amount'));
+                    break;
+                case 'borrow':
+                    intent = await agent.prepareBorrow(param('token_symbol'), param('amount'));
+                    break;
+                case 'repay':
+                    intent = await agent.prepareRepay(param('token_symbol'), input.amount);
+                    break;
+                case 'redeem':
+                    intent = await agent.prepareRedeem(param('token_symbol'), param('amount'));
+                    break;
+                case 'approve': {
+                    const spender = requireAddress(input, 'spender_address', action);
+                    if (!agent.isProtocolSpender(spender)) {
+                        // As with kilolend_approve_token, spenders outside KiloLend are held to the address book
+                        recipients.push(context.addressBook.resolveRecipient("kilolend_prepare_transaction", spender, param('token_symbol'), input.amount || maxUint256.toString()));
+                    }
+                    intent = await agent.prepareApprove(param('token_symbol'), spender, input.amount);
+                    break;
+                }
+                case 'enter_market':
+                    intent = await agent.prepareEnterMarkets(param('token_symbols'));
+                    break;
+                case 'swap':
+                    intent = await agent.prepareSwap(param('token_symbol'), param('token_out'), param('amount'), param('minimum_amount_out'), input.deadline_minutes);
+                    break;
+                case 'wrap':
+                    intent = await agent.prepareWrap(param('amount'));
+                    break;
+                case 'unwrap':
+                    intent = await agent.prepareUnwrap(param('amount'));
+                    break;
+                case 'send_native':
+                    intent = await agent.prepareSendNative(resolveRecipient(context.chain.networkInfo.nativeCurrency), param('amount'));
+                    break;
+                case 'send_erc20':
+                    intent = await agent.prepareSendERC20(param('token_symbol'), resolveRecipient(param('token_symbol')), param('amount'));
+                    break;
+            }
+
+            const recommendations = [
+                `Review the transactions and expected effects, then call kilolend_execute_intent with intent_id ${intent.id} before ${intent.expiresAt}`,
+                "The intent is broadcast exactly as prepared; prepare a new one if balances, prices or allowances change"
+            ];
+            for (const recipient of recipients) {
+                if (recipient.warning) {
+                    recommendations.push(recipient.warning);
+                }
+            }
+            if (intent.transactions.some(tx => tx.simulation.status === 'depends_on_previous')) {
+                recommendations.push("Some transactions could not be simulated until the earlier ones are mined; they may still revert");
+            }
+
+            return {
+                status: "success",
+                message: `✅ Prepared: ${intent.summary}`,
+                intent,
+                recommendations
+            };
+        } catch (error: any) {
+            if (error instanceof ConfirmationRejectedError) {
+                throw error;
+            }
+            throw new Error(`Failed to prepare transaction: ${error.message}`);
+        }
+    }
+};
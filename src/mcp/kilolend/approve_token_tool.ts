@@ -1,10 +1,21 @@
 import { z } from "zod";
+import { maxUint256, type Address } from "viem";
 import { WalletAgent } from "../../agent/wallet";
-import { type McpTool } from "../../types";
+import { type McpTool, type ToolContext, NetworkSummarySchema } from "../../types";
+import { describeRecipient } from "../address_book";
+import { confirmFundMovement, requestConfirmation } from "../confirmation";
+import { ConfirmationRejectedError } from "../../utils/errors";
 
 export const ApproveTokenTool: McpTool = {
     name: "kilolend_approve_token",
-    description: "Approve token for KiloLend operations on any supported network",
+    description: "Approve token for KiloLend operations on any supported network. Spenders other than the KiloLend markets and the DEX router are held to the address book and the spending limits",
+    metadata: {
+        readOnly: false,
+        destructive: true,
+        movesFunds: true,
+        idempotent: true,
+        requiresNetwork: true
+    },
     schema: {
         token_symbol: z.string()
             .describe("Token symbol to approve (e.g., KAIA, USDT, KUB, XTZ, BORA, SIX, MBX, stKAIA)"),
@@ -15,7 +26,20 @@ export const ApproveTokenTool: McpTool = {
             .optional()
             .describe("Spender address to approve for (optional, defaults to cToken address for the token)")
     },
-    handler: async (agent: WalletAgent, input: Record<string, any>) => {
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        transaction_hash: z.string(),
+        details: z.object({
+            token_symbol: z.string(),
+            spender_address: z.string(),
+            amount: z.string(),
+            network: NetworkSummarySchema,
+            explorer_url: z.string()
+        }),
+        recommendations: z.array(z.string())
+    },
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
         try {
             if (!agent.isTransactionMode()) {
                 throw new Error('Transaction mode required. Configure private key in environment to enable transactions.');
@@ -24,13 +48,13 @@ export const ApproveTokenTool: McpTool = {
             const tokenSymbol = input.token_symbol.toUpperCase();
             
             // Get current network info for context
-            const networkInfo = agent.currentNetworkInfo;
+            const networkInfo = context.chain.networkInfo;
             
             // Default spender address logic - if not provided, we'll use the cToken address
             let spenderAddress = input.spender_address;
             if (!spenderAddress) {
                 // Get cToken addresses for current network to find the appropriate spender
-                const contracts = agent['getContractAddresses']();
+                const contracts = context.chain.contracts;
                 const cTokenKey = `c${tokenSymbol}`;
                 const cTokenAddress = contracts[cTokenKey as keyof typeof contracts];
                 
@@ -40,11 +64,32 @@ export const ApproveTokenTool: McpTool = {
                 spenderAddress = cTokenAddress as string;
             }
 
-            const txHash = await agent['approveToken'](
-                tokenSymbol,
-                spenderAddress as `0x${string}`,
-                input.amount
-            );
+            const spender = spenderAddress as Address;
+            let txHash: string;
+            if (agent.isProtocolSpender(spender)) {
+                await requestConfirmation(context, "kilolend_approve_token", [
+                    `Approve ${spender} to spend ${input.amount || 'unlimited'} ${tokenSymbol} on ${agent.getNetwork()}`,
+                    "",
+                    "Confirm to sign and broadcast this transaction."
+                ].join('\n'));
+                txHash = await agent.approveToken(tokenSymbol, spender, input.amount, context.transactionOptions);
+            } else {
+                // Any other spender can move the tokens, so the approval counts as sending them to it;
+                // an unlimited approval is checked as the largest possible amount
+                const amount = input.amount || maxUint256.toString();
+                const recipient = context.addressBook.resolveRecipient("kilolend_approve_token", spender, tokenSymbol, amount);
+                txHash = await confirmFundMovement(agent, context, {
+                    tool: "kilolend_approve_token",
+                    action: `Approve ${describeRecipient(recipient)} to spend ${input.amount || 'unlimited'} ${tokenSymbol}`,
+                    tokenSymbol,
+                    amount,
+                    details: {
+                        Spender: describeRecipient(recipient),
+                        ...(recipient.warning ? { Warning: recipient.warning } : {})
+                    },
+                    estimateFee: () => agent.estimateActionFee({ type: 'approve', tokenSymbol, spender, amount: input.amount })
+                }, options => agent.approveToken(tokenSymbol, spender, input.amount, options));
+            }
 
             return {
                 status: "success",
@@ -69,6 +114,9 @@ export const ApproveTokenTool: McpTool = {
                 ]
             };
         } catch (error: any) {
+            if (error instanceof ConfirmationRejectedError) {
+                throw error;
+            }
             throw new Error(`Failed to approve token: ${error.message}`);
         }
     }
@@ -1,10 +1,20 @@
 import { z } from "zod";
 import { WalletAgent } from "../../agent/wallet";
-import { type McpTool } from "../../types";
+import { type McpTool, type ToolContext, NetworkSummarySchema } from "../../types";
+import { logger } from "../../utils/logger";
+import { confirmFundMovement } from "../confirmation";
+import { ConfirmationRejectedError } from "../../utils/errors";
 
 export const BorrowFromMarketTool: McpTool = {
     name: "kilolend_borrow_from_lending",
     description: "Borrow tokens from a KiloLend lending market on any supported network",
+    metadata: {
+        readOnly: false,
+        destructive: false,
+        movesFunds: true,
+        idempotent: false,
+        requiresNetwork: true
+    },
     schema: {
         token_symbol: z.string()
             .describe("Token symbol to borrow (e.g., KAIA, USDT, KUB, XTZ, BORA, SIX, MBX, STAKED_KAIA)"),
@@ -15,14 +25,33 @@ export const BorrowFromMarketTool: McpTool = {
             .default(true)
             .describe("Check account liquidity before borrowing (default: true)")
     },
-    handler: async (agent: WalletAgent, input: Record<string, any>) => {
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        transaction_hash: z.string(),
+        details: z.object({
+            token_symbol: z.string(),
+            amount: z.string(),
+            ctoken_address: z.string(),
+            network: NetworkSummarySchema,
+            explorer_url: z.string()
+        }),
+        liquidity_before: z.object({
+            available_liquidity: z.string(),
+            health_factor: z.string(),
+            total_collateral_usd: z.string(),
+            total_borrow_usd: z.string()
+        }).nullable(),
+        recommendations: z.array(z.string())
+    },
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
         try {
             if (!agent.isTransactionMode()) {
                 throw new Error('Transaction mode required. Configure private key in environment to enable transactions.');
             }
 
             // Get current network info for context
-            const networkInfo = agent.currentNetworkInfo;
+            const networkInfo = context.chain.networkInfo;
             const checkLiquidity = input.check_liquidity !== false;
 
             const tokenSymbol = input.token_symbol.trim();
@@ -32,7 +61,7 @@ export const BorrowFromMarketTool: McpTool = {
             let resolvedToken = tokenSymbol;
 
             // Get contract addresses and try case-insensitive matching
-            const contracts = agent['getContractAddresses']();
+            const contracts = context.chain.contracts;
 
             // Try different cToken key variations
             let cTokenAddress = null;
@@ -86,11 +115,18 @@ export const BorrowFromMarketTool: McpTool = {
                         throw error;
                     }
                     // Continue if liquidity check fails for other reasons
-                    console.warn('Liquidity check failed, proceeding with borrow:', errorMsg);
+                    logger.warn('Liquidity check failed, proceeding with borrow', { tool: "kilolend_borrow_from_lending", error: errorMsg });
                 }
             }
 
-            const txHash = await agent.borrowFromMarket(tokenSymbol, amount);
+            const txHash = await confirmFundMovement(agent, context, {
+                tool: "kilolend_borrow_from_lending",
+                action: `Borrow ${amount} ${tokenSymbol} from KiloLend`,
+                tokenSymbol,
+                amount,
+                positionEffect: 'borrow',
+                estimateFee: () => agent.estimateActionFee({ type: 'borrow', tokenSymbol, amount })
+            }, options => agent.borrowFromMarket(tokenSymbol, amount, options));
 
             return {
                 status: "success",
@@ -122,6 +158,9 @@ export const BorrowFromMarketTool: McpTool = {
                 ]
             };
         } catch (error: any) {
+            if (error instanceof ConfirmationRejectedError) {
+                throw error;
+            }
             throw new Error(`Failed to borrow from market: ${error.message}`);
         }
     }
@@ -1,18 +1,47 @@
 import { z } from "zod";
 import { WalletAgent } from "../../agent/wallet";
-import { type McpTool } from "../../types";
+import { type McpTool, type ToolContext, NetworkSummarySchema } from "../../types";
 
 export const CheckAllowanceTool: McpTool = {
     name: "kilolend_check_allowance",
     description: "Check token allowance for KiloLend operations on any supported network",
+    metadata: {
+        readOnly: true,
+        destructive: false,
+        movesFunds: false,
+        idempotent: true,
+        requiresNetwork: true
+    },
     schema: {
         token_symbol: z.string()
             .describe("Token symbol to check allowance for (e.g., KAIA, USDT, KUB, XTZ, BORA, SIX, MBX, stKAIA)"),
         spender_address: z.string()
             .optional()
-            .describe("Spender address to check allowance for (optional, defaults to cToken address for the token)")
+            .describe("Spender address to check allowance for (optional, defaults to cToken address for the token)"),
+        address: z.string()
+            .optional()
+            .describe("Owner address or watched-address label (optional, defaults to the current wallet or the first watched address)")
+    },
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        details: z.object({
+            token_symbol: z.string(),
+            owner_address: z.string(),
+            spender_address: z.string(),
+            allowance: z.string(),
+            allowance_formatted: z.string(),
+            network: NetworkSummarySchema,
+            allowance_status: z.object({
+                has_allowance: z.boolean(),
+                is_max_allowance: z.boolean(),
+                needs_approval: z.boolean(),
+                sufficient_for_operations: z.string()
+            })
+        }),
+        recommendations: z.array(z.string())
     },
-    handler: async (agent: WalletAgent, input: Record<string, any>) => {
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
         try {
             const tokenSymbol = input.token_symbol.trim();
             
@@ -49,13 +78,13 @@ export const CheckAllowanceTool: McpTool = {
             }
             
             // Get current network info for context
-            const networkInfo = agent.currentNetworkInfo;
+            const networkInfo = context.chain.networkInfo;
             
             // Default spender address logic - if not provided, we'll use the cToken address
             let spenderAddress = input.spender_address;
             if (!spenderAddress) {
                 // Get cToken addresses for current network to find the appropriate spender
-                const contracts = agent['getContractAddresses']();
+                const contracts = context.chain.contracts;
                 
                 // Try to find cToken with case variations
                 let cTokenAddress = null;
@@ -85,7 +114,8 @@ export const CheckAllowanceTool: McpTool = {
                 spenderAddress = cTokenAddress as string;
             }
 
-            const allowance = await agent['checkAllowance'](resolvedToken, spenderAddress as `0x${string}`);
+            const ownerAddress = agent.resolveAddress(input.address);
+            const allowance = await agent.checkAllowance(resolvedToken, spenderAddress as `0x${string}`, ownerAddress);
 
             // Get token decimals for proper formatting
             const tokenDecimals = agent['getTokenDecimals'] ? agent['getTokenDecimals'](resolvedToken) : 18;
@@ -101,6 +131,7 @@ export const CheckAllowanceTool: McpTool = {
                 message: `✅ Allowance checked successfully`,
                 details: {
                     token_symbol: resolvedToken,
+                    owner_address: ownerAddress,
                     spender_address: spenderAddress,
                     allowance: allowance,
                     allowance_formatted: allowanceFormatted.toString(),
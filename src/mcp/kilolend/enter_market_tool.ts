@@ -1,10 +1,17 @@
 import { z } from "zod";
 import { WalletAgent } from "../../agent/wallet";
-import { type McpTool } from "../../types";
+import { type McpTool, type ToolContext, NetworkSummarySchema } from "../../types";
 
 export const EnterMarketTool: McpTool = {
     name: "kilolend_enter_market",
     description: "Enter KiloLend markets to enable collateral usage on any supported network",
+    metadata: {
+        readOnly: false,
+        destructive: false,
+        movesFunds: false,
+        idempotent: true,
+        requiresNetwork: true
+    },
     schema: {
         token_symbols: z.array(z.string())
             .describe("Array of token symbols to enter markets for (e.g., ['KAIA', 'USDT', 'KUB', 'XTZ', 'BORA', 'SIX', 'MBX', 'stKAIA'])"),
@@ -13,7 +20,28 @@ export const EnterMarketTool: McpTool = {
             .default(true)
             .describe("Check current market membership before entering (default: true)")
     },
-    handler: async (agent: WalletAgent, input: Record<string, any>) => {
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        // Absent when every requested market was already entered
+        transaction_hash: z.string().optional(),
+        details: z.object({
+            markets_entered: z.array(z.object({
+                token_symbol: z.string(),
+                ctoken_address: z.string()
+            })).optional(),
+            membership_status: z.array(z.object({
+                token_symbol: z.string(),
+                ctoken_address: z.string(),
+                is_member: z.boolean(),
+                error: z.string().optional()
+            })),
+            network: NetworkSummarySchema,
+            explorer_url: z.string().optional()
+        }),
+        recommendations: z.array(z.string())
+    },
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
         try {
             if (!agent.isTransactionMode()) {
                 throw new Error('Transaction mode required. Configure private key in environment to enable transactions.');
@@ -23,10 +51,10 @@ export const EnterMarketTool: McpTool = {
             const checkMembership = input.check_membership !== false;
 
             // Get current network info for context
-            const networkInfo = agent.currentNetworkInfo;
+            const networkInfo = context.chain.networkInfo;
 
             // Get cToken addresses for all tokens on current network
-            const contracts = agent['getContractAddresses']();
+            const contracts = context.chain.contracts;
             const cTokenAddresses: string[] = [];
             const membershipStatus: any[] = [];
             const unavailableTokens: string[] = [];
@@ -99,7 +127,7 @@ export const EnterMarketTool: McpTool = {
                 };
             }
 
-            const txHash = await agent['enterMarkets'](cTokenAddresses as `0x${string}`[]);
+            const txHash = await agent['enterMarkets'](cTokenAddresses as `0x${string}`[], context.transactionOptions);
 
             return {
                 status: "success",
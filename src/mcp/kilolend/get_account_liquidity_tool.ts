@@ -1,31 +1,60 @@
 import { z } from "zod";
 import { WalletAgent } from "../../agent/wallet";
-import { type McpTool } from "../../types";
+import { type McpTool, type ToolContext, NetworkSummarySchema, AccountPositionSchema } from "../../types";
 
 export const GetAccountLiquidityTool: McpTool = {
     name: "kilolend_get_account_liquidity",
     description: "Check account liquidity, health factor, and borrowing capacity on KiloLend for any supported network",
+    metadata: {
+        readOnly: true,
+        destructive: false,
+        movesFunds: false,
+        idempotent: true,
+        requiresNetwork: true
+    },
     schema: {
+        address: z.string()
+            .optional()
+            .describe("Address or watched-address label to check (optional, defaults to the current wallet or the first watched address)"),
         account_address: z.string()
             .optional()
-            .describe("Account address to check (optional, defaults to current wallet)")
+            .describe("Same as address, kept for existing clients")
+    },
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        account_address: z.string(),
+        label: z.string().nullable().describe("Label of the address when it is watched"),
+        network: NetworkSummarySchema,
+        liquidity_info: z.object({
+            liquidity: z.string(),
+            shortfall: z.string(),
+            health_factor: z.string(),
+            can_borrow: z.boolean(),
+            at_risk_liquidation: z.boolean(),
+            is_healthy: z.boolean(),
+            total_collateral_usd: z.string(),
+            total_borrow_usd: z.string(),
+            utilization_rate: z.string()
+        }),
+        positions: z.array(AccountPositionSchema),
+        risk_analysis: z.object({
+            risk_level: z.enum(['CRITICAL', 'HIGH', 'MEDIUM', 'LOW']),
+            liquidation_threshold: z.string(),
+            recommended_health_factor: z.string(),
+            safe_borrowing_capacity: z.string()
+        }),
+        recommendations: z.array(z.string())
     },
-    handler: async (agent: WalletAgent, input: Record<string, any>) => {
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
         try {
-            // Get the account address - use provided address or get from wallet
-            let accountAddress = input.account_address;
-            if (!accountAddress) {
-                const walletAddress = agent.getAddress();
-                if (!walletAddress) {
-                    throw new Error('No account address provided and no wallet available. Please provide account_address or configure private key in environment.');
-                }
-                accountAddress = walletAddress;
-            }
+            // Get the account address - provided address or label, else the wallet or watched address
+            const accountAddress = agent.resolveAddress(input.address || input.account_address);
 
             // Get current network info for context
-            const networkInfo = agent.currentNetworkInfo;
+            const networkInfo = context.chain.networkInfo;
             
-            const liquidityInfo = await agent.getAccountLiquidity(accountAddress as any);
+            const liquidityInfo = await agent.getAccountLiquidity(accountAddress);
 
             // Calculate additional metrics
             const liquidity = Number(liquidityInfo.liquidity);
@@ -47,6 +76,7 @@ export const GetAccountLiquidityTool: McpTool = {
                 status: "success",
                 message: "✅ Account liquidity information retrieved",
                 account_address: accountAddress,
+                label: agent.getAddressLabel(accountAddress),
                 network: {
                     name: networkInfo.name || 'Unknown',
                     chain_id: networkInfo.chainId,
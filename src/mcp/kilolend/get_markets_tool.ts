@@ -1,10 +1,17 @@
 import { z } from "zod";
 import { WalletAgent } from "../../agent/wallet";
-import { type McpTool } from "../../types";
+import { type McpTool, type ToolContext, NetworkSummarySchema, MarketInfoSchema } from "../../types";
 
 export const GetMarketsTool: McpTool = {
     name: "kilolend_get_lending_markets",
     description: "Get all lending markets on KiloLend with their current rates and statistics for any supported network",
+    metadata: {
+        readOnly: true,
+        destructive: false,
+        movesFunds: false,
+        idempotent: true,
+        requiresNetwork: true
+    },
     schema: {
         sort_by: z.enum(['supply_apy', 'borrow_apy', 'total_supply', 'total_borrows', 'utilization_rate'])
             .optional()
@@ -18,10 +25,32 @@ export const GetMarketsTool: McpTool = {
             .default(true)
             .describe("Filter to show only active markets (optional, default: true)")
     },
-    handler: async (agent: WalletAgent, input: Record<string, any>) => {
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        network: NetworkSummarySchema,
+        markets: z.array(MarketInfoSchema),
+        summary: z.object({
+            total_markets: z.number(),
+            avg_supply_apy: z.string(),
+            avg_borrow_apy: z.string(),
+            highest_supply_apy: z.object({ market: z.string(), apy: z.string() }),
+            highest_borrow_apy: z.object({ market: z.string(), apy: z.string() }),
+            total_tvl_usd: z.string(),
+            total_borrows_usd: z.string(),
+            avg_utilization_rate: z.string()
+        }),
+        market_analysis: z.object({
+            best_for_supplying: z.array(z.object({ market: z.string(), apy: z.string(), utilization: z.string() })),
+            best_for_borrowing: z.array(z.object({ market: z.string(), apy: z.string(), utilization: z.string() })),
+            high_utilization_markets: z.array(z.object({ market: z.string(), utilization: z.string(), supply_apy: z.string() }))
+        }),
+        recommendations: z.array(z.string())
+    },
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
         try {
             // Get current network info for context
-            const networkInfo = agent.currentNetworkInfo;
+            const networkInfo = context.chain.networkInfo;
             
             // Use getAllMarkets method which already fetches all market data
             let markets = await agent.getAllMarkets();
@@ -1,10 +1,20 @@
 import { z } from "zod";
 import { WalletAgent } from "../../agent/wallet";
-import { type McpTool } from "../../types";
+import { type McpTool, type ToolContext, NetworkSummarySchema } from "../../types";
+import { confirmFundMovement } from "../confirmation";
+import { ConfirmationRejectedError } from "../../utils/errors";
+import { logger } from "../../utils/logger";
 
 export const RedeemUnderlyingTool: McpTool = {
     name: "kilolend_redeem_underlying",
     description: "Redeem underlying tokens from a KiloLend lending market on any supported network (specify underlying token amount)",
+    metadata: {
+        readOnly: false,
+        destructive: false,
+        movesFunds: true,
+        idempotent: false,
+        requiresNetwork: true
+    },
     schema: {
         token_symbol: z.string()
             .describe("Token symbol to redeem (e.g., KAIA, USDT, KUB, XTZ, BORA, SIX, MBX, stKAIA)"),
@@ -15,7 +25,34 @@ export const RedeemUnderlyingTool: McpTool = {
             .default(true)
             .describe("Check if sufficient underlying tokens can be redeemed (default: true)")
     },
-    handler: async (agent: WalletAgent, input: Record<string, any>) => {
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        transaction_hash: z.string(),
+        details: z.object({
+            token_symbol: z.string(),
+            ctoken_symbol: z.string(),
+            underlying_amount: z.string(),
+            ctoken_address: z.string(),
+            network: NetworkSummarySchema,
+            explorer_url: z.string()
+        }),
+        balance_info: z.object({
+            ctoken_balance: z.string(),
+            ctoken_formatted: z.string(),
+            max_underlying_redeemable: z.string(),
+            exchange_rate: z.string(),
+            token_decimals: z.number()
+        }).nullable(),
+        market_data: z.object({
+            exchange_rate: z.string(),
+            total_supply: z.string(),
+            total_borrows: z.string(),
+            cash: z.string()
+        }).nullable(),
+        recommendations: z.array(z.string())
+    },
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
         try {
             if (!agent.isTransactionMode()) {
                 throw new Error('Transaction mode required. Configure private key in environment to enable transactions.');
@@ -26,10 +63,10 @@ export const RedeemUnderlyingTool: McpTool = {
             const checkBalance = input.check_balance !== false;
 
             // Get current network info for context
-            const networkInfo = agent.currentNetworkInfo;
+            const networkInfo = context.chain.networkInfo;
 
             // Verify token is available on current network
-            const contracts = agent['getContractAddresses']();
+            const contracts = context.chain.contracts;
             const cTokenKey = `c${tokenSymbol}`;
             const cTokenAddress = contracts[cTokenKey as keyof typeof contracts];
             
@@ -84,11 +121,18 @@ export const RedeemUnderlyingTool: McpTool = {
                         throw error;
                     }
                     // Continue if balance check fails for other reasons
-                    console.warn('Balance check failed, proceeding with redemption:', errorMsg);
+                    logger.warn('Balance check failed, proceeding with redemption', { tool: "kilolend_redeem_underlying", error: errorMsg });
                 }
             }
             
-            const txHash = await agent.redeemUnderlying(tokenSymbol, underlyingAmount);
+            const txHash = await confirmFundMovement(agent, context, {
+                tool: "kilolend_redeem_underlying",
+                action: `Redeem ${underlyingAmount} ${tokenSymbol} from KiloLend`,
+                tokenSymbol,
+                amount: underlyingAmount,
+                positionEffect: 'withdraw',
+                estimateFee: () => agent.estimateActionFee({ type: 'redeem', tokenSymbol, amount: underlyingAmount })
+            }, options => agent.redeemUnderlying(tokenSymbol, underlyingAmount, options));
 
             return {
                 status: "success",
@@ -129,6 +173,9 @@ export const RedeemUnderlyingTool: McpTool = {
                 ]
             };
         } catch (error: any) {
+            if (error instanceof ConfirmationRejectedError) {
+                throw error;
+            }
             throw new Error(`Failed to redeem underlying tokens: ${error.message}`);
         }
     }
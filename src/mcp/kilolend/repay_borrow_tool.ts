@@ -1,10 +1,18 @@
 import { z } from "zod";
 import { WalletAgent } from "../../agent/wallet";
-import { type McpTool } from "../../types";
+import { type McpTool, type ToolContext, NetworkSummarySchema } from "../../types";
+import { logger } from "../../utils/logger";
 
 export const RepayBorrowTool: McpTool = {
     name: "kilolend_repay_lending",
     description: "Repay borrowed tokens to a KiloLend lending market on any supported network",
+    metadata: {
+        readOnly: false,
+        destructive: false,
+        movesFunds: true,
+        idempotent: false,
+        requiresNetwork: true
+    },
     schema: {
         token_symbol: z.string()
             .describe("Token symbol to repay (e.g., KAIA, USDT, KUB, XTZ, BORA, SIX, MBX, stKAIA)"),
@@ -16,7 +24,30 @@ export const RepayBorrowTool: McpTool = {
             .default(true)
             .describe("Check token balance before repaying (default: true)")
     },
-    handler: async (agent: WalletAgent, input: Record<string, any>) => {
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        transaction_hash: z.string(),
+        details: z.object({
+            token_symbol: z.string(),
+            ctoken_address: z.string(),
+            repayment_amount: z.string(),
+            network: NetworkSummarySchema,
+            explorer_url: z.string()
+        }),
+        borrow_before: z.object({
+            current_borrow: z.string(),
+            borrow_value_usd: z.string(),
+            symbol: z.string()
+        }).nullable(),
+        balance_info: z.object({
+            token_balance: z.string(),
+            balance_formatted: z.string(),
+            token_decimals: z.number()
+        }).nullable(),
+        recommendations: z.array(z.string())
+    },
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
         try {
             if (!agent.isTransactionMode()) {
                 throw new Error('Transaction mode required. Configure private key in environment to enable transactions.');
@@ -30,7 +61,7 @@ export const RepayBorrowTool: McpTool = {
             let resolvedToken = tokenSymbol;
 
             // Get contract addresses and try case-insensitive matching
-            const contracts = agent['getContractAddresses']();
+            const contracts = context.chain.contracts;
 
             // Try different cToken key variations
             let cTokenAddress = null;
@@ -61,7 +92,7 @@ export const RepayBorrowTool: McpTool = {
             }
 
             // Get current network info for context
-            const networkInfo = agent.currentNetworkInfo;
+            const networkInfo = context.chain.networkInfo;
 
             // Get user's current borrow position
             let borrowInfo = null;
@@ -110,9 +141,8 @@ export const RepayBorrowTool: McpTool = {
                                 token_decimals: tokenDecimals
                             };
                         } else {
-                            // Native token balance check - import and use publicClient from config
-                            const { publicClient } = await import("../../config");
-                            const nativeBalance = await publicClient.getBalance({ address: walletAddress });
+                            // Native token balance check
+                            const nativeBalance = await context.chain.publicClient.getBalance({ address: walletAddress });
                             const balanceFormatted = Number(nativeBalance) / Math.pow(10, 18);
                             const requestedAmount = Number(amount);
                             
@@ -134,10 +164,10 @@ export const RepayBorrowTool: McpTool = {
                     throw error;
                 }
                 // Continue if other checks fail
-                console.warn('Borrow/ balance check failed, proceeding with repayment:', errorMsg);
+                logger.warn('Borrow/ balance check failed, proceeding with repayment', { tool: "kilolend_repay_lending", error: errorMsg });
             }
             
-            const txHash = await agent.repayBorrow(resolvedToken, amount);
+            const txHash = await agent.repayBorrow(resolvedToken, amount, context.transactionOptions);
 
             return {
                 status: "success",
@@ -1,10 +1,20 @@
 import { z } from "zod";
 import { WalletAgent } from "../../agent/wallet";
-import { type McpTool } from "../../types";
+import { type McpTool, type ToolContext, NetworkSummarySchema } from "../../types";
+import { confirmFundMovement } from "../confirmation";
+import { ConfirmationRejectedError } from "../../utils/errors";
+import { logger } from "../../utils/logger";
 
 export const SupplyToMarketTool: McpTool = {
     name: "kilolend_supply_to_lending",
     description: "Supply tokens to a KiloLend lending market on any supported network",
+    metadata: {
+        readOnly: false,
+        destructive: false,
+        movesFunds: true,
+        idempotent: false,
+        requiresNetwork: true
+    },
     schema: {
         token_symbol: z.string()
             .describe("Token symbol to supply (e.g., KAIA, USDT, KUB, XTZ, BORA, SIX, MBX, stKAIA)"),
@@ -19,7 +29,35 @@ export const SupplyToMarketTool: McpTool = {
             .default(true)
             .describe("Automatically approve token spending if needed (default: true)")
     },
-    handler: async (agent: WalletAgent, input: Record<string, any>) => {
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        transaction_hash: z.string(),
+        details: z.object({
+            token_symbol: z.string(),
+            ctoken_symbol: z.string(),
+            ctoken_address: z.string(),
+            supply_amount: z.string(),
+            network: NetworkSummarySchema,
+            explorer_url: z.string()
+        }),
+        balance_info: z.object({
+            token_balance: z.string(),
+            balance_formatted: z.string(),
+            token_decimals: z.number()
+        }).nullable(),
+        allowance_info: z.object({
+            current_allowance: z.string(),
+            required_allowance: z.string().optional(),
+            needs_approval: z.boolean()
+        }).nullable(),
+        market_info: z.object({
+            entered_market: z.boolean(),
+            ctoken_received: z.string()
+        }),
+        recommendations: z.array(z.string())
+    },
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
         try {
             if (!agent.isTransactionMode()) {
                 throw new Error('Transaction mode required. Configure private key in environment to enable transactions.');
@@ -34,10 +72,10 @@ export const SupplyToMarketTool: McpTool = {
             let resolvedToken = tokenSymbol;
 
             // Get current network info for context
-            const networkInfo = agent.currentNetworkInfo;
+            const networkInfo = context.chain.networkInfo;
 
             // Get contract addresses and try case-insensitive matching
-            const contracts = agent['getContractAddresses']();
+            const contracts = context.chain.contracts;
 
             // Try different cToken key variations
             let cTokenAddress = null;
@@ -116,8 +154,7 @@ export const SupplyToMarketTool: McpTool = {
                             }
                         } else {
                             // Native token balance check
-                            const { publicClient } = await import("../../config");
-                            const nativeBalance = await publicClient.getBalance({ address: walletAddress });
+                            const nativeBalance = await context.chain.publicClient.getBalance({ address: walletAddress });
                             const balanceFormatted = Number(nativeBalance) / Math.pow(10, 18);
                             const requestedAmount = Number(amount);
 
@@ -138,26 +175,36 @@ export const SupplyToMarketTool: McpTool = {
                         throw error;
                     }
                     // Continue if balance check fails for other reasons
-                    console.warn('Balance check failed, proceeding with supply:', errorMsg);
+                    logger.warn('Balance check failed, proceeding with supply', { tool: "kilolend_supply_to_lending", error: errorMsg });
                 }
             }
 
-            // Check if user is in the market, if not, enter market
+            // Confirm before entering the market, which is itself a transaction
             let marketEntered = false;
-            try {
-                const walletAddress = agent.getAddress();
-                if (walletAddress) {
-                    const isInMarket = await agent.checkMarketMembership(cTokenAddress as any);
-                    if (!isInMarket) {
-                        await agent.enterMarkets([cTokenAddress as any]);
-                        marketEntered = true;
+            const txHash = await confirmFundMovement(agent, context, {
+                tool: "kilolend_supply_to_lending",
+                action: `Supply ${amount} ${tokenSymbol} to KiloLend`,
+                tokenSymbol,
+                amount,
+                positionEffect: 'supply',
+                estimateFee: () => agent.estimateActionFee({ type: 'supply', tokenSymbol, amount })
+            }, async options => {
+                // Check if user is in the market, if not, enter market
+                try {
+                    const walletAddress = agent.getAddress();
+                    if (walletAddress) {
+                        const isInMarket = await agent.checkMarketMembership(cTokenAddress as any);
+                        if (!isInMarket) {
+                            await agent.enterMarkets([cTokenAddress as any], options);
+                            marketEntered = true;
+                        }
                     }
+                } catch (error) {
+                    logger.warn('Market entry check failed, proceeding with supply', { tool: "kilolend_supply_to_lending", error });
                 }
-            } catch (error) {
-                console.warn('Market entry check failed, proceeding with supply:', error);
-            }
 
-            const txHash = await agent.supplyToMarket(tokenSymbol, amount);
+                return agent.supplyToMarket(tokenSymbol, amount, options);
+            });
 
             return {
                 status: "success",
@@ -195,6 +242,9 @@ export const SupplyToMarketTool: McpTool = {
                 ]
             };
         } catch (error: any) {
+            if (error instanceof ConfirmationRejectedError) {
+                throw error;
+            }
             throw new Error(`Failed to supply to market: ${error.message}`);
         }
     }
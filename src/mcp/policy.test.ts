@@ -0,0 +1,108 @@
+import { type WalletAgent } from '../agent/wallet';
+import { PolicyViolationError } from '../utils/errors';
+import { SpendingPolicy, type SpendingPolicyConfig } from './policy';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function setup(config: Partial<SpendingPolicyConfig>, position = { totalCollateralUSD: 1000, totalBorrowUSD: 200, liquidity: '400' }) {
+    let time = 0;
+    const prices: Record<string, number> = { USDT: 1, KAIA: 0.2 };
+    const agent = {
+        getTokenPrice: jest.fn(async (symbol: string) => prices[symbol] || 0),
+        getAccountLiquidity: jest.fn(async () => position)
+    } as unknown as WalletAgent;
+    const policy = new SpendingPolicy({ tools: {}, tokens: {}, ...config }, () => time);
+    const advance = (ms: number) => { time += ms; };
+    return { agent, policy, advance };
+}
+
+const send = (amount: string, tokenSymbol = 'USDT', tool = 'kilolend_send_erc20_token') => ({ tool, tokenSymbol, amount });
+
+describe('SpendingPolicy', () => {
+    it('refuses a transaction over the per-transaction cap', async () => {
+        const { agent, policy } = setup({ maxTransactionUSD: 100 });
+
+        await expect(policy.check(agent, send('100'))).resolves.toBe(1);
+        await expect(policy.check(agent, send('101'))).rejects.toThrow('exceeds the $100.00 per-transaction limit for all tools');
+    });
+
+    it('sums spends over a rolling 24h window', async () => {
+        const { agent, policy, advance } = setup({ maxDailyUSD: 100 });
+
+        await policy.check(agent, send('60'));
+        advance(12 * HOUR_MS);
+        await policy.check(agent, send('30'));
+        await expect(policy.check(agent, send('20'))).rejects.toThrow('to $110.00, over its $100.00 limit ($90.00 already spent)');
+
+        // The first spend leaves the window, the second still counts
+        advance(12 * HOUR_MS);
+        await expect(policy.check(agent, send('70'))).resolves.not.toBeNull();
+        await expect(policy.check(agent, send('1'))).rejects.toBeInstanceOf(PolicyViolationError);
+    });
+
+    it('applies tool caps to that tool and token caps to that token', async () => {
+        const { agent, policy } = setup({
+            tools: { kilolend_send_native_token: { maxDailyUSD: 10 } },
+            tokens: { usdt: { maxTransactionUSD: 50 } }
+        });
+
+        await expect(policy.check(agent, send('60'))).rejects.toThrow('per-transaction limit for USDT');
+        await expect(policy.check(agent, send('40', 'USDT', 'kilolend_borrow'))).resolves.not.toBeNull();
+
+        await policy.check(agent, send('40', 'KAIA', 'kilolend_send_native_token'));
+        await expect(policy.check(agent, send('20', 'KAIA', 'kilolend_send_native_token'))).rejects.toThrow('24h total for kilolend_send_native_token');
+        // Neither cap covers KAIA sent by another tool
+        await expect(policy.check(agent, send('1000', 'KAIA'))).resolves.toBeNull();
+    });
+
+    it('refuses an unpriced token only when a cap applies', async () => {
+        const { agent, policy } = setup({ tokens: { USDT: { maxTransactionUSD: 50 } } });
+
+        await expect(policy.check(agent, send('1', 'BORA'))).resolves.toBeNull();
+        await expect(setup({ maxDailyUSD: 100 }).policy.check(agent, send('1', 'BORA'))).rejects.toThrow('no USD price is available for BORA');
+    });
+
+    it('releases a spend that was never broadcast', async () => {
+        const { agent, policy } = setup({ maxDailyUSD: 100 });
+
+        const id = await policy.check(agent, send('80'));
+        await expect(policy.check(agent, send('80'))).rejects.toBeInstanceOf(PolicyViolationError);
+
+        policy.release(id);
+        await expect(policy.check(agent, send('80'))).resolves.not.toBeNull();
+    });
+
+    it('limits the share of the borrowing capacity a borrow may use', async () => {
+        // $200 borrowed of a $600 capacity
+        const { agent, policy } = setup({ maxBorrowUtilization: 0.5 });
+
+        await expect(policy.check(agent, { ...send('100', 'USDT', 'kilolend_borrow'), positionEffect: 'borrow' })).resolves.toBeNull();
+        await expect(policy.check(agent, { ...send('150', 'USDT', 'kilolend_borrow'), positionEffect: 'borrow' }))
+            .rejects.toThrow('would use 58.3% of the borrowing capacity, over the 50.0% limit');
+        // Supplies and sends do not load the position
+        await policy.check(agent, send('1000'));
+        expect(agent.getAccountLiquidity).toHaveBeenCalledTimes(2);
+    });
+
+    it('refuses borrows and withdrawals that leave the health factor below the minimum', async () => {
+        // $1000 collateral against $200 borrowed
+        const { agent, policy } = setup({ minHealthFactor: 2 });
+
+        await expect(policy.check(agent, { ...send('300', 'USDT', 'kilolend_borrow'), positionEffect: 'borrow' })).resolves.toBeNull();
+        await expect(policy.check(agent, { ...send('320', 'USDT', 'kilolend_borrow'), positionEffect: 'borrow' }))
+            .rejects.toThrow('the health factor would drop to 1.92, below the minimum of 2');
+        await expect(policy.check(agent, { ...send('600', 'USDT', 'kilolend_redeem'), positionEffect: 'withdraw' })).resolves.toBeNull();
+        await expect(policy.check(agent, { ...send('700', 'USDT', 'kilolend_redeem'), positionEffect: 'withdraw' }))
+            .rejects.toThrow('the health factor would drop to 1.50');
+    });
+
+    it('refuses a position check it cannot make', async () => {
+        const { agent, policy } = setup({ minHealthFactor: 1.5 });
+        (agent.getAccountLiquidity as jest.Mock).mockRejectedValueOnce(new Error('RPC timeout'));
+
+        await expect(policy.check(agent, { ...send('1', 'USDT', 'kilolend_borrow'), positionEffect: 'borrow' }))
+            .rejects.toThrow('could not be loaded to check the borrow limits (RPC timeout)');
+        await expect(policy.check(agent, { ...send('1', 'BORA', 'kilolend_borrow'), positionEffect: 'borrow' }))
+            .rejects.toThrow('no USD price is available for BORA');
+    });
+});
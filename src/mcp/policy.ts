@@ -0,0 +1,164 @@
+// Spending policy
+// Checked before every fund-moving broadcast: per-transaction and rolling 24h USD caps (overall,
+// per tool and per token), a maximum borrow utilisation and a minimum post-action health factor.
+// Values use the price feed; a value that cannot be priced is refused when a cap applies
+
+import { WalletAgent } from "../agent/wallet";
+import { PolicyViolationError } from "../utils/errors";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SpendingCap {
+    maxTransactionUSD?: number;
+    // Rolling 24h total
+    maxDailyUSD?: number;
+}
+
+export interface SpendingPolicyConfig extends SpendingCap {
+    // Caps per MCP tool name, e.g. kilolend_send_erc20_token
+    tools: Record<string, SpendingCap>;
+    // Caps per token symbol
+    tokens: Record<string, SpendingCap>;
+    // Highest share of the borrowing capacity a borrow may use, 0-1
+    maxBorrowUtilization?: number;
+    // Lowest health factor (collateral / debt) a borrow or withdrawal may leave
+    minHealthFactor?: number;
+}
+
+// Value leaving the wallet, or a change to the KiloLend position
+export interface Spend {
+    tool: string;
+    tokenSymbol: string;
+    amount: string;
+    // Withdrawals only reduce the health factor; they do not count towards the USD caps
+    positionEffect?: 'supply' | 'borrow' | 'withdraw';
+}
+
+interface RecordedSpend {
+    id: number;
+    tool: string;
+    token: string;
+    valueUSD: number;
+    at: number;
+}
+
+function formatUSD(value: number): string {
+    return `$${value.toFixed(2)}`;
+}
+
+export class SpendingPolicy {
+    private spends: RecordedSpend[] = [];
+    private nextId = 1;
+
+    constructor(private config: SpendingPolicyConfig, private now: () => number = Date.now) {}
+
+    get enabled(): boolean {
+        const { tools, tokens, ...limits } = this.config;
+        return Object.values(limits).some(value => value !== undefined)
+            || Object.keys(tools).length > 0
+            || Object.keys(tokens).length > 0;
+    }
+
+    /**
+     * Throws PolicyViolationError when the spend breaks a limit; otherwise records it against
+     * the rolling caps and returns its id, so a spend the user then rejects can be released
+     */
+    async check(agent: WalletAgent, spend: Spend): Promise<number | null> {
+        const token = spend.tokenSymbol.toUpperCase();
+        const amount = parseFloat(spend.amount);
+        const price: number = await agent.getTokenPrice(spend.tokenSymbol);
+        const valueUSD = price * amount;
+
+        if (spend.positionEffect === 'borrow' || spend.positionEffect === 'withdraw') {
+            await this.checkPosition(agent, spend, valueUSD, price > 0);
+        }
+        if (spend.positionEffect === 'withdraw') {
+            return null;
+        }
+
+        const caps = this.capsFor(spend.tool, token);
+        if (caps.length === 0) {
+            return null;
+        }
+        if (!(price > 0) || !Number.isFinite(amount)) {
+            throw new PolicyViolationError(spend.tool, `no USD price is available for ${spend.tokenSymbol}, so ${spend.amount} ${spend.tokenSymbol} cannot be checked against the spending limits`);
+        }
+
+        this.prune();
+        for (const [scope, cap, matches] of caps) {
+            if (cap.maxTransactionUSD !== undefined && valueUSD > cap.maxTransactionUSD) {
+                throw new PolicyViolationError(spend.tool, `${spend.amount} ${spend.tokenSymbol} (${formatUSD(valueUSD)}) exceeds the ${formatUSD(cap.maxTransactionUSD)} per-transaction limit for ${scope}`);
+            }
+            if (cap.maxDailyUSD !== undefined) {
+                const spent = this.spends.filter(matches).reduce((sum, recorded) => sum + recorded.valueUSD, 0);
+                if (spent + valueUSD > cap.maxDailyUSD) {
+                    throw new PolicyViolationError(spend.tool, `${formatUSD(valueUSD)} would bring the 24h total for ${scope} to ${formatUSD(spent + valueUSD)}, over its ${formatUSD(cap.maxDailyUSD)} limit (${formatUSD(spent)} already spent)`);
+                }
+            }
+        }
+
+        const id = this.nextId++;
+        this.spends.push({ id, tool: spend.tool, token, valueUSD, at: this.now() });
+        return id;
+    }
+
+    // Remove a recorded spend that was never broadcast
+    release(id: number | null) {
+        this.spends = this.spends.filter(recorded => recorded.id !== id);
+    }
+
+    private capsFor(tool: string, token: string): [string, SpendingCap, (recorded: RecordedSpend) => boolean][] {
+        const tokenCap = Object.entries(this.config.tokens).find(([symbol]) => symbol.toUpperCase() === token)?.[1];
+        const caps: [string, SpendingCap | undefined, (recorded: RecordedSpend) => boolean][] = [
+            ['all tools', this.config, () => true],
+            [tool, this.config.tools[tool], recorded => recorded.tool === tool],
+            [token, tokenCap, recorded => recorded.token === token]
+        ];
+        return caps.filter((entry): entry is [string, SpendingCap, (recorded: RecordedSpend) => boolean] =>
+            entry[1] !== undefined && (entry[1].maxTransactionUSD !== undefined || entry[1].maxDailyUSD !== undefined)
+        );
+    }
+
+    // Borrow utilisation and health factor after the action, from the account's current position
+    private async checkPosition(agent: WalletAgent, spend: Spend, valueUSD: number, priced: boolean) {
+        const { maxBorrowUtilization, minHealthFactor } = this.config;
+        const checkUtilization = spend.positionEffect === 'borrow' && maxBorrowUtilization !== undefined;
+        if (!checkUtilization && minHealthFactor === undefined) {
+            return;
+        }
+        if (!priced) {
+            throw new PolicyViolationError(spend.tool, `no USD price is available for ${spend.tokenSymbol}, so the effect on the account position cannot be checked`);
+        }
+
+        let liquidity: Awaited<ReturnType<WalletAgent['getAccountLiquidity']>>;
+        try {
+            liquidity = await agent.getAccountLiquidity();
+        } catch (error: any) {
+            throw new PolicyViolationError(spend.tool, `the account position could not be loaded to check the borrow limits (${error.message})`);
+        }
+        const collateralUSD = liquidity.totalCollateralUSD;
+        const borrowUSD = liquidity.totalBorrowUSD;
+
+        if (checkUtilization) {
+            const capacityUSD = borrowUSD + parseFloat(liquidity.liquidity);
+            const utilization = capacityUSD > 0 ? (borrowUSD + valueUSD) / capacityUSD : Infinity;
+            if (utilization > maxBorrowUtilization!) {
+                throw new PolicyViolationError(spend.tool, `borrowing ${formatUSD(valueUSD)} would use ${(utilization * 100).toFixed(1)}% of the borrowing capacity, over the ${(maxBorrowUtilization! * 100).toFixed(1)}% limit`);
+            }
+        }
+
+        if (minHealthFactor !== undefined) {
+            const healthFactor = spend.positionEffect === 'borrow'
+                ? collateralUSD / (borrowUSD + valueUSD)
+                : borrowUSD > 0 ? (collateralUSD - valueUSD) / borrowUSD : Infinity;
+            if (healthFactor < minHealthFactor) {
+                throw new PolicyViolationError(spend.tool, `the health factor would drop to ${healthFactor.toFixed(2)}, below the minimum of ${minHealthFactor}`);
+            }
+        }
+    }
+
+    private prune() {
+        const cutoff = this.now() - DAY_MS;
+        this.spends = this.spends.filter(recorded => recorded.at > cutoff);
+    }
+}
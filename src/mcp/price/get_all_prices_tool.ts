@@ -1,22 +1,42 @@
 import { z } from "zod";
 import { WalletAgent } from "../../agent/wallet";
-import { type McpTool } from "../../types";
+import { type McpTool, type ToolContext, PriceEntrySchema } from "../../types";
 import { getAllPrices } from "../../tools/price-api/price";
 
 export const GetAllPricesTool: McpTool = {
     name: "kilolend_get_all_prices",
     description: "Get all available token prices from the KiloLend price API",
+    metadata: {
+        readOnly: true,
+        destructive: false,
+        movesFunds: false,
+        idempotent: true,
+        requiresNetwork: true
+    },
     schema: {},
-    handler: async (agent: WalletAgent, input: Record<string, any>) => {
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        network: z.object({
+            current_network: z.string(),
+            chain_id: z.number(),
+            native_currency: z.string()
+        }),
+        prices: z.array(PriceEntrySchema),
+        count: z.number(),
+        timestamp: z.string(),
+        recommendations: z.array(z.string())
+    },
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
         try {
-            const pricesResult = await getAllPrices();
+            const pricesResult = await getAllPrices(context.chain.api);
 
             if (!pricesResult.success) {
                 throw new Error(`Failed to fetch prices: ${(pricesResult as any).error || 'Unknown error'}`);
             }
 
             // Get current network info for context
-            const networkInfo = agent.currentNetworkInfo;
+            const networkInfo = context.chain.networkInfo;
 
             return {
                 status: "success",
@@ -1,37 +1,52 @@
 import { z } from "zod";
 import { WalletAgent } from "../../agent/wallet";
-import { type McpTool } from "../../types";
+import { type McpTool, type ToolContext, NetworkSummarySchema, PriceEntrySchema } from "../../types";
 import { getNetworkPrices } from "../../tools/price-api/price";
 import { NetworkType } from "../../config";
 
 export const GetNetworkPricesTool: McpTool = {
     name: "kilolend_get_network_prices",
     description: "Get token prices for the currently connected network (KAIA, KUB, or Etherlink)",
+    metadata: {
+        readOnly: true,
+        destructive: false,
+        movesFunds: false,
+        idempotent: true,
+        requiresNetwork: true
+    },
     schema: {
         network: z.enum(['kaia', 'kub', 'etherlink']).optional()
             .describe("Optional: Specify network ('kaia', 'kub', 'etherlink'). If not provided, uses current network connection")
     },
-    handler: async (agent: WalletAgent, input: Record<string, any>) => {
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        network: NetworkSummarySchema,
+        prices: z.array(PriceEntrySchema),
+        count: z.number(),
+        requested_symbols: z.array(z.string()),
+        found_symbols: z.array(z.string()),
+        timestamp: z.string(),
+        recommendations: z.array(z.string())
+    },
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
         try {
             // Use provided network or get from agent's network info
             let network: NetworkType;
             if (input.network) {
                 network = input.network as NetworkType;
             } else {
-                // Extract network from networkInfo since currentNetwork is private
-                const networkInfo = agent.currentNetworkInfo;
-                network = networkInfo.chainId === 8217 ? 'kaia' : 
-                        networkInfo.chainId === 96 ? 'kub' : 'etherlink';
+                network = context.chain.network;
             }
             
-            const pricesResult = await getNetworkPrices(network);
+            const pricesResult = await getNetworkPrices(context.chain.api, network);
 
             if (!pricesResult.success) {
                 throw new Error(`Failed to fetch prices: ${(pricesResult as any).error || 'Unknown error'}`);
             }
 
             // Get network info for context
-            const networkInfo = agent.currentNetworkInfo;
+            const networkInfo = context.chain.networkInfo;
             const networkName = networkInfo.name || network.toUpperCase();
 
             return {
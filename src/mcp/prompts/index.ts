@@ -0,0 +1,191 @@
+// KiloLend MCP Prompts
+// Curated lending workflows that pre-load on-chain data and encode KiloLend safety guidance
+
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { WalletAgent } from "../../agent/wallet";
+import { ValidationError } from "../../utils/errors";
+
+type RiskTolerance = 'low' | 'medium' | 'high';
+
+// Minimum health factor to keep after any action, per risk tolerance
+const TARGET_HEALTH_FACTOR: Record<RiskTolerance, number> = {
+    low: 2.0,
+    medium: 1.7,
+    high: 1.5
+};
+
+const SAFETY_GUIDANCE = [
+    "KiloLend safety rules:",
+    "- An account is liquidated when its health factor drops below 1.0; never propose an action that leaves it below 1.5.",
+    "- Never borrow more than 80% of the currently available liquidity, prices can move before the transaction is mined.",
+    "- Prefer stablecoin borrows against volatile collateral and keep some native token for gas.",
+    "- ERC-20 supplies and repayments need an allowance; native tokens (KAIA, KUB, XTZ) do not.",
+    "- Always show the exact amounts and the resulting health factor, and ask for explicit confirmation before calling any transaction tool."
+].join('\n');
+
+const riskToleranceArg = z.enum(['low', 'medium', 'high'])
+    .optional()
+    .describe("Risk tolerance: low, medium or high (default: low)");
+
+const networkArg = z.string()
+    .optional()
+    .describe("Network to analyse: kaia, kub or etherlink (defaults to the connected network)");
+
+const reviewHealthArgs: Record<string, any> = {
+    network: networkArg,
+    address: z.string().optional().describe("Account address or watched-address label (defaults to the configured wallet or the first watched address)"),
+    token: z.string().optional().describe("Token to borrow (e.g., USDT, KAIA); if omitted, recommend one"),
+    risk_tolerance: riskToleranceArg
+};
+
+const compareSupplyArgs: Record<string, any> = {
+    network: networkArg,
+    token: z.string().optional().describe("Token the user wants to supply (optional, compares all markets if omitted)"),
+    risk_tolerance: riskToleranceArg
+};
+
+const deleverageArgs: Record<string, any> = {
+    network: networkArg,
+    address: z.string().optional().describe("Account address or watched-address label (defaults to the configured wallet or the first watched address)"),
+    risk_tolerance: riskToleranceArg
+};
+
+// Prompt arguments arrive as optional strings, validated against each prompt's argsSchema
+type PromptArgs = Record<string, string | undefined>;
+
+function requireConnectedNetwork(agent: WalletAgent, network?: string) {
+    if (network && network.toLowerCase() !== agent.getNetwork()) {
+        throw new ValidationError(`Network ${network} is not connected. This server is connected to ${agent.getNetwork()}`, 'network');
+    }
+}
+
+
+// Load data for a prompt without failing the whole prompt when one source is down
+async function loadSection(title: string, load: () => Promise<unknown>): Promise<string> {
+    try {
+        const data = await load();
+        return `${title}:\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
+    } catch (error: any) {
+        return `${title}: unavailable (${error.message}). Fetch it with the matching KiloLend tool before giving advice.`;
+    }
+}
+
+function userMessage(text: string) {
+    return {
+        messages: [
+            {
+                role: "user" as const,
+                content: { type: "text" as const, text }
+            }
+        ]
+    };
+}
+
+export function registerKiloLendPrompts(server: McpServer, agent: WalletAgent) {
+
+    server.registerPrompt(
+        "kilolend_review_health_and_borrow",
+        {
+            title: "Review health factor and suggest a safe borrow",
+            description: "Review the account's KiloLend health factor and suggest a borrow amount that stays within the risk tolerance",
+            argsSchema: reviewHealthArgs
+        },
+        async ({ network, address, token, risk_tolerance }: PromptArgs) => {
+            requireConnectedNetwork(agent, network);
+            const account = agent.resolveAddress(address);
+            const riskTolerance = (risk_tolerance || 'low') as RiskTolerance;
+            const targetHealthFactor = TARGET_HEALTH_FACTOR[riskTolerance];
+
+            const [liquiditySection, marketsSection] = await Promise.all([
+                loadSection("Account liquidity", () => agent.getAccountLiquidity(account)),
+                loadSection("Markets", () => agent.getAllMarkets())
+            ]);
+
+            return userMessage([
+                `Review the KiloLend position of ${account} on ${agent.getNetwork()} and suggest a safe borrow${token ? ` of ${token}` : ''}.`,
+                `Risk tolerance: ${riskTolerance}. The health factor after borrowing must stay at or above ${targetHealthFactor}.`,
+                "",
+                "Steps:",
+                "1. Summarise collateral, debt, available liquidity and the current health factor.",
+                `2. Compute the largest borrow${token ? ` of ${token}` : ''} that keeps the health factor at or above ${targetHealthFactor}, using the market price and borrow APY.`,
+                "3. Recommend a borrow amount below that maximum and explain the annual interest cost.",
+                "4. If the account has a shortfall or is already below the target, recommend repaying or supplying instead of borrowing.",
+                "",
+                SAFETY_GUIDANCE,
+                "",
+                liquiditySection,
+                "",
+                marketsSection
+            ].join('\n'));
+        }
+    );
+
+    server.registerPrompt(
+        "kilolend_compare_supply_apys",
+        {
+            title: "Compare supply APYs across markets",
+            description: "Compare KiloLend supply APYs, utilization and liquidity to find where to supply",
+            argsSchema: compareSupplyArgs
+        },
+        async ({ network, token, risk_tolerance }: PromptArgs) => {
+            requireConnectedNetwork(agent, network);
+            const riskTolerance = (risk_tolerance || 'low') as RiskTolerance;
+
+            const marketsSection = await loadSection("Markets", () => agent.getAllMarkets());
+
+            return userMessage([
+                `Compare KiloLend supply opportunities on ${agent.getNetwork()}${token ? ` for ${token}` : ''}.`,
+                `Risk tolerance: ${riskTolerance}.`,
+                "",
+                "Steps:",
+                "1. Rank the markets by supply APY and show utilization and available cash next to each.",
+                "2. Flag markets above 90% utilization: withdrawals may be delayed until borrowers repay.",
+                riskTolerance === 'low'
+                    ? "3. Favour stablecoin and native-token markets; treat APYs on small, volatile markets as unreliable."
+                    : "3. Weigh higher APYs on volatile markets against price risk and thin liquidity.",
+                "4. Recommend where to supply and whether the supplied asset is a good collateral candidate.",
+                "",
+                SAFETY_GUIDANCE,
+                "",
+                marketsSection
+            ].join('\n'));
+        }
+    );
+
+    server.registerPrompt(
+        "kilolend_plan_deleverage",
+        {
+            title: "Plan a deleverage to a target health factor",
+            description: "Plan repayments or collateral top-ups that bring the account back to a safe health factor",
+            argsSchema: deleverageArgs
+        },
+        async ({ network, address, risk_tolerance }: PromptArgs) => {
+            requireConnectedNetwork(agent, network);
+            const account = agent.resolveAddress(address);
+            const riskTolerance = (risk_tolerance || 'low') as RiskTolerance;
+            const targetHealthFactor = TARGET_HEALTH_FACTOR[riskTolerance];
+
+            const [liquiditySection, marketsSection] = await Promise.all([
+                loadSection("Account liquidity", () => agent.getAccountLiquidity(account)),
+                loadSection("Markets", () => agent.getAllMarkets())
+            ]);
+
+            return userMessage([
+                `Plan how ${account} on ${agent.getNetwork()} can reach a health factor of at least ${targetHealthFactor}.`,
+                "",
+                "Steps:",
+                "1. Show the current health factor and how far it is from liquidation (1.0) and from the target.",
+                "2. Option A: the repayment amount per borrowed asset needed to reach the target, highest borrow APY first.",
+                "3. Option B: the additional collateral to supply to reach the target.",
+                "4. Recommend the cheapest option and list the exact tool calls in order, without executing them.",
+                "",
+                SAFETY_GUIDANCE,
+                "",
+                liquiditySection,
+                "",
+                marketsSection
+            ].join('\n'));
+        }
+    );
+}
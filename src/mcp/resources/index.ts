@@ -0,0 +1,220 @@
+// KiloLend MCP Resources
+// Publishes markets, account positions and prices as kilolend:// resources
+// and notifies subscribers when a new block changes the underlying data
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { Address, isAddress } from "viem";
+import { WalletAgent } from "../../agent/wallet";
+import { SUPPORTED_NETWORKS, parseNetwork } from "../../agent/networks";
+import { NetworkType } from "../../config";
+import { getNetworkPrices } from "../../tools/price-api/price";
+import { ValidationError } from "../../utils/errors";
+import { logger } from "../../utils/logger";
+
+const RESOURCE_POLL_INTERVAL_MS = parseInt(process.env.RESOURCE_POLL_INTERVAL_MS || '15000');
+
+// Markets and positions are read through the agent's connected chain only
+function requireAgentNetwork(agent: WalletAgent, network: NetworkType) {
+    if (network !== agent.getNetwork()) {
+        throw new ValidationError(`Network ${network} is not connected. This server is connected to ${agent.getNetwork()}`, 'network');
+    }
+}
+
+async function readMarkets(agent: WalletAgent, network: NetworkType) {
+    requireAgentNetwork(agent, network);
+    const markets = await agent.getAllMarkets();
+    return { network, markets };
+}
+
+async function readAccount(agent: WalletAgent, network: NetworkType, address: string) {
+    requireAgentNetwork(agent, network);
+    if (!isAddress(address)) {
+        throw new ValidationError(`Invalid account address: ${address}`, 'address');
+    }
+    const liquidity = await agent.getAccountLiquidity(address as Address);
+    return { network, address, ...liquidity };
+}
+
+async function readPrices(agent: WalletAgent, network: NetworkType) {
+    const pricesResult = await getNetworkPrices(agent.chain.api, network);
+    if (!pricesResult.success) {
+        throw new Error(`Failed to fetch prices: ${(pricesResult as any).error || 'Unknown error'}`);
+    }
+    return { network, prices: (pricesResult as any).prices || [] };
+}
+
+// Resolve any kilolend:// URI to its current data, used for reads and change detection
+async function readResourceData(agent: WalletAgent, uri: URL): Promise<unknown> {
+    const [resource, ...rest] = uri.pathname.split('/').filter(Boolean);
+    const network = parseNetwork(uri.host);
+
+    switch (resource) {
+        case 'markets':
+            return readMarkets(agent, network);
+        case 'account':
+            return readAccount(agent, network, rest[0] || '');
+        case 'prices':
+            return readPrices(agent, network);
+        default:
+            throw new ValidationError(`Unknown KiloLend resource: ${uri.href}`);
+    }
+}
+
+function toResourceContents(uri: URL, data: unknown) {
+    return {
+        contents: [
+            {
+                uri: uri.href,
+                mimeType: "application/json",
+                text: JSON.stringify(data, null, 2)
+            }
+        ]
+    };
+}
+
+/**
+ * Registers KiloLend resources on a server and enables resource subscriptions
+ * Returns a cleanup function that stops the block watcher
+ */
+export function registerKiloLendResources(server: McpServer, agent: WalletAgent): () => void {
+    const network = agent.getNetwork();
+
+    server.registerResource(
+        "kilolend-markets",
+        new ResourceTemplate("kilolend://{network}/markets", {
+            list: async () => ({
+                resources: [{
+                    uri: `kilolend://${network}/markets`,
+                    name: `KiloLend markets (${network})`,
+                    mimeType: "application/json"
+                }]
+            })
+        }),
+        {
+            title: "KiloLend Markets",
+            description: "All KiloLend lending markets with supply/borrow APY, utilization and prices",
+            mimeType: "application/json"
+        },
+        async (uri, variables) => toResourceContents(uri, await readMarkets(agent, parseNetwork(variables.network)))
+    );
+
+    server.registerResource(
+        "kilolend-account",
+        new ResourceTemplate("kilolend://{network}/account/{address}", {
+            list: async () => {
+                // The wallet, then every watched address
+                const wallet = agent.getAddress();
+                const accounts = [
+                    ...(wallet ? [{ address: wallet, name: `KiloLend account ${wallet} (${network})` }] : []),
+                    ...agent.chain.watchAddresses.map(watched => ({
+                        address: watched.address,
+                        name: `KiloLend account ${watched.label} (${network}, watch-only)`
+                    }))
+                ];
+                return {
+                    resources: accounts.map(account => ({
+                        uri: `kilolend://${network}/account/${account.address}`,
+                        name: account.name,
+                        mimeType: "application/json"
+                    }))
+                };
+            }
+        }),
+        {
+            title: "KiloLend Account Position",
+            description: "Account liquidity, health factor and supplied/borrowed positions for an address",
+            mimeType: "application/json"
+        },
+        async (uri, variables) => toResourceContents(
+            uri,
+            await readAccount(agent, parseNetwork(variables.network), String(variables.address))
+        )
+    );
+
+    server.registerResource(
+        "kilolend-prices",
+        new ResourceTemplate("kilolend://{network}/prices", {
+            list: async () => ({
+                resources: SUPPORTED_NETWORKS.map(supportedNetwork => ({
+                    uri: `kilolend://${supportedNetwork}/prices`,
+                    name: `Token prices (${supportedNetwork})`,
+                    mimeType: "application/json"
+                }))
+            })
+        }),
+        {
+            title: "KiloLend Token Prices",
+            description: "Token prices from the KiloLend price API for a network",
+            mimeType: "application/json"
+        },
+        async (uri, variables) => toResourceContents(uri, await readPrices(agent, parseNetwork(variables.network)))
+    );
+
+    // ===== SUBSCRIPTIONS =====
+
+    // Subscribed URI -> fingerprint of the last data sent to the client
+    const subscriptions = new Map<string, string>();
+    let stopWatching: (() => void) | null = null;
+    let refreshing = false;
+
+    const refreshSubscriptions = async () => {
+        if (refreshing) {
+            return;
+        }
+        refreshing = true;
+        try {
+            for (const [uri, fingerprint] of subscriptions) {
+                try {
+                    const nextFingerprint = JSON.stringify(await readResourceData(agent, new URL(uri)));
+                    if (subscriptions.has(uri) && nextFingerprint !== fingerprint) {
+                        subscriptions.set(uri, nextFingerprint);
+                        await server.server.sendResourceUpdated({ uri });
+                    }
+                } catch (error) {
+                    logger.warn(`Failed to refresh resource ${uri}`, { error });
+                }
+            }
+        } finally {
+            refreshing = false;
+        }
+    };
+
+    const updateWatcher = () => {
+        if (subscriptions.size > 0 && !stopWatching) {
+            stopWatching = agent.chain.publicClient.watchBlockNumber({
+                pollingInterval: RESOURCE_POLL_INTERVAL_MS,
+                onBlockNumber: () => { void refreshSubscriptions(); },
+                onError: (error: Error) => logger.warn('Block watcher error', { error })
+            });
+        } else if (subscriptions.size === 0 && stopWatching) {
+            stopWatching();
+            stopWatching = null;
+        }
+    };
+
+    server.server.registerCapabilities({ resources: { subscribe: true } });
+
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        const uri = new URL(request.params.uri);
+        if (uri.protocol !== 'kilolend:') {
+            throw new ValidationError(`Unknown resource: ${request.params.uri}`);
+        }
+        // Read once so invalid URIs fail now and later updates compare against real data
+        const data = await readResourceData(agent, uri);
+        subscriptions.set(request.params.uri, JSON.stringify(data));
+        updateWatcher();
+        return {};
+    });
+
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        subscriptions.delete(request.params.uri);
+        updateWatcher();
+        return {};
+    });
+
+    return () => {
+        subscriptions.clear();
+        updateWatcher();
+    };
+}
@@ -0,0 +1,134 @@
+// Per-deployment tool selection
+// Operators can expose a subset of the registry by enabling or disabling individual tools
+// (by MCP name or registry key) and named groups, from the config file, env, CLI flags or a JSON file
+
+import { readFileSync } from "node:fs";
+import { getCliOption, getEnvironmentConfig } from "../config";
+import { KiloLendWalletTools, KiloLendToolGroups, type ToolGroup } from "./index";
+
+export type ToolKey = keyof typeof KiloLendWalletTools;
+
+export interface ToolSelectionConfig {
+    // Only these tools and groups are registered; every tool when empty
+    enabled: string[];
+    // Removed after `enabled` is applied
+    disabled: string[];
+    // Custom tool sets, usable in `enabled` and `disabled` like the built-in groups
+    groups: Record<string, string[]>;
+}
+
+const TOOL_GROUPS = [...new Set(Object.values(KiloLendToolGroups))] as ToolGroup[];
+
+function parseList(value: string | undefined): string[] | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    return value.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+function readStringList(value: unknown, field: string, source: string): string[] {
+    if (value === undefined) {
+        return [];
+    }
+    if (!Array.isArray(value) || value.some(entry => typeof entry !== 'string')) {
+        throw new Error(`Invalid ${field} in ${source}: expected an array of tool or group names`);
+    }
+    return value;
+}
+
+// Load the selection from the config file's tools section, MCP_TOOLS_FILE, MCP_ENABLED_TOOLS /
+// MCP_DISABLED_TOOLS, then the --tools / --disable-tools CLI flags; each later source replaces
+// the lists of the earlier ones
+export function loadToolSelection(): ToolSelectionConfig {
+    const fileTools = getEnvironmentConfig().tools;
+    const config: ToolSelectionConfig = {
+        enabled: fileTools?.enabled ?? [],
+        disabled: fileTools?.disabled ?? [],
+        groups: { ...fileTools?.groups }
+    };
+
+    const toolsFile = process.env.MCP_TOOLS_FILE;
+    if (toolsFile) {
+        const parsed = JSON.parse(readFileSync(toolsFile, 'utf8'));
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+            throw new Error(`Invalid tools file ${toolsFile}: expected an object with enabled, disabled and groups`);
+        }
+        if (parsed.enabled !== undefined) {
+            config.enabled = readStringList(parsed.enabled, 'enabled', toolsFile);
+        }
+        if (parsed.disabled !== undefined) {
+            config.disabled = readStringList(parsed.disabled, 'disabled', toolsFile);
+        }
+        for (const [name, members] of Object.entries(parsed.groups || {})) {
+            config.groups[name] = readStringList(members, `group '${name}'`, toolsFile);
+        }
+    }
+
+    config.enabled = parseList(getCliOption('tools') ?? process.env.MCP_ENABLED_TOOLS) ?? config.enabled;
+    config.disabled = parseList(getCliOption('disable-tools') ?? process.env.MCP_DISABLED_TOOLS) ?? config.disabled;
+
+    return config;
+}
+
+function findTool(name: string): ToolKey | undefined {
+    return (Object.keys(KiloLendWalletTools) as ToolKey[]).find(key =>
+        key === name || KiloLendWalletTools[key].name === name
+    );
+}
+
+// Tools and built-in groups; custom groups are resolved separately so they cannot nest
+function resolveBuiltinEntry(entry: string): ToolKey[] | undefined {
+    const name = entry.startsWith('group:') ? entry.substring('group:'.length) : entry;
+    if (TOOL_GROUPS.includes(name as ToolGroup)) {
+        return (Object.keys(KiloLendToolGroups) as ToolKey[]).filter(key => KiloLendToolGroups[key] === name);
+    }
+    const tool = findTool(entry);
+    return tool ? [tool] : undefined;
+}
+
+/**
+ * Resolves a selection against the tool registry, returning the registry keys to register
+ * Unknown tools or groups throw, so a typo fails at startup instead of silently exposing
+ * (or hiding) tools
+ */
+export function resolveToolSelection(config: ToolSelectionConfig): Set<ToolKey> {
+    const customGroups = new Map<string, ToolKey[]>();
+    for (const [name, members] of Object.entries(config.groups)) {
+        if (TOOL_GROUPS.includes(name as ToolGroup) || findTool(name)) {
+            throw new Error(`Custom tool group '${name}' conflicts with a built-in group or tool`);
+        }
+        customGroups.set(name, members.flatMap(member => {
+            const keys = resolveBuiltinEntry(member);
+            if (!keys) {
+                throw new Error(`Unknown tool or group '${member}' in custom tool group '${name}'`);
+            }
+            return keys;
+        }));
+    }
+
+    const resolve = (entry: string, field: string): ToolKey[] => {
+        const name = entry.startsWith('group:') ? entry.substring('group:'.length) : entry;
+        const keys = customGroups.get(name) ?? resolveBuiltinEntry(entry);
+        if (!keys) {
+            throw new Error(
+                `Unknown tool or group '${entry}' in ${field}. ` +
+                `Groups: ${[...TOOL_GROUPS, ...customGroups.keys()].join(', ')}`
+            );
+        }
+        return keys;
+    };
+
+    const selected = new Set<ToolKey>(
+        config.enabled.length > 0
+            ? config.enabled.flatMap(entry => resolve(entry, 'enabled tools'))
+            : Object.keys(KiloLendWalletTools) as ToolKey[]
+    );
+    for (const key of config.disabled.flatMap(entry => resolve(entry, 'disabled tools'))) {
+        selected.delete(key);
+    }
+
+    if (selected.size === 0) {
+        throw new Error('The tool selection disables every tool. Check MCP_ENABLED_TOOLS, MCP_DISABLED_TOOLS, MCP_TOOLS_FILE and the config file tools section');
+    }
+    return selected;
+}
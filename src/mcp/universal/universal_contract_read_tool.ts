@@ -1,21 +1,44 @@
 import { z } from 'zod';
-import { publicClient, network, getContractAddresses } from '../../config';
+import { getContractAddresses } from '../../config';
 import { KiloLendError, NetworkError } from '../../types';
-import { McpTool } from '../../types';
+import { McpTool, ToolContext } from '../../types';
+import { serializeValue } from '../../utils/serialization';
 
 const UniversalContractReadTool: McpTool = {
   name: 'universal_contract_read',
   description: 'Execute read-only calls on any smart contract by providing contract address, ABI, and function parameters',
+  metadata: {
+    readOnly: true,
+    destructive: false,
+    movesFunds: false,
+    idempotent: true,
+    requiresNetwork: true,
+  },
   schema: {
     contractAddress: z.string().describe('Contract address to interact with (0x...)'),
     abi: z.string().describe('Contract ABI as JSON string or array'),
     functionName: z.string().describe('Name of the function to call'),
     args: z.array(z.any()).optional().describe('Array of arguments for the function'),
-    network: z.string().optional().describe('Network to use (overrides current network)'),
+    network: z.enum(['kaia', 'kub', 'etherlink']).optional().describe("Network to use (overrides the session's network)"),
+    decimals: z.number().int().min(0).max(36).optional().describe('Token decimals of the returned amounts; adds a formatted value next to each raw integer'),
+  },
+  outputSchema: {
+    success: z.literal(true),
+    message: z.string(),
+    result: z.object({
+      functionName: z.string(),
+      contractAddress: z.string(),
+      network: z.string(),
+      arguments: z.array(z.any()),
+      returnValue: z.any().describe('Decoded return value; integers are decimal strings, or { raw, formatted, decimals } when decimals is given'),
+      returnType: z.string(),
+      timestamp: z.string(),
+    }),
   },
-  handler: async (agent, input) => {
+  handler: async (agent, input, context: ToolContext) => {
+    const { publicClient, network } = context.chain;
     try {
-      const { contractAddress, abi, functionName, args = [], network: networkOverride } = input;
+      const { contractAddress, abi, functionName, args = [], network: networkOverride, decimals } = input;
 
       // Validate inputs
       if (!contractAddress || !abi || !functionName) {
@@ -82,7 +105,7 @@ const UniversalContractReadTool: McpTool = {
             contractAddress,
             network: targetNetwork,
             arguments: args,
-            returnValue: result,
+            returnValue: serializeValue(result, { decimals }),
             returnType: functionDefinition.outputs?.map((output: any) => output.type).join(', ') || 'unknown',
             timestamp: new Date().toISOString(),
           }
@@ -1,12 +1,54 @@
 import { z } from 'zod';
-import { parseEther, formatEther } from 'viem';
-import { publicClient, walletClient, network, getContractAddresses, agentMode } from '../../config';
+import { parseEther, formatEther, formatUnits, encodeFunctionData, decodeFunctionData, parseAbi, type Abi, type Address, type Hex, type SimulateContractParameters } from 'viem';
+import { getContractAddresses } from '../../config';
 import { TransactionResult, KiloLendError, NetworkError, TransactionError, InsufficientBalanceError } from '../../types';
-import { McpTool } from '../../types';
+import { McpTool, ToolContext, TransactionResultSchema } from '../../types';
+import { ConfirmationRejectedError, FeeLimitExceededError, PolicyViolationError, RecipientNotAllowedError } from '../../utils/errors';
+import { ProgressTracker } from '../../agent/progress';
+import { feesForContract, type ContractCall } from '../../agent/fees';
+import { sendRecordedSpend } from '../confirmation';
+
+const TOKEN_MOVING_ABI = parseAbi([
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function transferFrom(address from, address to, uint256 amount) returns (bool)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+]);
+
+// ERC-20 call that moves tokens: transfer and transferFrom to `recipient`, or approve of `recipient` as spender
+interface TokenMovement {
+  functionName: 'transfer' | 'transferFrom' | 'approve';
+  recipient: Address;
+  amount: bigint;
+}
+
+// Decoded from the calldata, so the check does not depend on the ABI the caller supplied
+function decodeTokenMovement(data: Hex): TokenMovement | null {
+  let decoded;
+  try {
+    decoded = decodeFunctionData({ abi: TOKEN_MOVING_ABI, data });
+  } catch (error) {
+    return null;
+  }
+  switch (decoded.functionName) {
+    case 'transfer':
+      return { functionName: 'transfer', recipient: decoded.args[0], amount: decoded.args[1] };
+    case 'transferFrom':
+      return { functionName: 'transferFrom', recipient: decoded.args[1], amount: decoded.args[2] };
+    case 'approve':
+      return { functionName: 'approve', recipient: decoded.args[0], amount: decoded.args[1] };
+  }
+}
 
 const UniversalContractWriteTool: McpTool = {
   name: 'universal_contract_write',
   description: 'Execute state-changing calls on any smart contract by providing contract address, ABI, function parameters, and optional value',
+  metadata: {
+    readOnly: false,
+    destructive: true,
+    movesFunds: true,
+    idempotent: false,
+    requiresNetwork: true,
+  },
   schema: {
     contractAddress: z.string().describe('Contract address to interact with (0x...)'),
     abi: z.string().describe('Contract ABI as JSON string or array'),
@@ -14,12 +56,33 @@ const UniversalContractWriteTool: McpTool = {
     args: z.array(z.any()).optional().describe('Array of arguments for the function'),
     value: z.string().optional().describe('Native token value to send with transaction (in human-readable format, e.g., "0.1")'),
     gasLimit: z.string().optional().describe('Custom gas limit for the transaction'),
-    network: z.string().optional().describe('Network to use (overrides current network)'),
+    network: z.enum(['kaia', 'kub', 'etherlink']).optional().describe("Network to use (overrides the session's network)"),
     simulate: z.boolean().optional().default(false).describe('Simulate transaction without executing (default: false)'),
   },
-  handler: async (agent, input) => {
+  outputSchema: {
+    success: z.literal(true),
+    message: z.string(),
+    // Absent for simulations
+    transaction: TransactionResultSchema.optional(),
+    result: z.object({
+      functionName: z.string(),
+      contractAddress: z.string(),
+      network: z.string(),
+      arguments: z.array(z.any()),
+      value: z.string().optional(),
+      simulationResult: z.any().optional().describe('Decoded return value of the simulated call'),
+      gasEstimate: z.string().optional(),
+      gasPrice: z.string().optional(),
+      gasUsed: z.string().optional(),
+      blockNumber: z.number().optional(),
+      timestamp: z.string(),
+      simulated: z.boolean(),
+    }),
+  },
+  handler: async (agent, input, context: ToolContext) => {
+    const { publicClient, walletClient, nonces, network, agentMode } = context.chain;
     try {
-      if (agentMode === 'readonly') {
+      if (agentMode === 'readonly' || !walletClient) {
         throw new KiloLendError('Cannot execute contract writes in readonly mode. Please switch to transaction mode.');
       }
 
@@ -45,7 +108,7 @@ const UniversalContractWriteTool: McpTool = {
       }
 
       // Parse ABI
-      let parsedAbi;
+      let parsedAbi: Abi;
       try {
         parsedAbi = typeof abi === 'string' ? JSON.parse(abi) : abi;
         if (!Array.isArray(parsedAbi)) {
@@ -110,8 +173,8 @@ const UniversalContractWriteTool: McpTool = {
       }
 
       // Prepare transaction parameters
-      const txParams: any = {
-        address: contractAddress as `0x${string}`,
+      const txParams: ContractCall = {
+        address: contractAddress as Address,
         abi: parsedAbi,
         functionName,
         args,
@@ -127,12 +190,56 @@ const UniversalContractWriteTool: McpTool = {
         }
       }
 
+      let data: Hex;
+      try {
+        data = encodeFunctionData(txParams);
+      } catch (error) {
+        throw new KiloLendError(`Invalid function arguments: ${error instanceof Error ? error.message : error}`);
+      }
+
+      // Native value sent with the call, and tokens moved or approved by an ERC-20 call, count
+      // towards the spending limits. The recipient, spender or, for other calls, the contract
+      // itself is held to the address book: its contact limits, and in allowlist-only mode it
+      // has to be a contact
+      const { addressBook } = context;
+      let spendId: number | null = null;
+      const tokenMovement = decodeTokenMovement(data);
+      if (tokenMovement && valueInWei) {
+        throw new KiloLendError(`ERC-20 ${tokenMovement.functionName} calls do not take native value`);
+      }
+      if (tokenMovement && !simulate) {
+        const token = context.chain.tokens.find(candidate => candidate.address.toLowerCase() === contractAddress.toLowerCase());
+        if (token) {
+          const amount = formatUnits(tokenMovement.amount, token.decimals);
+          addressBook.resolveRecipient('universal_contract_write', tokenMovement.recipient, token.symbol, amount);
+          spendId = await context.spendingPolicy.check(agent, {
+            tool: 'universal_contract_write',
+            tokenSymbol: token.symbol,
+            amount,
+          });
+        } else if (addressBook.allowlistOnly && !addressBook.find(tokenMovement.recipient)) {
+          throw new RecipientNotAllowedError('universal_contract_write', `${tokenMovement.recipient} is not in the address book, and only contacts can receive or be approved to spend tokens`);
+        } else if (context.spendingPolicy.enabled) {
+          throw new PolicyViolationError('universal_contract_write', `${contractAddress} is not a known token on ${network}, so its ${tokenMovement.functionName} call cannot be checked against the spending limits`);
+        }
+      } else if (value && !simulate) {
+        addressBook.resolveRecipient('universal_contract_write', contractAddress, context.chain.networkInfo.nativeCurrency, value);
+        spendId = await context.spendingPolicy.check(agent, {
+          tool: 'universal_contract_write',
+          tokenSymbol: context.chain.networkInfo.nativeCurrency,
+          amount: value,
+        });
+      } else if (!simulate && addressBook.allowlistOnly && !addressBook.find(contractAddress)) {
+        // Any other call may still move funds, e.g. through an earlier approval
+        throw new RecipientNotAllowedError('universal_contract_write', `${contractAddress} is not in the address book, and in allowlist-only mode only contacts' contracts can be called`);
+      }
+
       try {
         let result;
 
         if (simulate) {
           // Simulate the transaction
-          const simulation = await publicClient.simulateContract(txParams);
+          const simulation: any = await publicClient.simulateContract(txParams as SimulateContractParameters);
           
           result = {
             success: true,
@@ -152,11 +259,18 @@ const UniversalContractWriteTool: McpTool = {
           };
         } else {
           // Execute the actual transaction
-          const txHash = await walletClient.writeContract(txParams);
+          const { txHash, receipt } = await sendRecordedSpend(context, spendId, async options => {
+            const tracker = new ProgressTracker(options);
+            const fees = await feesForContract(context.chain, txParams);
+            const txHash = await nonces!.send({ to: txParams.address, data, value: txParams.value, ...fees });
+            await tracker.broadcast(txHash, `${functionName} call on ${contractAddress}`);
 
-          // Wait for transaction confirmation
-          const receipt = await publicClient.waitForTransactionReceipt({
-            hash: txHash,
+            // Wait for transaction confirmation
+            const receipt = await publicClient.waitForTransactionReceipt({
+              hash: txHash,
+            });
+            await tracker.confirmed(txHash, receipt, `Mined in block ${receipt.blockNumber}`);
+            return { txHash, receipt };
           });
 
           const transactionResult: TransactionResult = {
@@ -191,6 +305,9 @@ const UniversalContractWriteTool: McpTool = {
         return result;
 
       } catch (contractError) {
+        if (contractError instanceof FeeLimitExceededError) {
+          throw contractError;
+        }
         if (contractError instanceof Error) {
           if (contractError.message.includes('revert')) {
             throw new KiloLendError(`Contract call reverted: ${contractError.message}`);
@@ -212,6 +329,10 @@ const UniversalContractWriteTool: McpTool = {
       }
 
     } catch (error) {
+      // Spending policy and address book refusals
+      if (error instanceof ConfirmationRejectedError) {
+        throw error;
+      }
       if (error instanceof KiloLendError || error instanceof NetworkError || error instanceof TransactionError || error instanceof InsufficientBalanceError) {
         throw error;
       }
@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { WalletAgent } from "../../agent/wallet";
+import { type McpTool, type ToolContext } from "../../types";
+import { ContactSchema, describeContact } from "./list_contacts_tool";
+
+export const AddContactTool: McpTool = {
+    name: "kilolend_add_contact",
+    description: "Add a named recipient to the address book, optionally limited to some tokens and a maximum amount per transfer. Only available when the server allows editing the address book",
+    metadata: {
+        readOnly: false,
+        destructive: false,
+        movesFunds: false,
+        idempotent: false,
+        requiresNetwork: false
+    },
+    schema: {
+        name: z.string()
+            .describe("Contact name to use in place of the address (e.g., treasury)"),
+        address: z.string()
+            .describe("Recipient address"),
+        label: z.string()
+            .optional()
+            .describe("Description of the contact (e.g., 'Exchange deposit')"),
+        tokens: z.array(z.string())
+            .optional()
+            .describe("Token symbols the contact may receive; any token when omitted"),
+        max_amounts: z.record(z.number().positive())
+            .optional()
+            .describe("Largest amount per transfer by token symbol (e.g., { \"USDT\": 500 })")
+    },
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        contact: ContactSchema,
+        persisted: z.boolean().describe("Written to the address book file; otherwise kept until the server restarts")
+    },
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
+        try {
+            const persisted = context.addressBook.add({
+                name: input.name,
+                address: input.address,
+                label: input.label,
+                tokens: input.tokens,
+                maxAmounts: input.max_amounts
+            });
+            const contact = context.addressBook.find(input.name)!;
+
+            return {
+                status: "success",
+                message: `✅ Added contact ${contact.name} (${contact.address})`,
+                contact: describeContact(contact, 'file'),
+                persisted
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to add contact: ${error.message}`);
+        }
+    }
+};
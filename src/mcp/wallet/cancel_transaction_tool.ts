@@ -0,0 +1,19 @@
+import { WalletAgent } from "../../agent/wallet";
+import { type McpTool, type ToolContext } from "../../types";
+import { ReplacementInputSchema, ReplacementOutputSchema, replacePendingTransaction } from "./replacement";
+
+export const CancelTransactionTool: McpTool = {
+    name: "kilolend_cancel_transaction",
+    description: "Cancel a pending transaction of the account by sending a zero-value transfer to itself with the same nonce and higher fees, then wait until the nonce is mined and report whether the cancellation, the original or another transaction took it",
+    metadata: {
+        readOnly: false,
+        destructive: true,
+        movesFunds: false,
+        idempotent: false,
+        requiresNetwork: true
+    },
+    schema: ReplacementInputSchema,
+    outputSchema: ReplacementOutputSchema,
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) =>
+        replacePendingTransaction(agent, input, context, 'cancel')
+};
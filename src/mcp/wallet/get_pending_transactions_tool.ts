@@ -0,0 +1,136 @@
+import { z } from "zod";
+import { formatGwei } from "viem";
+import { WalletAgent } from "../../agent/wallet";
+import { type JournalEntry, type TransactionJournal } from "../../agent/journal";
+import { type McpTool, type ToolContext } from "../../types";
+
+// Journal entry as the node sees it now; null once it turns out to be mined
+async function describePending(agent: WalletAgent, journal: TransactionJournal, entry: JournalEntry) {
+    const { publicClient, networkInfo } = agent.chain;
+    const base = {
+        hash: entry.hash,
+        tool: entry.tool,
+        description: entry.description,
+        sent_at: entry.timestamp,
+        explorer_url: `${networkInfo.blockExplorer}/tx/${entry.hash}`
+    };
+
+    let transaction;
+    try {
+        transaction = await publicClient.getTransaction({ hash: entry.hash });
+    } catch (error) {
+        return {
+            ...base,
+            state: 'not_found' as const,
+            nonce: null,
+            gas_price_gwei: null,
+            max_fee_per_gas_gwei: null,
+            max_priority_fee_per_gas_gwei: null
+        };
+    }
+
+    if (transaction.blockNumber !== null) {
+        // Mined while nobody waited for it, e.g. sent before a restart. Until the node serves
+        // its receipt the journal cannot record the outcome, so it is listed as pending
+        try {
+            journal.recordReceipt(await publicClient.getTransactionReceipt({ hash: entry.hash }));
+            return null;
+        } catch (error) {
+            // Fall through to the transaction as the node returned it
+        }
+    }
+
+    return {
+        ...base,
+        state: 'in_mempool' as const,
+        nonce: transaction.nonce,
+        gas_price_gwei: transaction.maxFeePerGas === undefined && transaction.gasPrice !== undefined ? formatGwei(transaction.gasPrice) : null,
+        max_fee_per_gas_gwei: transaction.maxFeePerGas !== undefined ? formatGwei(transaction.maxFeePerGas) : null,
+        max_priority_fee_per_gas_gwei: transaction.maxPriorityFeePerGas !== undefined ? formatGwei(transaction.maxPriorityFeePerGas) : null
+    };
+}
+
+export const GetPendingTransactionsTool: McpTool = {
+    name: "kilolend_get_pending_transactions",
+    description: "List the account's transactions that are sent but not mined, with their nonce and fees, and the account's mined and pending transaction counts. Use it to find transactions to speed up or cancel",
+    metadata: {
+        readOnly: true,
+        destructive: false,
+        movesFunds: false,
+        idempotent: true,
+        requiresNetwork: true
+    },
+    schema: {},
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        nonces: z.object({
+            confirmed: z.number().describe("Transactions of the account mined so far; the next nonce to be mined"),
+            pending: z.number().describe("Including transactions the node holds unmined"),
+            next_local: z.number().nullable().describe("Next nonce this server will use, once it has sent a transaction")
+        }),
+        transactions: z.array(z.object({
+            hash: z.string(),
+            tool: z.string(),
+            description: z.string(),
+            sent_at: z.string(),
+            state: z.enum(['in_mempool', 'not_found']).describe("'not_found': dropped by the node or replaced"),
+            nonce: z.number().nullable(),
+            gas_price_gwei: z.string().nullable().describe("Legacy transactions only"),
+            max_fee_per_gas_gwei: z.string().nullable(),
+            max_priority_fee_per_gas_gwei: z.string().nullable(),
+            explorer_url: z.string()
+        })),
+        recommendations: z.array(z.string())
+    },
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
+        if (!agent.isTransactionMode()) {
+            throw new Error('Transaction mode required. Configure private key in environment to enable transactions.');
+        }
+
+        const { journal } = context;
+        const address = agent.getAddress()!.toLowerCase();
+        const entries = journal.query({ network: context.chain.network, status: 'pending' })
+            .filter(entry => entry.from.toLowerCase() === address);
+
+        const [nonces, described] = await Promise.all([
+            agent.getNonceState(),
+            Promise.all(entries.map(entry => describePending(agent, journal, entry)))
+        ]);
+        const transactions = described
+            .filter(transaction => transaction !== null)
+            .sort((a, b) => (a.nonce ?? Infinity) - (b.nonce ?? Infinity));
+
+        const recommendations = [];
+        const blocking = transactions.find(transaction => transaction.nonce === nonces.confirmed);
+        if (blocking) {
+            recommendations.push(`💡 ${blocking.hash} (nonce ${blocking.nonce}) holds up later transactions - speed it up with kilolend_speed_up_transaction or cancel it with kilolend_cancel_transaction`);
+        }
+        const inMempool = transactions.filter(transaction => transaction.state === 'in_mempool').length;
+        const notFound = transactions.length - inMempool;
+        if (notFound > 0) {
+            recommendations.push(`⚠️ ${notFound} transaction(s) are no longer known to the node - they were dropped or replaced`);
+        }
+        if (nonces.pending - nonces.confirmed > inMempool) {
+            recommendations.push(`⚠️ The node holds ${nonces.pending - nonces.confirmed} unmined transaction(s) of this account, not all sent by this server`);
+        }
+        if (!journal.persistent) {
+            recommendations.push("💡 Without a journal file (JOURNAL_FILE) only transactions sent since the server started are listed");
+        }
+        if (transactions.length === 0 && nonces.pending === nonces.confirmed) {
+            recommendations.push("✅ No pending transactions");
+        }
+
+        return {
+            status: "success",
+            message: `⏳ ${inMempool} pending transaction(s) on ${context.chain.networkInfo.name}`,
+            nonces: {
+                confirmed: nonces.confirmed,
+                pending: nonces.pending,
+                next_local: nonces.nextLocal
+            },
+            transactions,
+            recommendations
+        };
+    }
+};
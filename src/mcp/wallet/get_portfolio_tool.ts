@@ -0,0 +1,160 @@
+import { z } from "zod";
+import { Address } from "viem";
+import { WalletAgent } from "../../agent/wallet";
+import { SUPPORTED_NETWORKS } from "../../agent/networks";
+import { type NetworkType } from "../../config";
+import { type McpTool, type ToolContext } from "../../types";
+
+// USD totals of one chain, or of every chain combined; null when the value could not be loaded
+const portfolioTotalsSchema = {
+    wallet_usd: z.number().nullable(),
+    collateral_usd: z.number().nullable(),
+    debt_usd: z.number().nullable(),
+    net_worth_usd: z.number()
+};
+
+interface ChainPortfolio {
+    network: NetworkType;
+    name: string;
+    chain_id: number;
+    status: 'complete' | 'partial' | 'unavailable';
+    wallet_usd: number | null;
+    collateral_usd: number | null;
+    debt_usd: number | null;
+    net_worth_usd: number;
+    health_factor: number | null;
+    errors: string[];
+}
+
+function roundUSD(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function sumAvailable(values: (number | null)[]): number | null {
+    const available = values.filter((value): value is number => value !== null);
+    return available.length > 0 ? roundUSD(available.reduce((sum, value) => sum + value, 0)) : null;
+}
+
+// First line of an RPC error; viem appends the request and call details on later lines
+function describeFailure(reason: any): string {
+    return String(reason?.message || reason).split('\n')[0];
+}
+
+// Wallet balances and KiloLend position of one chain; a failing call leaves its values null
+async function loadChainPortfolio(agent: WalletAgent, address: Address): Promise<ChainPortfolio> {
+    const { network, networkInfo } = agent.chain;
+    const [walletInfo, liquidity] = await Promise.allSettled([
+        agent.getWalletInfo(address),
+        agent.getAccountLiquidity(address)
+    ]);
+
+    const errors: string[] = [];
+    let walletUSD: number | null = null;
+    if (walletInfo.status === 'fulfilled') {
+        walletUSD = roundUSD(parseFloat(walletInfo.value.totalPortfolioUSD));
+    } else {
+        errors.push(describeFailure(walletInfo.reason));
+    }
+
+    let collateralUSD: number | null = null;
+    let debtUSD: number | null = null;
+    let healthFactor: number | null = null;
+    if (liquidity.status === 'fulfilled') {
+        collateralUSD = roundUSD(liquidity.value.totalCollateralUSD);
+        debtUSD = roundUSD(liquidity.value.totalBorrowUSD);
+        healthFactor = liquidity.value.totalBorrowUSD > 0 ? liquidity.value.healthFactor : null;
+    } else {
+        errors.push(describeFailure(liquidity.reason));
+    }
+
+    return {
+        network,
+        name: networkInfo.name,
+        chain_id: networkInfo.chainId,
+        status: errors.length === 0 ? 'complete' : errors.length === 2 ? 'unavailable' : 'partial',
+        wallet_usd: walletUSD,
+        collateral_usd: collateralUSD,
+        debt_usd: debtUSD,
+        net_worth_usd: roundUSD((walletUSD ?? 0) + (collateralUSD ?? 0) - (debtUSD ?? 0)),
+        health_factor: healthFactor,
+        errors
+    };
+}
+
+export const GetPortfolioTool: McpTool = {
+    name: "kilolend_get_portfolio",
+    description: "Get the portfolio of the wallet or a watched address across KAIA, KUB and Etherlink: wallet balances, KiloLend collateral, debt and net worth in USD per chain and combined. Chains whose RPC is unreachable are reported as unavailable instead of failing the call",
+    metadata: {
+        readOnly: true,
+        destructive: false,
+        movesFunds: false,
+        idempotent: true,
+        requiresNetwork: true
+    },
+    schema: {
+        address: z.string()
+            .optional()
+            .describe("Address or watched-address label (optional, defaults to the current wallet or the first watched address)")
+    },
+    outputSchema: {
+        status: z.enum(["success", "partial"]),
+        message: z.string(),
+        address: z.string(),
+        label: z.string().nullable(),
+        chains: z.array(z.object({
+            network: z.enum(['kaia', 'kub', 'etherlink']),
+            name: z.string(),
+            chain_id: z.number(),
+            status: z.enum(['complete', 'partial', 'unavailable']),
+            ...portfolioTotalsSchema,
+            health_factor: z.number().nullable().describe("Collateral / debt ratio; null without debt"),
+            errors: z.array(z.string())
+        })),
+        totals: z.object(portfolioTotalsSchema),
+        unavailable_networks: z.array(z.string()),
+        recommendations: z.array(z.string())
+    },
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
+        const address = agent.resolveAddress(input.address);
+
+        // Every network is queried in parallel; each chain's failures stay in its own entry
+        const chains = await Promise.all(
+            SUPPORTED_NETWORKS.map(network => loadChainPortfolio(context.networks.getAgent(network, context.chain.accountName), address))
+        );
+
+        const totals = {
+            wallet_usd: sumAvailable(chains.map(chain => chain.wallet_usd)),
+            collateral_usd: sumAvailable(chains.map(chain => chain.collateral_usd)),
+            debt_usd: sumAvailable(chains.map(chain => chain.debt_usd)),
+            net_worth_usd: roundUSD(chains.reduce((sum, chain) => sum + chain.net_worth_usd, 0))
+        };
+        const incomplete = chains.filter(chain => chain.status !== 'complete');
+        const unavailableNetworks = chains.filter(chain => chain.status === 'unavailable').map(chain => chain.network);
+
+        const recommendations = [];
+        if (incomplete.length > 0) {
+            recommendations.push(`⚠️ Totals exclude data that could not be loaded from ${incomplete.map(chain => chain.name).join(', ')} - retry later for a complete view`);
+        }
+        for (const chain of chains) {
+            if (chain.health_factor !== null && chain.health_factor < 1.5) {
+                recommendations.push(`🚨 Health factor ${chain.health_factor.toFixed(2)} on ${chain.name} - repay debt or add collateral`);
+            }
+        }
+        if (recommendations.length === 0) {
+            recommendations.push("✅ Portfolio loaded from every network");
+        }
+
+        return {
+            status: incomplete.length > 0 ? "partial" : "success",
+            message: incomplete.length > 0
+                ? `⚠️ Portfolio loaded with missing data from ${incomplete.length} of ${chains.length} networks: net worth $${totals.net_worth_usd.toFixed(2)}`
+                : `✅ Portfolio loaded from ${chains.length} networks: net worth $${totals.net_worth_usd.toFixed(2)}`,
+            address,
+            label: agent.getAddressLabel(address),
+            chains,
+            totals,
+            unavailable_networks: unavailableNetworks,
+            recommendations
+        };
+    }
+};
@@ -0,0 +1,138 @@
+import { z } from "zod";
+import { WalletAgent } from "../../agent/wallet";
+import { type McpTool, type ToolContext } from "../../types";
+import { ValidationError } from "../../utils/errors";
+
+// Start or end of the range: an ISO timestamp, or a date covering the whole day
+function parseDate(value: string | undefined, field: string, endOfDay: boolean): Date | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const isDay = /^\d{4}-\d{2}-\d{2}$/.test(value);
+    const date = new Date(isDay ? `${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z` : value);
+    if (isNaN(date.getTime())) {
+        throw new ValidationError(`Invalid ${field}: ${value}. Expected a date (2025-01-31) or an ISO timestamp`, field);
+    }
+    return date;
+}
+
+export const GetTransactionHistoryTool: McpTool = {
+    name: "kilolend_get_transaction_history",
+    description: "List transactions this server has broadcast, most recent first, with the tool and arguments that sent them, status, gas used and USD value. Filter by date range, tool, token or status",
+    metadata: {
+        readOnly: true,
+        destructive: false,
+        movesFunds: false,
+        idempotent: true,
+        requiresNetwork: false
+    },
+    schema: {
+        since: z.string()
+            .optional()
+            .describe("Only transactions sent on or after this date (2025-01-31) or ISO timestamp"),
+        until: z.string()
+            .optional()
+            .describe("Only transactions sent on or before this date (2025-01-31) or ISO timestamp"),
+        tool: z.string()
+            .optional()
+            .describe("Only transactions sent by this tool (e.g., kilolend_supply_to_lending)"),
+        token: z.string()
+            .optional()
+            .describe("Only transactions moving this token (e.g., USDT)"),
+        status: z.enum(['pending', 'success', 'failed', 'replaced'])
+            .optional()
+            .describe("Only transactions with this status"),
+        limit: z.number()
+            .int()
+            .min(1)
+            .max(500)
+            .optional()
+            .default(50)
+            .describe("Maximum number of transactions to return (default: 50)")
+    },
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        transactions: z.array(z.object({
+            hash: z.string(),
+            timestamp: z.string(),
+            tool: z.string(),
+            description: z.string(),
+            params: z.record(z.any()),
+            network: z.string(),
+            chain_id: z.number(),
+            account: z.string().nullable(),
+            from: z.string(),
+            token: z.string().nullable(),
+            amount: z.string().nullable().describe("Null on setup transactions"),
+            value_usd: z.number().nullable().describe("Value of the tool call when it was sent; null on setup transactions"),
+            setup: z.boolean().describe("Approval or market entry sent ahead of the transaction that moves the funds"),
+            status: z.enum(['pending', 'success', 'failed', 'replaced']),
+            replaced_by: z.string().nullable().describe("Transaction with the same nonce that was mined instead"),
+            gas_used: z.string().nullable(),
+            fee: z.string().nullable().describe("Gas paid, in the network's native currency"),
+            block_number: z.number().nullable(),
+            confirmed_at: z.string().nullable(),
+            explorer_url: z.string()
+        })),
+        persistent: z.boolean().describe("Recorded in a journal file; otherwise only since the server started"),
+        recommendations: z.array(z.string())
+    },
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
+        const { journal, networks } = context;
+        const entries = journal.query({
+            since: parseDate(input.since, 'since', false),
+            until: parseDate(input.until, 'until', true),
+            tool: input.tool,
+            token: input.token,
+            status: input.status,
+            limit: input.limit
+        });
+
+        const transactions = entries.map(entry => ({
+            hash: entry.hash,
+            timestamp: entry.timestamp,
+            tool: entry.tool,
+            description: entry.description,
+            params: entry.params,
+            network: entry.network,
+            chain_id: entry.chainId,
+            account: entry.account,
+            from: entry.from,
+            token: entry.token,
+            amount: entry.amount,
+            value_usd: entry.valueUSD,
+            setup: entry.setup,
+            status: entry.status,
+            replaced_by: entry.replacedBy,
+            gas_used: entry.gasUsed,
+            fee: entry.fee,
+            block_number: entry.blockNumber,
+            confirmed_at: entry.confirmedAt,
+            explorer_url: `${networks.getAgent(entry.network).chain.networkInfo.blockExplorer}/tx/${entry.hash}`
+        }));
+
+        const recommendations = [];
+        if (!journal.persistent) {
+            recommendations.push("⚠️ No journal file configured (JOURNAL_FILE) - history only covers this server run");
+        }
+        const pending = transactions.filter(tx => tx.status === 'pending').length;
+        if (pending > 0) {
+            recommendations.push(`⏳ ${pending} transaction(s) not mined yet or not confirmed by this server - check them with kilolend_get_pending_transactions`);
+        }
+        if (transactions.length === input.limit) {
+            recommendations.push("💡 More transactions may match; narrow the date range or raise the limit");
+        }
+        if (recommendations.length === 0) {
+            recommendations.push("✅ All listed transactions are settled");
+        }
+
+        return {
+            status: "success",
+            message: `📒 ${transactions.length} transaction(s) found`,
+            transactions,
+            persistent: journal.persistent,
+            recommendations
+        };
+    }
+};
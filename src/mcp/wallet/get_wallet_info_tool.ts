@@ -2,13 +2,75 @@ import { z } from "zod";
 import { WalletAgent } from "../../agent/wallet";
 import { type McpTool } from "../../types";
 
+// Display-formatted token balance, as listed in tokenBalances and top_tokens
+const tokenBalanceSchema = z.object({
+    symbol: z.string(),
+    balance: z.string(),
+    balanceUSD: z.string(),
+    price: z.string(),
+    address: z.string()
+});
+
 export const GetWalletInfoTool: McpTool = {
     name: "kilolend_get_wallet_info",
-    description: "Get comprehensive wallet information including all token balances",
-    schema: {},
+    description: "Get comprehensive wallet information including all token balances, for the wallet or any address (e.g. a watched address by its label)",
+    metadata: {
+        readOnly: true,
+        destructive: false,
+        movesFunds: false,
+        idempotent: true,
+        requiresNetwork: true
+    },
+    schema: {
+        address: z.string()
+            .optional()
+            .describe("Address or watched-address label to check (optional, defaults to the current wallet or the first watched address)")
+    },
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        wallet_details: z.object({
+            address: z.string(),
+            label: z.string().nullable(),
+            nativeBalance: z.string(),
+            nativeBalanceUSD: z.string(),
+            tokens: z.array(z.object({
+                symbol: z.string(),
+                address: z.string(),
+                balance: z.string(),
+                balanceUSD: z.string(),
+                price: z.number(),
+                decimals: z.number()
+            })),
+            totalPortfolioUSD: z.string(),
+            network: z.object({
+                chainId: z.number(),
+                name: z.string(),
+                rpcUrl: z.string()
+            }),
+            mode: z.enum(['read-only', 'transaction']),
+            tokenBalances: z.array(tokenBalanceSchema)
+        }),
+        account_status: z.object({
+            activated: z.boolean(),
+            minimum_balance_required: z.string(),
+            can_supply: z.boolean(),
+            ready_for_operations: z.boolean(),
+            total_portfolio_usd: z.number(),
+            token_count: z.number()
+        }),
+        portfolio_summary: z.object({
+            total_value_usd: z.string(),
+            native_balance: z.string(),
+            native_balance_usd: z.string(),
+            token_count: z.number(),
+            top_tokens: z.array(tokenBalanceSchema)
+        }),
+        recommendations: z.array(z.string())
+    },
     handler: async (agent: WalletAgent, input: Record<string, any>) => {
         try {
-            const walletInfo = await agent.getWalletInfo();
+            const walletInfo = await agent.getWalletInfo(agent.resolveAddress(input.address));
             const nativeCurrency = walletInfo.network.name;
             const balanceInNative = parseFloat(walletInfo.nativeBalance.split(' ')[0]);
             const totalPortfolioUSD = parseFloat(walletInfo.totalPortfolioUSD || '0');
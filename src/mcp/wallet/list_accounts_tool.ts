@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { formatUnits } from "viem";
+import { WalletAgent } from "../../agent/wallet";
+import { type McpTool, type ToolContext } from "../../types";
+
+// First line of an RPC error; viem appends the request details on later lines
+function describeFailure(reason: any): string {
+    return String(reason?.message || reason).split('\n')[0];
+}
+
+// Native balance and KiloLend health factor of one account; failures are reported per account
+async function describeAccount(agent: WalletAgent, isDefault: boolean) {
+    const address = agent.getAddress()!;
+    const [balance, liquidity] = await Promise.allSettled([
+        agent.chain.publicClient.getBalance({ address }),
+        agent.getAccountLiquidity(address)
+    ]);
+
+    const errors: string[] = [];
+    if (balance.status === 'rejected') {
+        errors.push(describeFailure(balance.reason));
+    }
+    if (liquidity.status === 'rejected') {
+        errors.push(describeFailure(liquidity.reason));
+    }
+
+    return {
+        name: agent.chain.accountName!,
+        address,
+        default: isDefault,
+        native_balance: balance.status === 'fulfilled'
+            ? `${formatUnits(balance.value, 18)} ${agent.chain.networkInfo.nativeCurrency}`
+            : null,
+        health_factor: liquidity.status === 'fulfilled' && liquidity.value.totalBorrowUSD > 0
+            ? liquidity.value.healthFactor
+            : null,
+        total_borrow_usd: liquidity.status === 'fulfilled' ? liquidity.value.totalBorrowUSD : null,
+        errors
+    };
+}
+
+export const ListAccountsTool: McpTool = {
+    name: "kilolend_list_accounts",
+    description: "List the accounts this server manages with their address, native balance and KiloLend health factor. Pass an account name as the account argument of other tools to act as it",
+    metadata: {
+        readOnly: true,
+        destructive: false,
+        movesFunds: false,
+        idempotent: true,
+        requiresNetwork: true
+    },
+    schema: {},
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        accounts: z.array(z.object({
+            name: z.string(),
+            address: z.string(),
+            default: z.boolean(),
+            native_balance: z.string().nullable(),
+            health_factor: z.number().nullable().describe("Collateral / debt ratio; null without debt"),
+            total_borrow_usd: z.number().nullable(),
+            errors: z.array(z.string())
+        })),
+        recommendations: z.array(z.string())
+    },
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
+        const { networks } = context;
+        const network = context.chain.network;
+
+        const accounts = await Promise.all(networks.accounts.map(({ name }) =>
+            describeAccount(networks.getAgent(network, name), name === networks.defaultAccount)
+        ));
+
+        const recommendations = [];
+        if (accounts.length === 0) {
+            recommendations.push("⚠️ No signing accounts configured - set a signer and ACCOUNTS to manage wallets");
+        }
+        for (const account of accounts) {
+            if (account.health_factor !== null && account.health_factor < 1.5) {
+                recommendations.push(`🚨 ${account.name} has health factor ${account.health_factor.toFixed(2)} - repay debt or add collateral`);
+            }
+            if (account.errors.length > 0) {
+                recommendations.push(`⚠️ Could not load all data for ${account.name}: ${account.errors[0]}`);
+            }
+        }
+        if (recommendations.length === 0) {
+            recommendations.push("✅ All accounts loaded");
+        }
+
+        return {
+            status: "success",
+            message: `✅ ${accounts.length} account(s) on ${context.chain.networkInfo.name}`,
+            accounts,
+            recommendations
+        };
+    }
+};
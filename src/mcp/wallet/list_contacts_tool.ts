@@ -0,0 +1,70 @@
+import { z } from "zod";
+import { WalletAgent } from "../../agent/wallet";
+import { type McpTool, type ToolContext } from "../../types";
+import { type Contact, type ContactSource } from "../address_book";
+
+export const ContactSchema = z.object({
+    name: z.string(),
+    address: z.string(),
+    label: z.string().nullable(),
+    tokens: z.array(z.string()).nullable().describe("Tokens the contact may receive; null for any token"),
+    max_amounts: z.record(z.number()).describe("Largest amount per transfer by token symbol"),
+    source: z.enum(['config', 'file']).describe("config contacts cannot be removed with kilolend_remove_contact")
+});
+
+export function describeContact(contact: Contact, source: ContactSource) {
+    return {
+        name: contact.name,
+        address: contact.address,
+        label: contact.label ?? null,
+        tokens: contact.tokens ?? null,
+        max_amounts: contact.maxAmounts ?? {},
+        source
+    };
+}
+
+export const ListContactsTool: McpTool = {
+    name: "kilolend_list_contacts",
+    description: "List the address book: named recipients that kilolend_send_native_token and kilolend_send_erc20_token accept in place of an address, with their token and amount limits",
+    metadata: {
+        readOnly: true,
+        destructive: false,
+        movesFunds: false,
+        idempotent: true,
+        requiresNetwork: false
+    },
+    schema: {},
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        contacts: z.array(ContactSchema),
+        allowlist_only: z.boolean().describe("Transfers to addresses outside the address book are refused"),
+        editable: z.boolean(),
+        recommendations: z.array(z.string())
+    },
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
+        const { addressBook } = context;
+        const contacts = addressBook.list().map(({ source, ...contact }) => describeContact(contact, source));
+
+        const recommendations = [];
+        if (addressBook.allowlistOnly) {
+            recommendations.push("🔒 Only these contacts can receive transfers");
+        } else {
+            recommendations.push("⚠️ Transfers to other addresses are allowed but flagged");
+        }
+        if (contacts.length === 0) {
+            recommendations.push(addressBook.editable
+                ? "💡 Add recipients with kilolend_add_contact"
+                : "💡 Contacts are configured in the server's addressBook settings");
+        }
+
+        return {
+            status: "success",
+            message: `📇 ${contacts.length} contact(s) in the address book`,
+            contacts,
+            allowlist_only: addressBook.allowlistOnly,
+            editable: addressBook.editable,
+            recommendations
+        };
+    }
+};
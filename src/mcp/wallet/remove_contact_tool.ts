@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { WalletAgent } from "../../agent/wallet";
+import { type McpTool, type ToolContext } from "../../types";
+
+export const RemoveContactTool: McpTool = {
+    name: "kilolend_remove_contact",
+    description: "Remove a contact added with kilolend_add_contact from the address book. Contacts from the server configuration cannot be removed",
+    metadata: {
+        readOnly: false,
+        destructive: true,
+        movesFunds: false,
+        idempotent: false,
+        requiresNetwork: false
+    },
+    schema: {
+        name: z.string()
+            .describe("Name of the contact to remove")
+    },
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        removed: z.object({
+            name: z.string(),
+            address: z.string()
+        })
+    },
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
+        try {
+            const contact = context.addressBook.remove(input.name);
+
+            return {
+                status: "success",
+                message: `✅ Removed contact ${contact.name} (${contact.address})`,
+                removed: {
+                    name: contact.name,
+                    address: contact.address
+                }
+            };
+        } catch (error: any) {
+            throw new Error(`Failed to remove contact: ${error.message}`);
+        }
+    }
+};
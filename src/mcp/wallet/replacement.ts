@@ -0,0 +1,177 @@
+// Replacement of pending transactions
+// Shared by kilolend_speed_up_transaction and kilolend_cancel_transaction: both resend a pending
+// transaction of the account at its nonce with higher fees, wait until a transaction with that
+// nonce is mined and report which one it was
+
+import { z } from "zod";
+import { formatEther, formatGwei, isHash, type Hex } from "viem";
+import { WalletAgent, type ReplacementKind } from "../../agent/wallet";
+import { type JournalEntry } from "../../agent/journal";
+import { hasScope, type ToolScope } from "../../server/auth";
+import { type ToolContext } from "../../types";
+import { requestConfirmation } from "../confirmation";
+import { KiloLendToolScopes, KiloLendWalletTools } from "../index";
+import { AuthorizationError, ConfirmationRejectedError, ValidationError } from "../../utils/errors";
+
+export const ReplacementInputSchema = {
+    transaction_hash: z.string()
+        .describe("Hash of the pending transaction (see kilolend_get_pending_transactions)"),
+    fee_multiplier: z.number()
+        .min(1.1)
+        .max(10)
+        .optional()
+        .default(1.2)
+        .describe("Factor applied to the pending transaction's fees; nodes require at least 1.1 (default: 1.2)")
+};
+
+export const ReplacementOutputSchema = {
+    status: z.literal("success"),
+    message: z.string(),
+    original: z.object({
+        hash: z.string(),
+        nonce: z.number(),
+        description: z.string().nullable().describe("From the transaction journal, when this server sent it")
+    }),
+    replacement: z.object({
+        hash: z.string(),
+        gas_limit: z.string(),
+        gas_price_gwei: z.string().nullable().describe("Legacy transactions only"),
+        max_fee_per_gas_gwei: z.string().nullable(),
+        max_priority_fee_per_gas_gwei: z.string().nullable()
+    }),
+    mined: z.object({
+        hash: z.string(),
+        which: z.enum(['replacement', 'original', 'other']).describe("'other': an earlier replacement or a transaction sent elsewhere took the nonce"),
+        description: z.string().nullable(),
+        status: z.enum(['success', 'failed']),
+        block_number: z.number(),
+        gas_used: z.string(),
+        fee: z.string().describe("Gas paid, in the network's native currency"),
+        explorer_url: z.string()
+    }),
+    recommendations: z.array(z.string())
+};
+
+const ACTIONS: Record<ReplacementKind, { tool: string; verb: string }> = {
+    speed_up: { tool: "kilolend_speed_up_transaction", verb: "speed up" },
+    cancel: { tool: "kilolend_cancel_transaction", verb: "cancel" }
+};
+
+/**
+ * Replacing a transaction needs the scope of the tool that sent it, as speeding it up repeats its
+ * action. Transactions missing from the journal, and those sent through intents (whose tool only
+ * needs 'read'; the action's scope is not recorded), need 'admin'
+ */
+function replacementScope(entry: JournalEntry | undefined): ToolScope {
+    const key = entry && (Object.keys(KiloLendWalletTools) as (keyof typeof KiloLendWalletTools)[])
+        .find(candidate => KiloLendWalletTools[candidate].name === entry.tool);
+    const scope = key ? KiloLendToolScopes[key] : 'admin';
+    return scope === 'read' ? 'admin' : scope;
+}
+
+function describeMined(kind: ReplacementKind, which: 'replacement' | 'original' | 'other', nonce: number, minedHash: Hex, block: bigint): string {
+    if (which === 'original') {
+        return `⚠️ The original transaction was mined in block ${block} before its replacement`;
+    }
+    if (which === 'other') {
+        return `⚠️ Nonce ${nonce} was taken by another transaction, ${minedHash}, in block ${block}`;
+    }
+    return kind === 'cancel'
+        ? `✅ Transaction cancelled: the cancellation was mined in block ${block}`
+        : `✅ Transaction sped up: the replacement was mined in block ${block}`;
+}
+
+export async function replacePendingTransaction(agent: WalletAgent, input: Record<string, any>, context: ToolContext, kind: ReplacementKind) {
+    const { tool, verb } = ACTIONS[kind];
+    try {
+        if (!agent.isTransactionMode()) {
+            throw new Error('Transaction mode required. Configure private key in environment to enable transactions.');
+        }
+        if (!isHash(input.transaction_hash)) {
+            throw new ValidationError(`Invalid transaction hash: ${input.transaction_hash}`, 'transaction_hash');
+        }
+
+        const { journal } = context;
+        const hash = input.transaction_hash as Hex;
+        const entry = journal.get(hash);
+
+        // The static scope of the replacement tools only covers reading the journal
+        const requiredScope = replacementScope(entry);
+        if (context.extra.authInfo && !hasScope(context.extra.authInfo.scopes, requiredScope)) {
+            throw new AuthorizationError(`${tool} (${entry?.tool ?? 'unknown transaction'})`, requiredScope);
+        }
+
+        const pending = await agent.getPendingTransaction(hash);
+        const described = entry?.description ?? null;
+        await requestConfirmation(context, tool, [
+            `${kind === 'cancel' ? 'Cancel' : 'Speed up'} pending transaction ${hash} on ${agent.getNetwork()}`,
+            "",
+            `Nonce: ${pending.nonce}`,
+            ...(described ? [`Transaction: ${described}`] : []),
+            kind === 'cancel'
+                ? `Replaced by a zero-value transfer to ${agent.getAddress()} with ${input.fee_multiplier}x the fees`
+                : `Resent with ${input.fee_multiplier}x the fees`,
+            "",
+            "Confirm to sign and broadcast this transaction."
+        ].join('\n'));
+
+        const { original, replacementHash, fees, receipt } = await agent.replaceTransaction(hash, kind, input.fee_multiplier, context.transactionOptions);
+        const minedHash = receipt.transactionHash;
+        const which = minedHash === replacementHash ? 'replacement' : minedHash === original.hash ? 'original' : 'other';
+
+        // Without a background wait (e.g. sent before a restart) the journal learns the outcome here
+        journal.recordReceipt(receipt);
+        const reason = which !== 'replacement' ? 'replaced' : kind === 'cancel' ? 'cancelled' : 'repriced';
+        for (const replaced of [original.hash, replacementHash].filter(candidate => candidate !== minedHash)) {
+            journal.recordReplacement(replaced, minedHash, reason);
+        }
+
+        const networkInfo = context.chain.networkInfo;
+        const recommendations = [];
+        if (which !== 'replacement') {
+            recommendations.push(`💡 The replacement ${replacementHash} was dropped and cost nothing`);
+        }
+        if (which === 'original' && kind === 'cancel') {
+            recommendations.push("⚠️ The original transaction took effect; check its outcome with kilolend_get_transaction_history");
+        }
+        if (receipt.status !== 'success') {
+            recommendations.push("⚠️ The mined transaction reverted; its gas is still paid");
+        }
+        if (recommendations.length === 0) {
+            recommendations.push("✅ Later transactions of this account can now be mined");
+        }
+
+        return {
+            status: "success",
+            message: describeMined(kind, which, original.nonce, minedHash, receipt.blockNumber),
+            original: {
+                hash: original.hash,
+                nonce: original.nonce,
+                description: described
+            },
+            replacement: {
+                hash: replacementHash,
+                gas_limit: 'gas' in fees ? fees.gas.toString() : original.gas.toString(),
+                gas_price_gwei: 'gasPrice' in fees ? formatGwei(fees.gasPrice) : null,
+                max_fee_per_gas_gwei: 'maxFeePerGas' in fees ? formatGwei(fees.maxFeePerGas) : null,
+                max_priority_fee_per_gas_gwei: 'maxPriorityFeePerGas' in fees ? formatGwei(fees.maxPriorityFeePerGas) : null
+            },
+            mined: {
+                hash: minedHash,
+                which,
+                description: which === 'original' ? described : journal.get(minedHash)?.description ?? null,
+                status: receipt.status === 'success' ? 'success' : 'failed',
+                block_number: Number(receipt.blockNumber),
+                gas_used: receipt.gasUsed.toString(),
+                fee: formatEther(receipt.gasUsed * receipt.effectiveGasPrice),
+                explorer_url: `${networkInfo.blockExplorer}/tx/${minedHash}`
+            },
+            recommendations
+        };
+    } catch (error: any) {
+        if (error instanceof ConfirmationRejectedError || error instanceof AuthorizationError) {
+            throw error;
+        }
+        throw new Error(`Failed to ${verb} transaction: ${error.message}`);
+    }
+}
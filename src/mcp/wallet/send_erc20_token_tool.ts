@@ -1,32 +1,75 @@
 import { z } from "zod";
 import { WalletAgent } from "../../agent/wallet";
-import { type McpTool } from "../../types";
+import { type McpTool, type ToolContext } from "../../types";
+import { confirmFundMovement } from "../confirmation";
+import { describeRecipient } from "../address_book";
+import { ConfirmationRejectedError } from "../../utils/errors";
 
 export const SendERC20TokenTool: McpTool = {
     name: "kilolend_send_erc20_token",
     description: "Send ERC-20 tokens to another address on any supported network",
+    metadata: {
+        readOnly: false,
+        destructive: true,
+        movesFunds: true,
+        idempotent: false,
+        requiresNetwork: true
+    },
     schema: {
         token_symbol: z.string()
             .describe("Token symbol to send (e.g., USDT, BORA, SIX, MBX, stKAIA)"),
         to_address: z.string()
-            .describe("Recipient address"),
+            .describe("Recipient address or address book contact name"),
         amount: z.string()
             .describe("Amount to send")
     },
-    handler: async (agent: WalletAgent, input: Record<string, any>) => {
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        transaction_hash: z.string(),
+        details: z.object({
+            token_symbol: z.string(),
+            to_address: z.string(),
+            contact: z.string().nullable().describe("Address book contact the recipient belongs to"),
+            recipient_warning: z.string().nullable().describe("Set when the recipient is not in the address book"),
+            amount: z.string(),
+            network: z.string().optional(),
+            chain_id: z.number(),
+            explorer_url: z.string()
+        })
+    },
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
         try {
             if (!agent.isTransactionMode()) {
                 throw new Error('Transaction mode required. Configure private key in environment to enable transactions.');
             }
-            
-            const txHash = await agent.sendERC20Token(
+
+            const recipient = context.addressBook.resolveRecipient("kilolend_send_erc20_token", input.to_address, input.token_symbol, input.amount);
+
+            const txHash = await confirmFundMovement(agent, context, {
+                tool: "kilolend_send_erc20_token",
+                action: `Send ${input.amount} ${input.token_symbol} to ${describeRecipient(recipient)}`,
+                tokenSymbol: input.token_symbol,
+                amount: input.amount,
+                details: {
+                    Recipient: describeRecipient(recipient),
+                    ...(recipient.warning ? { Warning: recipient.warning } : {})
+                },
+                estimateFee: () => agent.estimateActionFee({
+                    type: 'send_erc20',
+                    tokenSymbol: input.token_symbol,
+                    to: recipient.address,
+                    amount: input.amount
+                })
+            }, options => agent.sendERC20Token(
                 input.token_symbol,
-                input.to_address as any,
-                input.amount
-            );
+                recipient.address,
+                input.amount,
+                options
+            ));
 
             // Get current network info for explorer URL
-            const networkInfo = agent.currentNetworkInfo;
+            const networkInfo = context.chain.networkInfo;
             const explorerUrl = `${networkInfo.blockExplorer}/tx/${txHash}`;
 
             return {
@@ -35,7 +78,9 @@ export const SendERC20TokenTool: McpTool = {
                 transaction_hash: txHash,
                 details: {
                     token_symbol: input.token_symbol,
-                    to_address: input.to_address,
+                    to_address: recipient.address,
+                    contact: recipient.contact?.name ?? null,
+                    recipient_warning: recipient.warning,
                     amount: input.amount,
                     network: networkInfo.name,
                     chain_id: networkInfo.chainId,
@@ -43,6 +88,9 @@ export const SendERC20TokenTool: McpTool = {
                 }
             };
         } catch (error: any) {
+            if (error instanceof ConfirmationRejectedError) {
+                throw error;
+            }
             throw new Error(`Failed to send ERC-20 tokens: ${error.message}`);
         }
     }
@@ -1,36 +1,77 @@
 import { z } from "zod";
 import { WalletAgent } from "../../agent/wallet";
-import { type McpTool } from "../../types";
+import { type McpTool, type ToolContext } from "../../types";
+import { confirmFundMovement } from "../confirmation";
+import { describeRecipient } from "../address_book";
+import { ConfirmationRejectedError } from "../../utils/errors";
 
 export const SendNativeTokenTool: McpTool = {
     name: "kilolend_send_native_token",
     description: "Send native tokens to another address on any supported network",
+    metadata: {
+        readOnly: false,
+        destructive: true,
+        movesFunds: true,
+        idempotent: false,
+        requiresNetwork: true
+    },
     schema: {
         to_address: z.string()
-            .describe("Recipient address"),
+            .describe("Recipient address or address book contact name"),
         amount: z.string()
             .describe("Amount to send in native tokens")
     },
-    handler: async (agent: WalletAgent, input: Record<string, any>) => {
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        transaction_hash: z.string(),
+        details: z.object({
+            to_address: z.string(),
+            contact: z.string().nullable().describe("Address book contact the recipient belongs to"),
+            recipient_warning: z.string().nullable().describe("Set when the recipient is not in the address book"),
+            amount: z.string(),
+            network: z.string().optional(),
+            chain_id: z.number(),
+            native_currency: z.string(),
+            explorer_url: z.string()
+        }),
+        recommendations: z.array(z.string())
+    },
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
         try {
             if (!agent.isTransactionMode()) {
                 throw new Error('Transaction mode required. Configure private key in environment to enable transactions.');
             }
-            
-            const txHash = await agent.sendNativeToken(
-                input.to_address as any,
-                input.amount
-            );
+
+            const nativeCurrency = context.chain.networkInfo.nativeCurrency;
+            const recipient = context.addressBook.resolveRecipient("kilolend_send_native_token", input.to_address, nativeCurrency, input.amount);
+            const txHash = await confirmFundMovement(agent, context, {
+                tool: "kilolend_send_native_token",
+                action: `Send ${input.amount} ${nativeCurrency} to ${describeRecipient(recipient)}`,
+                tokenSymbol: nativeCurrency,
+                amount: input.amount,
+                details: {
+                    Recipient: describeRecipient(recipient),
+                    ...(recipient.warning ? { Warning: recipient.warning } : {})
+                },
+                estimateFee: () => agent.estimateActionFee({ type: 'send_native', to: recipient.address, amount: input.amount })
+            }, options => agent.sendNativeToken(
+                recipient.address,
+                input.amount,
+                options
+            ));
 
             // Get current network info for explorer URL
-            const networkInfo = agent.currentNetworkInfo;
+            const networkInfo = context.chain.networkInfo;
 
             return {
                 status: "success",
                 message: "✅ Native tokens sent successfully",
                 transaction_hash: txHash,
                 details: {
-                    to_address: input.to_address,
+                    to_address: recipient.address,
+                    contact: recipient.contact?.name ?? null,
+                    recipient_warning: recipient.warning,
                     amount: input.amount,
                     network: networkInfo.name,
                     chain_id: networkInfo.chainId,
@@ -38,12 +79,16 @@ export const SendNativeTokenTool: McpTool = {
                     explorer_url: `${networkInfo.blockExplorer}/tx/${txHash}`
                 },
                 recommendations: [
+                    ...(recipient.warning ? [`${recipient.warning}; add it as a contact if you send to it regularly`] : []),
                     "Save the transaction hash for reference",
                     "Wait for transaction confirmation",
                     "Check recipient address to ensure funds arrived"
                 ]
             };
         } catch (error: any) {
+            if (error instanceof ConfirmationRejectedError) {
+                throw error;
+            }
             throw new Error(`Failed to send native tokens: ${error.message}`);
         }
     }
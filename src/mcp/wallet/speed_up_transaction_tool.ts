@@ -0,0 +1,19 @@
+import { WalletAgent } from "../../agent/wallet";
+import { type McpTool, type ToolContext } from "../../types";
+import { ReplacementInputSchema, ReplacementOutputSchema, replacePendingTransaction } from "./replacement";
+
+export const SpeedUpTransactionTool: McpTool = {
+    name: "kilolend_speed_up_transaction",
+    description: "Resend a pending transaction of the account with the same nonce and call but higher fees, then wait until the nonce is mined and report whether the replacement, the original or another transaction took it",
+    metadata: {
+        readOnly: false,
+        destructive: true,
+        movesFunds: false,
+        idempotent: false,
+        requiresNetwork: true
+    },
+    schema: ReplacementInputSchema,
+    outputSchema: ReplacementOutputSchema,
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) =>
+        replacePendingTransaction(agent, input, context, 'speed_up')
+};
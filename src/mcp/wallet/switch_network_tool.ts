@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { WalletAgent } from "../../agent/wallet";
+import { type McpTool, type ToolContext } from "../../types";
+
+export const SwitchNetworkTool: McpTool = {
+    name: "kilolend_switch_network",
+    description: "Switch the network (KAIA, KUB or Etherlink) used by later calls of this session. Any single call can still target another network with its own network argument",
+    metadata: {
+        readOnly: true,
+        destructive: false,
+        movesFunds: false,
+        idempotent: true,
+        requiresNetwork: false
+    },
+    schema: {
+        network: z.enum(['kaia', 'kub', 'etherlink'])
+            .describe("Network to use from now on: 'kaia', 'kub' or 'etherlink'")
+    },
+    outputSchema: {
+        status: z.literal("success"),
+        message: z.string(),
+        network: z.object({
+            network: z.enum(['kaia', 'kub', 'etherlink']),
+            name: z.string(),
+            chain_id: z.number(),
+            native_currency: z.string(),
+            block_explorer: z.string()
+        }),
+        wallet_address: z.string().nullable(),
+        mode: z.enum(['read-only', 'transaction']),
+        recommendations: z.array(z.string())
+    },
+    handler: async (agent: WalletAgent, input: Record<string, any>, context: ToolContext) => {
+        const chain = context.switchNetwork(input.network);
+        const { networkInfo } = chain;
+
+        const recommendations = [
+            `🌐 Calls without a network argument now run on ${networkInfo.name}`,
+            "💡 Use kilolend_get_wallet_info to check your balances on this network"
+        ];
+        if (!chain.account) {
+            recommendations.push("⚠️ No private key configured - only read operations are available");
+        }
+
+        return {
+            status: "success",
+            message: `✅ Switched to ${networkInfo.name} (chain ${networkInfo.chainId})`,
+            network: {
+                network: chain.network,
+                name: networkInfo.name,
+                chain_id: networkInfo.chainId,
+                native_currency: networkInfo.nativeCurrency,
+                block_explorer: networkInfo.blockExplorer
+            },
+            wallet_address: chain.account?.address ?? null,
+            mode: chain.account ? 'transaction' : 'read-only',
+            recommendations
+        };
+    }
+};
@@ -1,30 +1,36 @@
 import { z } from 'zod';
-import { formatEther, parseEther } from 'viem';
-import { publicClient, walletClient, network, getContractAddresses, agentMode } from '../../config';
-import { TransactionResult, KiloLendError, NetworkError, TransactionError, InsufficientBalanceError } from '../../types';
-import { McpTool } from '../../types';
-import { ERC20_ABI } from '../../contracts/erc20';
-
-// Wrapped token ABI for unwrap function
-const WRAPPED_TOKEN_ABI = [
-  {
-    inputs: [{ internalType: 'uint256', name: 'amount', type: 'uint256' }],
-    name: 'withdraw',
-    outputs: [],
-    stateMutability: 'nonpayable',
-    type: 'function'
-  }
-] as const;
+import { McpTool, ToolContext, TransactionResult, TransactionResultSchema } from '../../types';
+import { KiloLendError, NetworkError, TransactionError, ValidationError } from '../../utils/errors';
 
 const UnwrapNativeTokenTool: McpTool = {
   name: 'unwrap_native_token',
   description: 'Unwrap wrapped tokens back to native tokens (WKAIA→KAIA, KKUB→KUB, WXTZ→XTZ)',
+  metadata: {
+    readOnly: false,
+    destructive: false,
+    movesFunds: true,
+    idempotent: false,
+    requiresNetwork: true,
+  },
   schema: {
     amount: z.string().describe('Amount of wrapped tokens to unwrap (in human-readable format, e.g., "1.5")'),
   },
-  handler: async (agent, input) => {
+  outputSchema: {
+    success: z.literal(true),
+    message: z.string(),
+    transaction: TransactionResultSchema,
+    details: z.object({
+      unwrappedAmount: z.string(),
+      wrappedToken: z.string(),
+      wrappedTokenAddress: z.string(),
+      nativeToken: z.string(),
+      network: z.string(),
+    }),
+  },
+  handler: async (agent, input, context: ToolContext) => {
+    const { network } = context.chain;
     try {
-      if (agentMode === 'readonly') {
+      if (!agent.isTransactionMode()) {
         throw new KiloLendError('Cannot unwrap tokens in readonly mode. Please switch to transaction mode.');
       }
 
@@ -32,104 +38,41 @@ const UnwrapNativeTokenTool: McpTool = {
       
       // Validate amount
       if (!amount || parseFloat(amount) <= 0) {
-        throw new KiloLendError('Amount must be greater than 0');
-      }
-
-      // Parse amount to wei
-      const amountInWei = parseEther(amount);
-
-      // Get the appropriate wrapped token address based on network
-      const contracts = getContractAddresses(network) as any;
-      let wrappedTokenAddress: string;
-      let nativeSymbol: string;
-      let wrappedSymbol: string;
-
-      switch (network) {
-        case 'kaia':
-          if (!contracts.WKAIA) {
-            throw new KiloLendError('WKAIA contract address not configured for KAIA network');
-          }
-          wrappedTokenAddress = contracts.WKAIA;
-          nativeSymbol = 'KAIA';
-          wrappedSymbol = 'WKAIA';
-          break;
-        case 'kub':
-          if (!contracts.KKUB) {
-            throw new KiloLendError('KKUB contract address not configured for KUB network');
-          }
-          wrappedTokenAddress = contracts.KKUB;
-          nativeSymbol = 'KUB';
-          wrappedSymbol = 'KKUB';
-          break;
-        case 'etherlink':
-          if (!contracts.WXTZ) {
-            throw new KiloLendError('WXTZ contract address not configured for Etherlink network');
-          }
-          wrappedTokenAddress = contracts.WXTZ;
-          nativeSymbol = 'XTZ';
-          wrappedSymbol = 'WXTZ';
-          break;
-        default:
-          throw new KiloLendError(`Unsupported network: ${network}`);
-      }
-
-      // Get wallet address
-      const walletAddress = walletClient.account.address;
-
-      // Check wrapped token balance using ERC20 ABI
-      const wrappedBalance = await publicClient.readContract({
-        address: wrappedTokenAddress as `0x${string}`,
-        abi: ERC20_ABI,
-        functionName: 'balanceOf',
-        args: [walletAddress],
-      });
-      
-      if (wrappedBalance < amountInWei) {
-        const balanceFormatted = formatEther(wrappedBalance);
-        throw new InsufficientBalanceError(
-          `Insufficient ${wrappedSymbol} balance. Available: ${balanceFormatted} ${wrappedSymbol}, Required: ${amount} ${wrappedSymbol}`
-        );
+        throw new ValidationError('Amount must be greater than 0', 'amount');
       }
 
-      // Unwrap tokens by calling withdraw function on wrapped token contract
-      const txHash = await walletClient.writeContract({
-        address: wrappedTokenAddress as `0x${string}`,
-        abi: WRAPPED_TOKEN_ABI,
-        functionName: 'withdraw',
-        args: [amountInWei],
-      });
+      const nativeSymbol = context.chain.networkInfo.nativeCurrency;
+      const wrapped = agent.getWrappedNativeToken();
 
-      // Wait for transaction confirmation
-      const receipt = await publicClient.waitForTransactionReceipt({
-        hash: txHash,
-      });
+      const [{ hash, receipt }] = await agent.unwrapNativeToken(amount, context.transactionOptions);
 
       const result: TransactionResult = {
-        hash: txHash,
-        status: receipt.status === 'success' ? 'success' : 'failed',
-        blockNumber: receipt.blockNumber ? Number(receipt.blockNumber) : undefined,
-        gasUsed: receipt.gasUsed ? receipt.gasUsed.toString() : undefined,
+        hash,
+        status: receipt!.status === 'success' ? 'success' : 'failed',
+        blockNumber: Number(receipt!.blockNumber),
+        gasUsed: receipt!.gasUsed.toString(),
       };
 
       if (result.status === 'failed') {
-        throw new TransactionError('Transaction failed during token unwrapping');
+        throw new TransactionError('Transaction failed during token unwrapping', hash);
       }
 
       return {
         success: true,
-        message: `Successfully unwrapped ${amount} ${wrappedSymbol} to ${nativeSymbol}`,
+        message: `Successfully unwrapped ${amount} ${wrapped.symbol} to ${nativeSymbol}`,
         transaction: result,
         details: {
           unwrappedAmount: amount,
-          wrappedToken: wrappedSymbol,
-          wrappedTokenAddress,
+          wrappedToken: wrapped.symbol,
+          wrappedTokenAddress: wrapped.address,
           nativeToken: nativeSymbol,
           network: network,
         }
       };
 
     } catch (error) {
-      if (error instanceof KiloLendError || error instanceof NetworkError || error instanceof TransactionError || error instanceof InsufficientBalanceError) {
+      // Validation, balance, fee policy and cancellation errors keep their type
+      if (error instanceof KiloLendError) {
         throw error;
       }
 
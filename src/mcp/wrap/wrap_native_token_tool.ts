@@ -1,29 +1,36 @@
 import { z } from 'zod';
-import { formatEther, parseEther } from 'viem';
-import { publicClient, walletClient, network, getContractAddresses, agentMode } from '../../config';
-import { TransactionResult, KiloLendError, NetworkError, TransactionError, InsufficientBalanceError } from '../../types';
-import { McpTool } from '../../types';
-
-// Wrapped token ABI for wrap function
-const WRAPPED_TOKEN_ABI = [
-  {
-    inputs: [],
-    name: 'deposit',
-    outputs: [],
-    stateMutability: 'payable',
-    type: 'function'
-  }
-] as const;
+import { McpTool, ToolContext, TransactionResult, TransactionResultSchema } from '../../types';
+import { KiloLendError, NetworkError, TransactionError, ValidationError } from '../../utils/errors';
 
 const WrapNativeTokenTool: McpTool = {
   name: 'wrap_native_token',
   description: 'Wrap native tokens to wrapped tokens (KAIA→WKAIA, KUB→KKUB, XTZ→WXTZ)',
+  metadata: {
+    readOnly: false,
+    destructive: false,
+    movesFunds: true,
+    idempotent: false,
+    requiresNetwork: true,
+  },
   schema: {
     amount: z.string().describe('Amount of native tokens to wrap (in human-readable format, e.g., "1.5")'),
   },
-  handler: async (agent, input) => {
+  outputSchema: {
+    success: z.literal(true),
+    message: z.string(),
+    transaction: TransactionResultSchema,
+    details: z.object({
+      wrappedAmount: z.string(),
+      wrappedToken: z.string(),
+      wrappedTokenAddress: z.string(),
+      nativeToken: z.string(),
+      network: z.string(),
+    }),
+  },
+  handler: async (agent, input, context: ToolContext) => {
+    const { network } = context.chain;
     try {
-      if (agentMode === 'readonly') {
+      if (!agent.isTransactionMode()) {
         throw new KiloLendError('Cannot wrap tokens in readonly mode. Please switch to transaction mode.');
       }
 
@@ -31,99 +38,41 @@ const WrapNativeTokenTool: McpTool = {
       
       // Validate amount
       if (!amount || parseFloat(amount) <= 0) {
-        throw new KiloLendError('Amount must be greater than 0');
-      }
-
-      // Parse amount to wei
-      const amountInWei = parseEther(amount);
-
-      // Get the appropriate wrapped token address based on network
-      const contracts = getContractAddresses(network) as any;
-      let wrappedTokenAddress: string;
-      let nativeSymbol: string;
-      let wrappedSymbol: string;
-
-      switch (network) {
-        case 'kaia':
-          if (!contracts.WKAIA) {
-            throw new KiloLendError('WKAIA contract address not configured for KAIA network');
-          }
-          wrappedTokenAddress = contracts.WKAIA;
-          nativeSymbol = 'KAIA';
-          wrappedSymbol = 'WKAIA';
-          break;
-        case 'kub':
-          if (!contracts.KKUB) {
-            throw new KiloLendError('KKUB contract address not configured for KUB network');
-          }
-          wrappedTokenAddress = contracts.KKUB;
-          nativeSymbol = 'KUB';
-          wrappedSymbol = 'KKUB';
-          break;
-        case 'etherlink':
-          if (!contracts.WXTZ) {
-            throw new KiloLendError('WXTZ contract address not configured for Etherlink network');
-          }
-          wrappedTokenAddress = contracts.WXTZ;
-          nativeSymbol = 'XTZ';
-          wrappedSymbol = 'WXTZ';
-          break;
-        default:
-          throw new KiloLendError(`Unsupported network: ${network}`);
-      }
-
-      // Get wallet address
-      const walletAddress = walletClient.account.address;
-
-      // Check native token balance
-      const nativeBalance = await publicClient.getBalance({ address: walletAddress });
-      
-      if (nativeBalance < amountInWei) {
-        const balanceFormatted = formatEther(nativeBalance);
-        throw new InsufficientBalanceError(
-          `Insufficient ${nativeSymbol} balance. Available: ${balanceFormatted} ${nativeSymbol}, Required: ${amount} ${nativeSymbol}`
-        );
+        throw new ValidationError('Amount must be greater than 0', 'amount');
       }
 
-      // Wrap the tokens by calling deposit function on wrapped token contract
-      const txHash = await walletClient.writeContract({
-        address: wrappedTokenAddress as `0x${string}`,
-        abi: WRAPPED_TOKEN_ABI,
-        functionName: 'deposit',
-        value: amountInWei,
-      });
+      const nativeSymbol = context.chain.networkInfo.nativeCurrency;
+      const wrapped = agent.getWrappedNativeToken();
 
-      // Wait for transaction confirmation
-      const receipt = await publicClient.waitForTransactionReceipt({
-        hash: txHash,
-      });
+      const [{ hash, receipt }] = await agent.wrapNativeToken(amount, context.transactionOptions);
 
       const result: TransactionResult = {
-        hash: txHash,
-        status: receipt.status === 'success' ? 'success' : 'failed',
-        blockNumber: receipt.blockNumber ? Number(receipt.blockNumber) : undefined,
-        gasUsed: receipt.gasUsed ? receipt.gasUsed.toString() : undefined,
+        hash,
+        status: receipt!.status === 'success' ? 'success' : 'failed',
+        blockNumber: Number(receipt!.blockNumber),
+        gasUsed: receipt!.gasUsed.toString(),
       };
 
       if (result.status === 'failed') {
-        throw new TransactionError('Transaction failed during token wrapping');
+        throw new TransactionError('Transaction failed during token wrapping', hash);
       }
 
       return {
         success: true,
-        message: `Successfully wrapped ${amount} ${nativeSymbol} to ${wrappedSymbol}`,
+        message: `Successfully wrapped ${amount} ${nativeSymbol} to ${wrapped.symbol}`,
         transaction: result,
         details: {
           wrappedAmount: amount,
-          wrappedToken: wrappedSymbol,
-          wrappedTokenAddress,
+          wrappedToken: wrapped.symbol,
+          wrappedTokenAddress: wrapped.address,
           nativeToken: nativeSymbol,
           network: network,
         }
       };
 
     } catch (error) {
-      if (error instanceof KiloLendError || error instanceof NetworkError || error instanceof TransactionError || error instanceof InsufficientBalanceError) {
+      // Validation, balance, fee policy and cancellation errors keep their type
+      if (error instanceof KiloLendError) {
         throw error;
       }
 
@@ -0,0 +1,72 @@
+import { type IncomingMessage } from 'node:http';
+import { authenticateRequest, hasScope, loadApiTokens, TOOL_SCOPES, type ApiTokenConfig } from './auth';
+
+const tokens: ApiTokenConfig[] = [
+    { name: 'dashboard', token: 'read-token', scopes: ['read'] },
+    { name: 'operator', token: 'admin-token', scopes: ['admin'] }
+];
+
+const request = (authorization?: string) => ({ headers: authorization ? { authorization } : {} }) as IncomingMessage;
+
+describe('hasScope', () => {
+    it('requires the scope itself', () => {
+        expect(hasScope(['read', 'lend'], 'lend')).toBe(true);
+        expect(hasScope(['read', 'lend'], 'transfer')).toBe(false);
+        expect(hasScope([], 'read')).toBe(false);
+    });
+
+    it('grants every scope to admin', () => {
+        for (const scope of TOOL_SCOPES) {
+            expect(hasScope(['admin'], scope)).toBe(true);
+        }
+    });
+});
+
+describe('authenticateRequest', () => {
+    it('resolves a known bearer token to its scopes', () => {
+        expect(authenticateRequest(request('Bearer read-token'), tokens)).toEqual({ token: 'read-token', clientId: 'dashboard', scopes: ['read'] });
+        expect(authenticateRequest(request('bearer  admin-token '), tokens)?.clientId).toBe('operator');
+    });
+
+    it('rejects missing, malformed and unknown tokens', () => {
+        expect(authenticateRequest(request(), tokens)).toBeNull();
+        expect(authenticateRequest(request('Basic cmVhZC10b2tlbg=='), tokens)).toBeNull();
+        expect(authenticateRequest(request('Bearer read-toke'), tokens)).toBeNull();
+    });
+});
+
+describe('loadApiTokens', () => {
+    const originalEnv = process.env;
+    const originalArgv = process.argv;
+
+    // Without the test runner's flags, such as its own --config
+    beforeEach(() => {
+        process.env = { CHAIN_ID: '8217' };
+        process.argv = ['node', 'kilolend-mcp'];
+    });
+
+    afterEach(() => {
+        process.env = originalEnv;
+        process.argv = originalArgv;
+    });
+
+    it('parses MCP_AUTH_TOKENS', () => {
+        process.env.MCP_AUTH_TOKENS = 'abc=read, Lend; x=y=admin;';
+
+        expect(loadApiTokens()).toEqual([
+            { name: 'env-token-1', token: 'abc', scopes: ['read', 'lend'] },
+            { name: 'env-token-2', token: 'x=y', scopes: ['admin'] }
+        ]);
+    });
+
+    it('refuses unknown scopes and entries without scopes', () => {
+        process.env.MCP_AUTH_TOKENS = 'abc=read,withdraw';
+        expect(() => loadApiTokens()).toThrow("Invalid scope 'withdraw' for API token 'env-token-1'");
+
+        process.env.MCP_AUTH_TOKENS = 'abc=';
+        expect(() => loadApiTokens()).toThrow("API token 'env-token-1' has no scopes");
+
+        process.env.MCP_AUTH_TOKENS = 'abc';
+        expect(() => loadApiTokens()).toThrow('Invalid MCP_AUTH_TOKENS entry #1');
+    });
+});
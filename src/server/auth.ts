@@ -0,0 +1,112 @@
+import { timingSafeEqual } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { IncomingMessage } from 'node:http';
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { getEnvironmentConfig } from '../config';
+
+/**
+ * Bearer-token authentication for networked transports
+ * Maps API tokens to tool scopes; `admin` implies every other scope
+ */
+
+export const TOOL_SCOPES = ['read', 'lend', 'swap', 'transfer', 'admin'] as const;
+
+export type ToolScope = typeof TOOL_SCOPES[number];
+
+export interface ApiTokenConfig {
+    name: string;
+    token: string;
+    scopes: ToolScope[];
+}
+
+function parseScopes(rawScopes: string[], tokenName: string): ToolScope[] {
+    const scopes = rawScopes.map(scope => scope.trim().toLowerCase()).filter(Boolean);
+    for (const scope of scopes) {
+        if (!TOOL_SCOPES.includes(scope as ToolScope)) {
+            throw new Error(`Invalid scope '${scope}' for API token '${tokenName}'. Supported scopes: ${TOOL_SCOPES.join(', ')}`);
+        }
+    }
+    if (scopes.length === 0) {
+        throw new Error(`API token '${tokenName}' has no scopes`);
+    }
+    return scopes as ToolScope[];
+}
+
+// Load API tokens from the config file's authTokens, MCP_AUTH_TOKENS_FILE (JSON) and/or MCP_AUTH_TOKENS
+// MCP_AUTH_TOKENS format: "token1=read,lend;token2=admin"
+export function loadApiTokens(): ApiTokenConfig[] {
+    const tokens: ApiTokenConfig[] = [];
+
+    getEnvironmentConfig().authTokens?.forEach((entry, index) => {
+        const name = entry.name || `config-token-${index + 1}`;
+        tokens.push({ name, token: entry.token, scopes: parseScopes(entry.scopes, name) });
+    });
+
+    const tokensFile = process.env.MCP_AUTH_TOKENS_FILE;
+    if (tokensFile) {
+        const parsed = JSON.parse(readFileSync(tokensFile, 'utf8'));
+        const entries = Array.isArray(parsed) ? parsed : parsed.tokens;
+        if (!Array.isArray(entries)) {
+            throw new Error(`Invalid API tokens file ${tokensFile}: expected an array of { name, token, scopes }`);
+        }
+        entries.forEach((entry: any, index: number) => {
+            const name = entry.name || `file-token-${index + 1}`;
+            if (typeof entry.token !== 'string' || entry.token.length === 0) {
+                throw new Error(`API token '${name}' in ${tokensFile} is missing a token value`);
+            }
+            tokens.push({ name, token: entry.token, scopes: parseScopes(entry.scopes || [], name) });
+        });
+    }
+
+    const tokensEnv = process.env.MCP_AUTH_TOKENS;
+    if (tokensEnv) {
+        tokensEnv.split(';').map(entry => entry.trim()).filter(Boolean).forEach((entry, index) => {
+            const separator = entry.lastIndexOf('=');
+            if (separator <= 0) {
+                throw new Error(`Invalid MCP_AUTH_TOKENS entry #${index + 1}. Expected format: token=scope1,scope2`);
+            }
+            const name = `env-token-${index + 1}`;
+            tokens.push({
+                name,
+                token: entry.substring(0, separator),
+                scopes: parseScopes(entry.substring(separator + 1).split(','), name)
+            });
+        });
+    }
+
+    return tokens;
+}
+
+function tokensMatch(expected: string, provided: string): boolean {
+    const expectedBuffer = Buffer.from(expected);
+    const providedBuffer = Buffer.from(provided);
+    return expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+// Resolve the bearer token of an HTTP request to its auth info, or null when missing/unknown
+export function authenticateRequest(req: IncomingMessage, tokens: ApiTokenConfig[]): AuthInfo | null {
+    const header = req.headers['authorization'];
+    if (!header || !header.toLowerCase().startsWith('bearer ')) {
+        return null;
+    }
+
+    const provided = header.substring(7).trim();
+    const match = tokens.find(config => tokensMatch(config.token, provided));
+    if (!match) {
+        return null;
+    }
+
+    return {
+        token: provided,
+        clientId: match.name,
+        scopes: match.scopes
+    };
+}
+
+export function hasScope(scopes: readonly string[], required: ToolScope): boolean {
+    return scopes.includes('admin') || scopes.includes(required);
+}
+
+export function isLoopbackHost(host: string): boolean {
+    return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
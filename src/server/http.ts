@@ -0,0 +1,236 @@
+import { randomUUID } from 'node:crypto';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { logger } from "../utils/logger";
+
+/**
+ * HTTP transport for the KiloLend MCP server
+ * Serves MCP Streamable HTTP on /mcp and the legacy SSE transport on /sse + /messages,
+ * so several clients can share one long-running process and wallet agent
+ */
+
+export interface HttpTransportOptions {
+    host: string;
+    port: number;
+    // Resolves the caller's credentials; when set, unauthenticated requests get 401
+    authenticate?: (req: IncomingMessage) => AuthInfo | null;
+}
+
+export interface HttpTransportHandle {
+    close: () => Promise<void>;
+}
+
+interface HttpSession {
+    server: McpServer;
+    transport: StreamableHTTPServerTransport | SSEServerTransport;
+    clientId?: string;
+}
+
+type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
+
+// Every session gets its own McpServer (a server connects to exactly one transport),
+// built by the factory so that all sessions share the same wallet agent
+type ServerFactory = (authInfo?: AuthInfo) => McpServer;
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            throw new Error('Request body too large');
+        }
+        chunks.push(chunk as Buffer);
+    }
+
+    const raw = Buffer.concat(chunks).toString('utf8');
+    return raw.length > 0 ? JSON.parse(raw) : undefined;
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string) {
+    if (res.headersSent) {
+        return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+        jsonrpc: '2.0',
+        error: { code, message },
+        id: null
+    }));
+}
+
+export async function startHttpTransport(createServerForSession: ServerFactory, options: HttpTransportOptions): Promise<HttpTransportHandle> {
+    const sessions = new Map<string, HttpSession>();
+
+    const closeSession = async (sessionId: string) => {
+        const session = sessions.get(sessionId);
+        if (!session) {
+            return;
+        }
+        sessions.delete(sessionId);
+        try {
+            await session.server.close();
+        } catch (error) {
+            logger.error(`Failed to close MCP session ${sessionId}`, { error });
+        }
+    };
+
+    // Sessions stay bound to the token that opened them
+    const findSession = (sessionId: string, req: AuthenticatedRequest, res: ServerResponse): HttpSession | null => {
+        const session = sessions.get(sessionId);
+        if (!session) {
+            sendJsonRpcError(res, 404, -32001, 'Session not found');
+            return null;
+        }
+        if (session.clientId !== req.auth?.clientId) {
+            sendJsonRpcError(res, 403, -32003, 'Session belongs to a different API token');
+            return null;
+        }
+        return session;
+    };
+
+    // ===== STREAMABLE HTTP (/mcp) =====
+
+    const handleStreamableRequest = async (req: AuthenticatedRequest, res: ServerResponse) => {
+        const sessionId = req.headers['mcp-session-id'] as string | undefined;
+        const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+        if (sessionId) {
+            const session = findSession(sessionId, req, res);
+            if (!session) {
+                return;
+            }
+            if (!(session.transport instanceof StreamableHTTPServerTransport)) {
+                sendJsonRpcError(res, 400, -32000, 'Session was opened with the SSE transport');
+                return;
+            }
+            await session.transport.handleRequest(req, res, body);
+            return;
+        }
+
+        if (req.method !== 'POST' || !isInitializeRequest(body)) {
+            sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+            return;
+        }
+
+        // New session: create a dedicated server bound to a fresh transport
+        const server = createServerForSession(req.auth);
+        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            onsessioninitialized: (newSessionId) => {
+                sessions.set(newSessionId, { server, transport, clientId: req.auth?.clientId });
+                logger.info(`🔌 MCP session opened: ${newSessionId} (streamable HTTP)`);
+            }
+        });
+
+        transport.onclose = () => {
+            if (transport.sessionId && sessions.has(transport.sessionId)) {
+                sessions.delete(transport.sessionId);
+                logger.info(`🔌 MCP session closed: ${transport.sessionId}`);
+            }
+        };
+
+        await server.connect(transport);
+        await transport.handleRequest(req, res, body);
+    };
+
+    // ===== LEGACY SSE (/sse + /messages) =====
+
+    const handleSseStream = async (req: AuthenticatedRequest, res: ServerResponse) => {
+        const server = createServerForSession(req.auth);
+        const transport = new SSEServerTransport('/messages', res);
+        sessions.set(transport.sessionId, { server, transport, clientId: req.auth?.clientId });
+        logger.info(`🔌 MCP session opened: ${transport.sessionId} (SSE)`);
+
+        res.on('close', () => {
+            if (sessions.has(transport.sessionId)) {
+                logger.info(`🔌 MCP session closed: ${transport.sessionId}`);
+                void closeSession(transport.sessionId);
+            }
+        });
+
+        await server.connect(transport);
+    };
+
+    const handleSseMessage = async (req: AuthenticatedRequest, res: ServerResponse, url: URL) => {
+        const sessionId = url.searchParams.get('sessionId') || '';
+        const session = findSession(sessionId, req, res);
+        if (!session) {
+            return;
+        }
+        if (!(session.transport instanceof SSEServerTransport)) {
+            sendJsonRpcError(res, 400, -32000, 'Session was opened with the streamable HTTP transport');
+            return;
+        }
+        const body = await readJsonBody(req);
+        await session.transport.handlePostMessage(req, res, body);
+    };
+
+    const httpServer = createServer(async (req: AuthenticatedRequest, res) => {
+        const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+        try {
+            const isMcpEndpoint = ['/mcp', '/sse', '/messages'].includes(url.pathname);
+            if (isMcpEndpoint && options.authenticate) {
+                const authInfo = options.authenticate(req);
+                if (!authInfo) {
+                    res.setHeader('WWW-Authenticate', 'Bearer realm="kilolend-mcp"');
+                    sendJsonRpcError(res, 401, -32001, 'Unauthorized: missing or invalid bearer token');
+                    return;
+                }
+                req.auth = authInfo;
+            }
+
+            if (url.pathname === '/mcp' && ['GET', 'POST', 'DELETE'].includes(req.method || '')) {
+                await handleStreamableRequest(req, res);
+            } else if (url.pathname === '/sse' && req.method === 'GET') {
+                await handleSseStream(req, res);
+            } else if (url.pathname === '/messages' && req.method === 'POST') {
+                await handleSseMessage(req, res, url);
+            } else if (url.pathname === '/health' && req.method === 'GET') {
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ status: 'ok', sessions: sessions.size }));
+            } else {
+                res.writeHead(404, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ error: 'Not found' }));
+            }
+        } catch (error) {
+            logger.error(`HTTP transport error [${req.method} ${url.pathname}]`, { error });
+            const isParseError = error instanceof SyntaxError;
+            sendJsonRpcError(
+                res,
+                isParseError ? 400 : 500,
+                isParseError ? -32700 : -32603,
+                isParseError ? 'Parse error' : 'Internal server error'
+            );
+        }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        httpServer.once('error', reject);
+        httpServer.listen(options.port, options.host, () => {
+            httpServer.off('error', reject);
+            resolve();
+        });
+    });
+
+    logger.info(`🌐 KiloLend MCP HTTP transport listening on http://${options.host}:${options.port}/mcp (SSE fallback on /sse)`);
+
+    return {
+        close: async () => {
+            // Close every open MCP session before stopping the listener
+            await Promise.all(Array.from(sessions.keys()).map(closeSession));
+            await new Promise<void>((resolve) => {
+                httpServer.close(() => resolve());
+                httpServer.closeAllConnections();
+            });
+        }
+    };
+}
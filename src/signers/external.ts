@@ -0,0 +1,119 @@
+import { connect } from 'node:net';
+import {
+    formatTransactionRequest,
+    getAddress,
+    numberToHex,
+    toHex,
+    type Address,
+    type Hex,
+    type LocalAccount,
+    type TransactionSerializable
+} from 'viem';
+import { toAccount } from 'viem/accounts';
+
+/**
+ * Signer running in a separate process, reached over JSON-RPC: an HTTP(S) endpoint or a local
+ * IPC socket (`unix:/path/signer.sock`, or a path ending in .sock or .ipc). Transactions are
+ * signed with eth_signTransaction and broadcast by the server, so the key never enters it
+ */
+
+const REQUEST_TIMEOUT_MS = 60000;
+
+let nextRequestId = 1;
+
+function socketPath(url: string): string | null {
+    if (url.startsWith('unix:')) {
+        return url.substring('unix:'.length).replace(/^\/\//, '');
+    }
+    return /\.(sock|ipc)$/.test(url) ? url : null;
+}
+
+function unwrapResponse(url: string, method: string, response: any): any {
+    if (response.error) {
+        throw new Error(`External signer ${url} rejected ${method}: ${response.error.message || JSON.stringify(response.error)}`);
+    }
+    return response.result;
+}
+
+async function requestOverHttp(url: string, body: string): Promise<any> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+        throw new Error(`External signer ${url} returned HTTP ${response.status}`);
+    }
+    return response.json();
+}
+
+// IPC sockets carry bare JSON messages; the response is complete once it parses
+function requestOverSocket(path: string, body: string): Promise<any> {
+    return new Promise((resolve, reject) => {
+        const socket = connect(path);
+        let buffer = '';
+        socket.setTimeout(REQUEST_TIMEOUT_MS, () => {
+            socket.destroy(new Error(`External signer ${path} did not respond`));
+        });
+        socket.on('connect', () => socket.write(body));
+        socket.on('data', chunk => {
+            buffer += chunk.toString('utf8');
+            try {
+                const response = JSON.parse(buffer);
+                socket.end();
+                resolve(response);
+            } catch {
+                // Wait for the rest of the message
+            }
+        });
+        socket.on('error', reject);
+    });
+}
+
+export async function callExternalSigner(url: string, method: string, params: unknown[]): Promise<any> {
+    const body = JSON.stringify({ jsonrpc: '2.0', id: nextRequestId++, method, params });
+    const path = socketPath(url);
+    const response = path ? await requestOverSocket(path, body) : await requestOverHttp(url, body);
+    return unwrapResponse(url, method, response);
+}
+
+/**
+ * Account backed by an external signer. Without an explicit address, the signer must
+ * manage exactly one account (eth_accounts)
+ */
+export async function createExternalSignerAccount(url: string, address?: Address): Promise<LocalAccount> {
+    const accounts: string[] = await callExternalSigner(url, 'eth_accounts', []);
+    const managed = accounts.map(account => getAddress(account));
+    if (address && !managed.includes(getAddress(address))) {
+        throw new Error(`External signer ${url} does not manage ${address}. Accounts: ${managed.join(', ') || 'none'}`);
+    }
+    if (!address && managed.length !== 1) {
+        throw new Error(`External signer ${url} manages ${managed.length} accounts; set SIGNER_ADDRESS to choose one`);
+    }
+    const signerAddress = address ? getAddress(address) : managed[0];
+
+    return toAccount({
+        address: signerAddress,
+        async signMessage({ message }) {
+            const data = typeof message === 'string' ? toHex(message) : typeof message.raw === 'string' ? message.raw : toHex(message.raw);
+            return callExternalSigner(url, 'personal_sign', [data, signerAddress]);
+        },
+        async signTransaction(transaction) {
+            // Blob sidecars (false when left out) are not part of a signing request; this server sends no blob transactions
+            const { sidecars, ...fields }: TransactionSerializable = transaction;
+            const request = {
+                ...formatTransactionRequest(fields),
+                from: signerAddress,
+                chainId: transaction.chainId !== undefined ? numberToHex(transaction.chainId) : undefined
+            };
+            const result = await callExternalSigner(url, 'eth_signTransaction', [request]);
+            // geth-style signers return { raw, tx }, others the raw transaction itself
+            return (typeof result === 'string' ? result : result.raw) as Hex;
+        },
+        async signTypedData(typedData) {
+            const payload = JSON.stringify(typedData, (_, value) => typeof value === 'bigint' ? value.toString() : value);
+            return callExternalSigner(url, 'eth_signTypedData_v4', [signerAddress, payload]);
+        }
+    });
+}
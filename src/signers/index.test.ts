@@ -0,0 +1,58 @@
+import { type KiloLendMCPEnvironment } from '../config';
+import { loadAccounts, loadSignerAccount } from './index';
+
+// Mnemonic of the Hardhat and Anvil development accounts, whose addresses are well known
+const mnemonic = 'test test test test test test test test test test test junk';
+
+const environment: KiloLendMCPEnvironment = {
+    rpcUrl: 'http://127.0.0.1:1',
+    accounts: [],
+    agentMode: 'transaction',
+    chainId: 8217,
+    network: 'kaia',
+    transport: 'stdio',
+    httpHost: '127.0.0.1',
+    httpPort: 3000,
+    confirmTransactions: false,
+    apiBaseUrl: 'http://127.0.0.1:1',
+    priceUrl: 'http://127.0.0.1:1/prices',
+    apiTimeout: 1000,
+    rpcTimeout: 1000,
+    rpcRetries: 0,
+    intentTtlSeconds: 300,
+    watchAddresses: [],
+    policy: { tools: {}, tokens: {} },
+    addressBook: { allowlistOnly: false, editable: false, contacts: [] },
+    fees: {}
+};
+
+describe('mnemonic signer', () => {
+    it('derives the first account by default', async () => {
+        const account = await loadSignerAccount({ ...environment, signer: { type: 'mnemonic', mnemonic } });
+
+        expect(account?.address).toBe('0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266');
+    });
+
+    it('derives the account of a configured path', async () => {
+        const account = await loadSignerAccount({ ...environment, signer: { type: 'mnemonic', mnemonic, derivationPath: "m/44'/60'/0'/0/2" } });
+
+        expect(account?.address).toBe('0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC');
+    });
+
+    it('derives named accounts at their derivation index', async () => {
+        const accounts = await loadAccounts({
+            ...environment,
+            signer: { type: 'mnemonic', mnemonic },
+            accounts: [{ name: 'treasury', derivationIndex: 1 }]
+        });
+
+        expect(accounts.map(({ name, account }) => [name, account.address])).toEqual([
+            ['default', '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'],
+            ['treasury', '0x70997970C51812dc3A010C7d01b50e0d17dc79C8']
+        ]);
+    });
+
+    it('requires a mnemonic', async () => {
+        await expect(loadSignerAccount({ ...environment, signer: { type: 'mnemonic' } })).rejects.toThrow('MNEMONIC or MNEMONIC_FILE');
+    });
+});
@@ -0,0 +1,106 @@
+import { readFileSync } from 'node:fs';
+import { mnemonicToAccount, privateKeyToAccount, type Account } from 'viem/accounts';
+import { type AccountConfig, type KiloLendMCPEnvironment, type SignerConfig } from '../config';
+import { accountFromPrivateKey } from '../context';
+import { decryptKeystore } from './keystore';
+import { createExternalSignerAccount } from './external';
+
+/**
+ * Signing backends behind the WalletAgent: a plain private key, an encrypted JSON keystore,
+ * a BIP-39 mnemonic or an external signer process. Accounts are loaded once in main() and
+ * shared by every network's ChainContext
+ */
+
+// A signing account selectable by name with the tools' account argument
+export interface ManagedAccount {
+    name: string;
+    account: Account;
+}
+
+export { decryptKeystore } from './keystore';
+export { callExternalSigner, createExternalSignerAccount } from './external';
+
+export const DEFAULT_DERIVATION_PATH = "m/44'/60'/0'/0/0";
+
+// Inline secret or the trimmed contents of its file
+function readSecret(value: string | undefined, file: string | undefined): string | undefined {
+    if (value) {
+        return value;
+    }
+    return file ? readFileSync(file, 'utf8').trim() : undefined;
+}
+
+async function loadKeystoreAccount(path: string | undefined, password: string | undefined): Promise<Account> {
+    if (!path) {
+        throw new Error('Keystore signer requires KEYSTORE_PATH');
+    }
+    if (password === undefined) {
+        throw new Error('Keystore signer requires KEYSTORE_PASSWORD or KEYSTORE_PASSWORD_FILE');
+    }
+    const privateKey = await decryptKeystore(readFileSync(path, 'utf8'), password);
+    return privateKeyToAccount(privateKey);
+}
+
+function loadMnemonicAccount(signer: SignerConfig | undefined, path: string): Account {
+    const mnemonic = signer && readSecret(signer.mnemonic, signer.mnemonicFile);
+    if (!mnemonic) {
+        throw new Error('Mnemonic signer requires MNEMONIC or MNEMONIC_FILE');
+    }
+    return mnemonicToAccount(mnemonic, { path: path as `m/44'/60'/${string}` });
+}
+
+// Signing account of the configured backend; null in read-only setups without a signer
+export async function loadSignerAccount(environment: KiloLendMCPEnvironment): Promise<Account | null> {
+    const signer = environment.signer;
+    if (!signer) {
+        return null;
+    }
+
+    switch (signer.type) {
+        case 'private-key':
+            if (!environment.privateKey) {
+                throw new Error('Private key signer requires PRIVATE_KEY');
+            }
+            return accountFromPrivateKey(environment.privateKey);
+        case 'keystore':
+            return loadKeystoreAccount(signer.keystorePath, readSecret(signer.keystorePassword, signer.keystorePasswordFile));
+        case 'mnemonic':
+            return loadMnemonicAccount(signer, signer.derivationPath || DEFAULT_DERIVATION_PATH);
+        case 'external':
+            if (!signer.url) {
+                throw new Error('External signer requires SIGNER_URL');
+            }
+            return createExternalSignerAccount(signer.url, signer.address);
+    }
+}
+
+async function loadNamedAccount(environment: KiloLendMCPEnvironment, config: AccountConfig): Promise<Account> {
+    const signer = environment.signer;
+    if (config.derivationIndex !== undefined) {
+        return loadMnemonicAccount(signer, `m/44'/60'/0'/0/${config.derivationIndex}`);
+    }
+    const password = config.keystorePasswordFile
+        ? readSecret(undefined, config.keystorePasswordFile)
+        : readSecret(signer?.keystorePassword, signer?.keystorePasswordFile);
+    return loadKeystoreAccount(config.keystorePath, password);
+}
+
+/**
+ * The signer's account as "default", followed by the named accounts of the configuration
+ * The first account is used when a call does not select one
+ */
+export async function loadAccounts(environment: KiloLendMCPEnvironment): Promise<ManagedAccount[]> {
+    const accounts: ManagedAccount[] = [];
+    const signerAccount = await loadSignerAccount(environment);
+    if (signerAccount) {
+        accounts.push({ name: 'default', account: signerAccount });
+    }
+    for (const config of environment.accounts) {
+        try {
+            accounts.push({ name: config.name, account: await loadNamedAccount(environment, config) });
+        } catch (error: any) {
+            throw new Error(`Failed to load account ${config.name}: ${error.message}`);
+        }
+    }
+    return accounts;
+}
@@ -0,0 +1,71 @@
+import { decryptKeystore } from './keystore';
+
+// Test vectors of the Web3 Secret Storage v3 definition, both encrypting this key with 'testpassword'
+const password = 'testpassword';
+const privateKey = '0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d';
+
+const pbkdf2Keystore = {
+    crypto: {
+        cipher: 'aes-128-ctr',
+        cipherparams: { iv: '6087dab2f9fdbbfaddc31a909735c1e6' },
+        ciphertext: '5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46',
+        kdf: 'pbkdf2',
+        kdfparams: {
+            c: 262144,
+            dklen: 32,
+            prf: 'hmac-sha256',
+            salt: 'ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd'
+        },
+        mac: '517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2'
+    },
+    id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+    version: 3
+};
+
+const scryptKeystore = {
+    crypto: {
+        cipher: 'aes-128-ctr',
+        cipherparams: { iv: '83dbcc02d8ccb40e466191a123791e0e' },
+        ciphertext: 'd172bf743a674da9cdad04534d56926ef8358534d458fffccd4e6ad2fbde479c',
+        kdf: 'scrypt',
+        kdfparams: {
+            dklen: 32,
+            n: 262144,
+            p: 8,
+            r: 1,
+            salt: 'ab0c7876052600dd703518d6fc3fe8984592145b591fc8fb5c6d43190334ba19'
+        },
+        mac: '2103ac29920d71da29f15d75b4a16dbe95cfd7ff8faea1056c33131d846e3097'
+    },
+    id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+    version: 3
+};
+
+describe('decryptKeystore', () => {
+    // The vectors' key derivation parameters are deliberately slow
+    jest.setTimeout(30000);
+
+    it('decrypts the PBKDF2 test vector', async () => {
+        expect(await decryptKeystore(JSON.stringify(pbkdf2Keystore), password)).toBe(privateKey);
+    });
+
+    it('decrypts the scrypt test vector', async () => {
+        expect(await decryptKeystore(JSON.stringify(scryptKeystore), password)).toBe(privateKey);
+    });
+
+    it('accepts the Crypto spelling some tools write', async () => {
+        const { crypto, ...rest } = pbkdf2Keystore;
+
+        expect(await decryptKeystore(JSON.stringify({ ...rest, Crypto: crypto }), password)).toBe(privateKey);
+    });
+
+    it('fails the MAC check with a wrong passphrase', async () => {
+        await expect(decryptKeystore(JSON.stringify(pbkdf2Keystore), 'wrongpassword')).rejects.toThrow('wrong passphrase');
+    });
+
+    it('refuses keystores it cannot decrypt', async () => {
+        await expect(decryptKeystore(JSON.stringify({ ...pbkdf2Keystore, version: 1 }), password)).rejects.toThrow('expected a version 3 JSON keystore');
+        await expect(decryptKeystore(JSON.stringify({ ...pbkdf2Keystore, crypto: { ...pbkdf2Keystore.crypto, cipher: 'aes-128-cbc' } }), password))
+            .rejects.toThrow('Unsupported keystore cipher: aes-128-cbc');
+    });
+});
@@ -1,7 +1,7 @@
 import axios from 'axios';
-import { TOKEN_CONFIGS, NetworkType, apiConfig } from '../../config';
-
-const PRICE_API_URL = apiConfig.priceUrl
+import { TOKEN_CONFIGS, NetworkType } from '../../config';
+import { type ApiConfig } from '../../context';
+import { logger } from '../../utils/logger';
 
 // Token symbol mapping for better user experience
 // Maps API response symbols to our standard symbols across all chains
@@ -67,11 +67,12 @@ function mapApiResponse(prices: any[]): any[] {
 
 /**
  * Get all available prices from the KiloLend price API
+ * @param api Price API endpoint and timeout
  * @returns All price data with success status
  */
-export const getAllPrices = async () => {
+export const getAllPrices = async (api: ApiConfig) => {
     try {
-        const response = await axios.get(PRICE_API_URL);
+        const response = await axios.get(api.priceUrl, { timeout: api.timeout });
 
         if (response.data.success) {
             // Map API symbols to standard symbols for better user experience
@@ -88,7 +89,7 @@ export const getAllPrices = async () => {
             };
         }
     } catch (error: any) {
-        console.error('Error fetching all prices:', error);
+        logger.error('Error fetching all prices', { error });
         return {
             success: false,
             error: error.message || 'Failed to fetch prices from API'
@@ -98,12 +99,13 @@ export const getAllPrices = async () => {
 
 /**
  * Get prices for specific token symbols
+ * @param api Price API endpoint and timeout
  * @param symbols Array of token symbols (e.g., ['KAIA', 'BTC', 'ETH'])
  * @returns Filtered price data for requested symbols
  */
-export const getTokenPrices = async (symbols: string[]) => {
+export const getTokenPrices = async (api: ApiConfig, symbols: string[]) => {
     try {
-        const allPricesResult = await getAllPrices();
+        const allPricesResult = await getAllPrices(api);
 
         if (!allPricesResult.success) {
             return allPricesResult;
@@ -122,7 +124,7 @@ export const getTokenPrices = async (symbols: string[]) => {
             foundSymbols: filteredPrices.map((price: any) => price.symbol)
         };
     } catch (error: any) {
-        console.error('Error fetching token prices:', error);
+        logger.error('Error fetching token prices', { error });
         return {
             success: false,
             error: error.message || 'Failed to fetch token prices'
@@ -132,11 +134,12 @@ export const getTokenPrices = async (symbols: string[]) => {
 
 /**
  * Get prices for KAIA ecosystem tokens only
+ * @param api Price API endpoint and timeout
  * @returns KAIA ecosystem price data
  */
-export const getKaiaEcosystemPrices = async () => {
+export const getKaiaEcosystemPrices = async (api: ApiConfig) => {
     try {
-        const allPricesResult = await getAllPrices();
+        const allPricesResult = await getAllPrices(api);
 
         if (!allPricesResult.success) {
             return allPricesResult;
@@ -156,7 +159,7 @@ export const getKaiaEcosystemPrices = async () => {
             category: 'kaia_ecosystem'
         };
     } catch (error: any) {
-        console.error('Error fetching KAIA ecosystem prices:', error);
+        logger.error('Error fetching KAIA ecosystem prices', { error });
         return {
             success: false,
             error: error.message || 'Failed to fetch KAIA ecosystem prices'
@@ -166,11 +169,12 @@ export const getKaiaEcosystemPrices = async () => {
 
 /**
  * Get prices for KUB ecosystem tokens only
+ * @param api Price API endpoint and timeout
  * @returns KUB ecosystem price data
  */
-export const getKubEcosystemPrices = async () => {
+export const getKubEcosystemPrices = async (api: ApiConfig) => {
     try {
-        const allPricesResult = await getAllPrices();
+        const allPricesResult = await getAllPrices(api);
 
         if (!allPricesResult.success) {
             return allPricesResult;
@@ -190,7 +194,7 @@ export const getKubEcosystemPrices = async () => {
             category: 'kub_ecosystem'
         };
     } catch (error: any) {
-        console.error('Error fetching KUB ecosystem prices:', error);
+        logger.error('Error fetching KUB ecosystem prices', { error });
         return {
             success: false,
             error: error.message || 'Failed to fetch KUB ecosystem prices'
@@ -200,11 +204,12 @@ export const getKubEcosystemPrices = async () => {
 
 /**
  * Get prices for Etherlink ecosystem tokens only
+ * @param api Price API endpoint and timeout
  * @returns Etherlink ecosystem price data
  */
-export const getEtherlinkEcosystemPrices = async () => {
+export const getEtherlinkEcosystemPrices = async (api: ApiConfig) => {
     try {
-        const allPricesResult = await getAllPrices();
+        const allPricesResult = await getAllPrices(api);
 
         if (!allPricesResult.success) {
             return allPricesResult;
@@ -224,7 +229,7 @@ export const getEtherlinkEcosystemPrices = async () => {
             category: 'etherlink_ecosystem'
         };
     } catch (error: any) {
-        console.error('Error fetching Etherlink ecosystem prices:', error);
+        logger.error('Error fetching Etherlink ecosystem prices', { error });
         return {
             success: false,
             error: error.message || 'Failed to fetch Etherlink ecosystem prices'
@@ -234,12 +239,13 @@ export const getEtherlinkEcosystemPrices = async () => {
 
 /**
  * Get prices for a specific network's tokens
+ * @param api Price API endpoint and timeout
  * @param network Network type ('kaia', 'kub', 'etherlink')
  * @returns Network-specific price data
  */
-export const getNetworkPrices = async (network: NetworkType) => {
+export const getNetworkPrices = async (api: ApiConfig, network: NetworkType) => {
     try {
-        const allPricesResult = await getAllPrices();
+        const allPricesResult = await getAllPrices(api);
 
         if (!allPricesResult.success) {
             return allPricesResult;
@@ -261,7 +267,7 @@ export const getNetworkPrices = async (network: NetworkType) => {
             foundSymbols: networkPrices.map((price: any) => price.symbol)
         };
     } catch (error: any) {
-        console.error(`Error fetching ${network} network prices:`, error);
+        logger.error(`Error fetching ${network} network prices`, { error });
         return {
             success: false,
             error: error.message || `Failed to fetch ${network} network prices`
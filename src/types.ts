@@ -1,12 +1,180 @@
 import { z } from 'zod';
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { NetworkManager } from './agent/networks';
+import type { TransactionOptions } from './agent/progress';
+import type { SpendingPolicy } from './mcp/policy';
+import type { AddressBook } from './mcp/address_book';
+import type { TransactionJournal } from './agent/journal';
+import type { ChainContext } from './context';
+import type { NetworkType } from './config';
+import type { ToolKey } from './mcp/tool_selection';
+
+// Risk classification of a tool, published to clients as MCP tool annotations
+export interface McpToolMetadata {
+    // Never changes on-chain state
+    readOnly: boolean;
+    // May make irreversible changes, such as sending funds to another address
+    destructive: boolean;
+    // Moves tokens out of the wallet or between its KiloLend positions
+    movesFunds: boolean;
+    // Repeating the call with the same input has no additional effect
+    idempotent: boolean;
+    // Talks to a chain RPC or an external API
+    requiresNetwork: boolean;
+}
+
+// Per-call context passed to tool handlers
+export interface ToolContext {
+    // Low-level server of the calling session, used for elicitation and notifications
+    server: Server;
+    // Request metadata: auth info, session id and abort signal
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>;
+    // Ask the user to confirm fund-moving actions before they are broadcast
+    confirmTransactions: boolean;
+    // Limits every fund-moving action is checked against before it is broadcast
+    spendingPolicy: SpendingPolicy;
+    // Contacts the transfer tools resolve recipients against
+    addressBook: AddressBook;
+    // Every transaction the server has broadcast
+    journal: TransactionJournal;
+    // Progress notifications and cancellation for the transactions the tool broadcasts
+    transactionOptions: TransactionOptions;
+    // Network, clients, account, contracts and tokens the call runs against
+    chain: ChainContext;
+    // Select the network used by later calls of this session that have no network argument
+    switchNetwork: (network: NetworkType) => ChainContext;
+    // Agents of every supported network, for tools that work across chains
+    networks: NetworkManager;
+    // Registry keys of the tools enabled for this deployment, for tools that act on behalf of others
+    enabledTools: ReadonlySet<ToolKey>;
+}
 
 export interface McpTool {
     name: string;
     description: string;
+    metadata: McpToolMetadata;
     schema: Record<string, any>;
-    handler: (agent: any, input: Record<string, any>) => Promise<any>;
+    // Zod shape of the handler's result, published as the tool's output schema
+    outputSchema: Record<string, any>;
+    handler: (agent: any, input: Record<string, any>, context: ToolContext) => Promise<any>;
 }
 
+// Shared output schema fragments for McpTool.outputSchema
+export const NetworkSummarySchema = z.object({
+  name: z.string(),
+  chain_id: z.number(),
+  native_currency: z.string()
+});
+
+// Optional `network` argument added to every tool that has no network input of its own
+export const NetworkArgumentSchema = z.enum(['kaia', 'kub', 'etherlink']).optional()
+  .describe("Network to run this call on; defaults to the session's network (see kilolend_switch_network)");
+
+// Optional `account` argument added to every tool that has no account input of its own
+export const AccountArgumentSchema = z.string().optional()
+  .describe("Managed account to act as (see kilolend_list_accounts); defaults to the first account");
+
+// Account a tool acted as, added to every tool result; null without a signing account
+export const ResultAccountSchema = z.object({
+  name: z.string(),
+  address: z.string()
+}).nullable();
+
+// Chain a tool result came from, added to every tool result
+export const ResultChainSchema = z.object({
+  network: z.enum(['kaia', 'kub', 'etherlink']),
+  name: z.string(),
+  chain_id: z.number()
+});
+
+// Network fees of the transactions a tool call sent, added to the results of calls that sent any
+export const ResultFeePaidSchema = z.object({
+  total: z.string().describe("Paid by the mined transactions, in the native currency"),
+  currency: z.string(),
+  transactions: z.array(z.object({
+    hash: z.string(),
+    status: z.enum(['pending', 'success', 'failed', 'replaced']),
+    gas_used: z.string().nullable(),
+    effective_gas_price_gwei: z.string().nullable(),
+    fee: z.string().nullable().describe("Null while the transaction is not mined")
+  }))
+}).nullable().optional().describe("Null when the call did not wait for any of its transactions to be mined");
+
+export const TransactionResultSchema = z.object({
+  hash: z.string(),
+  status: z.enum(['success', 'failed']),
+  blockNumber: z.number().optional(),
+  gasUsed: z.string().optional(),
+  error: z.string().optional()
+});
+
+export const MarketInfoSchema = z.object({
+  symbol: z.string(),
+  underlyingSymbol: z.string(),
+  cTokenAddress: z.string(),
+  underlyingAddress: z.string().optional(),
+  supplyApy: z.string(),
+  borrowApy: z.string(),
+  totalSupply: z.string(),
+  totalBorrows: z.string(),
+  cash: z.string(),
+  utilizationRate: z.string(),
+  exchangeRate: z.string(),
+  price: z.number(),
+  isListed: z.boolean()
+});
+
+export const AccountPositionSchema = z.object({
+  cTokenAddress: z.string(),
+  symbol: z.string(),
+  underlyingSymbol: z.string(),
+  supplyBalance: z.string(),
+  borrowBalance: z.string(),
+  supplyValueUSD: z.number(),
+  borrowValueUSD: z.number(),
+  collateralFactor: z.string(),
+  isCollateral: z.boolean()
+});
+
+// Price entries keep whatever extra fields the price API returns
+export const PriceEntrySchema = z.object({
+  symbol: z.string(),
+  price: z.number()
+}).passthrough();
+
+// A prepared transaction intent, as returned by the prepare and execute tools
+export const TransactionIntentSchema = z.object({
+  id: z.string(),
+  action: z.string(),
+  summary: z.string(),
+  network: z.string(),
+  chainId: z.number(),
+  from: z.string(),
+  account: z.string().nullable(),
+  transactions: z.array(z.object({
+    description: z.string(),
+    to: z.string(),
+    data: z.string().optional(),
+    value: z.string().optional(),
+    simulation: z.object({
+      status: z.enum(['success', 'depends_on_previous']),
+      gasEstimate: z.string().optional(),
+      error: z.string().optional()
+    })
+  })),
+  effects: z.array(z.object({
+    asset: z.string(),
+    position: z.enum(['wallet', 'supplied', 'borrowed', 'allowance', 'collateral']),
+    change: z.string(),
+    note: z.string().optional()
+  })),
+  estimatedFee: z.string().nullable(),
+  createdAt: z.string(),
+  expiresAt: z.string()
+});
+
 // Price API response types
 export const PriceDataSchema = z.object({
   symbol: z.string(),
@@ -54,6 +54,65 @@ export class TokenNotSupportedError extends KiloLendError {
   }
 }
 
+export class AuthorizationError extends KiloLendError {
+  constructor(public tool: string, public requiredScope: string) {
+    super(`Tool ${tool} requires the '${requiredScope}' scope`, 'FORBIDDEN');
+    this.name = 'AuthorizationError';
+  }
+}
+
+export class ConfirmationRejectedError extends KiloLendError {
+  constructor(public tool: string, public reason: string) {
+    super(`${tool} was not executed: ${reason}`, 'USER_REJECTED');
+    this.name = 'ConfirmationRejectedError';
+  }
+}
+
+// Refused by the spending policy; a ConfirmationRejectedError, so tools pass it through unchanged
+export class PolicyViolationError extends ConfirmationRejectedError {
+  constructor(tool: string, reason: string) {
+    super(tool, `refused by the spending policy: ${reason}`);
+    this.code = 'POLICY_VIOLATION';
+    this.name = 'PolicyViolationError';
+  }
+}
+
+// Refused by the address book: an unknown recipient in allowlist-only mode, or over a contact's limits
+export class RecipientNotAllowedError extends ConfirmationRejectedError {
+  constructor(tool: string, reason: string) {
+    super(tool, `refused by the address book: ${reason}`);
+    this.code = 'RECIPIENT_NOT_ALLOWED';
+    this.name = 'RecipientNotAllowedError';
+  }
+}
+
+// Refused by the network's fee policy before signing: fees or maximum cost over the configured caps
+export class FeeLimitExceededError extends KiloLendError {
+  constructor(public reason: string) {
+    super(`Refused by the fee policy: ${reason}`, 'FEE_LIMIT_EXCEEDED');
+    this.name = 'FeeLimitExceededError';
+  }
+}
+
+export class IntentExpiredError extends KiloLendError {
+  constructor(public intentId: string, public expiresAt: string) {
+    super(`Intent ${intentId} expired at ${expiresAt}. Prepare the transaction again`, 'INTENT_EXPIRED');
+    this.name = 'IntentExpiredError';
+  }
+}
+
+export class OperationCancelledError extends KiloLendError {
+  constructor(public broadcastHashes: string[] = []) {
+    super(
+      broadcastHashes.length === 0
+        ? 'Operation cancelled before any transaction was broadcast'
+        : `Operation cancelled after broadcasting ${broadcastHashes.join(', ')}; these transactions may still be mined`,
+      'CANCELLED'
+    );
+    this.name = 'OperationCancelledError';
+  }
+}
+
 export function handleApiError(error: any): KiloLendError {
   if (error.response) {
     const status = error.response.status;
@@ -1,3 +1,5 @@
 export * from './validation';
 export * from './formatting';
 export * from './errors';
+export * from './serialization';
+export * from './logger';
@@ -0,0 +1,182 @@
+import { appendFileSync, existsSync, mkdirSync, renameSync, statSync, unlinkSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { LoggingLevelSchema, SetLevelRequestSchema, type LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Server diagnostics
+ * Every entry goes to stderr, to connected MCP clients as notifications/message (filtered by the
+ * level each session sets with logging/setLevel) and, when LOG_FILE is set, to a rotating JSONL file
+ */
+
+export type { LoggingLevel };
+
+export interface LogFields {
+  tool?: string;
+  network?: string;
+  txHash?: string;
+  error?: unknown;
+  [key: string]: unknown;
+}
+
+interface LogFileOptions {
+  path: string;
+  maxBytes: number;
+  maxFiles: number;
+}
+
+export interface LoggerOptions {
+  level?: LoggingLevel;
+  // Added to every entry, e.g. the connected network
+  defaults?: LogFields;
+  file?: LogFileOptions | null;
+}
+
+const SEVERITY = new Map(LoggingLevelSchema.options.map((level, index) => [level, index]));
+
+// LOG_LEVEL accepts the MCP levels plus the common "warn" alias
+export function parseLogLevel(value: string | undefined, fallback: LoggingLevel = 'info'): LoggingLevel {
+  const level = value?.trim().toLowerCase();
+  if (level === 'warn') {
+    return 'warning';
+  }
+  const parsed = LoggingLevelSchema.safeParse(level);
+  return parsed.success ? parsed.data : fallback;
+}
+
+function logFileFromEnv(): LogFileOptions | null {
+  if (!process.env.LOG_FILE) {
+    return null;
+  }
+  return {
+    path: process.env.LOG_FILE,
+    maxBytes: parseInt(process.env.LOG_FILE_MAX_BYTES || '10485760'),
+    maxFiles: Math.max(1, parseInt(process.env.LOG_FILE_MAX_FILES || '5'))
+  };
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class Logger {
+  private level: LoggingLevel;
+  private defaults: LogFields = {};
+  private file: LogFileOptions | null;
+  // Connected MCP sessions and the level each one asked for (unset: the server level)
+  private sessions = new Map<Server, LoggingLevel | undefined>();
+
+  constructor(options: LoggerOptions = {}) {
+    this.level = options.level ?? parseLogLevel(process.env.LOG_LEVEL);
+    this.file = options.file === undefined ? logFileFromEnv() : options.file;
+  }
+
+  configure(options: LoggerOptions) {
+    if (options.level) {
+      this.level = options.level;
+    }
+    if (options.defaults) {
+      this.defaults = { ...this.defaults, ...options.defaults };
+    }
+    if (options.file !== undefined) {
+      this.file = options.file;
+    }
+  }
+
+  // Forward log entries to an MCP session, which must declare the logging capability.
+  // Returns a function that stops forwarding when the session closes
+  attach(server: Server): () => void {
+    this.sessions.set(server, undefined);
+    server.setRequestHandler(SetLevelRequestSchema, async request => {
+      this.sessions.set(server, request.params.level);
+      return {};
+    });
+    return () => {
+      this.sessions.delete(server);
+    };
+  }
+
+  debug(message: string, fields?: LogFields) {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields) {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields) {
+    this.log('warning', message, fields);
+  }
+
+  error(message: string, fields?: LogFields) {
+    this.log('error', message, fields);
+  }
+
+  log(level: LoggingLevel, message: string, fields: LogFields = {}) {
+    const entry: Record<string, unknown> = { ...this.defaults, ...fields };
+    if (fields.error !== undefined) {
+      entry.error = describeError(fields.error);
+    }
+    for (const key of Object.keys(entry)) {
+      if (entry[key] === undefined) {
+        delete entry[key];
+      }
+    }
+
+    if (this.isEnabled(level, this.level)) {
+      const context = Object.keys(fields).length > 0
+        ? ` ${JSON.stringify(Object.fromEntries(Object.keys(fields).map(key => [key, entry[key]])))}`
+        : '';
+      // stdout carries the stdio transport, so console output must stay on stderr
+      console.error(`${message}${context}`);
+      this.writeFile({ timestamp: new Date().toISOString(), level, message, ...entry });
+    }
+
+    for (const [server, sessionLevel] of this.sessions) {
+      if (this.isEnabled(level, sessionLevel ?? this.level)) {
+        server.sendLoggingMessage({ level, logger: 'kilolend-mcp', data: { message, ...entry } })
+          .catch(() => {
+            // The session may have closed between the check and the send
+          });
+      }
+    }
+  }
+
+  private isEnabled(level: LoggingLevel, threshold: LoggingLevel): boolean {
+    return SEVERITY.get(level)! >= SEVERITY.get(threshold)!;
+  }
+
+  private writeFile(entry: Record<string, unknown>) {
+    if (!this.file) {
+      return;
+    }
+
+    try {
+      const line = `${JSON.stringify(entry)}\n`;
+      mkdirSync(dirname(this.file.path), { recursive: true });
+      if (existsSync(this.file.path) && statSync(this.file.path).size + line.length > this.file.maxBytes) {
+        this.rotate();
+      }
+      appendFileSync(this.file.path, line);
+    } catch (error) {
+      console.error(`Failed to write log file ${this.file.path}: ${describeError(error)}`);
+    }
+  }
+
+  // app.log -> app.log.1 -> ... -> app.log.<maxFiles>, dropping the oldest
+  private rotate() {
+    const { path, maxFiles } = this.file!;
+    const oldest = `${path}.${maxFiles}`;
+    if (existsSync(oldest)) {
+      unlinkSync(oldest);
+    }
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      if (existsSync(`${path}.${index}`)) {
+        renameSync(`${path}.${index}`, `${path}.${index + 1}`);
+      }
+    }
+    renameSync(path, `${path}.1`);
+  }
+}
+
+export const logger = new Logger();
@@ -0,0 +1,79 @@
+import { bytesToHex, formatUnits, getAddress, isAddress } from 'viem';
+
+/**
+ * JSON-safe encoding of tool results
+ * viem returns bigints, tuples and byte arrays that JSON.stringify cannot handle,
+ * so every tool result goes through serializeValue before it is sent to the client
+ */
+
+export interface SerializeOptions {
+  // Token decimals; when set, bigints are encoded with a formatted amount next to the raw value
+  decimals?: number;
+}
+
+export interface SerializedAmount {
+  raw: string;
+  formatted: string;
+  decimals: number;
+}
+
+export function serializeBigInt(value: bigint, decimals?: number): string | SerializedAmount {
+  if (decimals === undefined) {
+    return value.toString();
+  }
+  return {
+    raw: value.toString(),
+    formatted: formatUnits(value, decimals),
+    decimals
+  };
+}
+
+/**
+ * Recursively converts a value into plain JSON data:
+ * - bigint -> decimal string, or { raw, formatted, decimals } when decimals are known
+ * - addresses -> EIP-55 checksummed strings
+ * - Uint8Array / Buffer -> 0x-prefixed hex
+ * - tuples and structs -> arrays and objects with their fields serialized
+ * - Map / Set / Date -> object / array / ISO string
+ */
+export function serializeValue(value: unknown, options: SerializeOptions = {}): unknown {
+  if (typeof value === 'bigint') {
+    return serializeBigInt(value, options.decimals);
+  }
+
+  if (typeof value === 'string') {
+    return value.length === 42 && isAddress(value, { strict: false }) ? getAddress(value) : value;
+  }
+
+  if (value === null || typeof value !== 'object') {
+    // Functions and symbols have no JSON form
+    return typeof value === 'function' || typeof value === 'symbol' ? undefined : value;
+  }
+
+  if (value instanceof Uint8Array) {
+    return bytesToHex(value);
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (Array.isArray(value) || value instanceof Set) {
+    return Array.from(value, item => serializeValue(item, options));
+  }
+
+  if (value instanceof Map) {
+    return Object.fromEntries(
+      Array.from(value.entries(), ([key, item]) => [String(key), serializeValue(item, options)])
+    );
+  }
+
+  const serialized: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const encoded = serializeValue(item, options);
+    if (encoded !== undefined) {
+      serialized[key] = encoded;
+    }
+  }
+  return serialized;
+}